@@ -0,0 +1,53 @@
+import { parseMessageData } from './message-data';
+
+// Server-side behavior for each agent mode selectable in AgentModeToggle
+
+export type AgentMode = 'normal' | 'think' | 'research';
+
+export interface AgentModeConfig {
+  // Max LLM round trips (tool call -> result -> continue) for the answer
+  maxSteps: number;
+  // Run a separate planning pass first and stream it to the client as reasoning
+  planFirst: boolean;
+  // Expose the documentation search / page fetch tools and emit citations
+  useResearchTools: boolean;
+  // Appended to the base system prompt
+  systemPromptAddendum: string;
+}
+
+export const AGENT_MODE_CONFIGS: Record<AgentMode, AgentModeConfig> = {
+  normal: {
+    maxSteps: 1,
+    planFirst: false,
+    useResearchTools: false,
+    systemPromptAddendum: '',
+  },
+  think: {
+    maxSteps: 3,
+    planFirst: true,
+    useResearchTools: false,
+    systemPromptAddendum: `\n\n**Think Mode:**\nA step-by-step plan for this request has been prepared and is provided below. Follow it, but correct it if you notice a mistake. Do not repeat the plan verbatim; give the final, well-structured answer.`,
+  },
+  research: {
+    maxSteps: 6,
+    planFirst: false,
+    useResearchTools: true,
+    systemPromptAddendum: `\n\n**Research Mode:**\nBefore answering, use \`searchDocumentation\` to find relevant official documentation and \`fetchWebPage\` to read the most relevant pages (usually 1-3). Base your answer on what you read and cite sources inline as [1], [2], ... in the order you fetched them. If the sources do not cover the question, say so.`,
+  },
+};
+
+export const PLANNING_SYSTEM_PROMPT = `You are the planning stage of a front-end development assistant. Think through the user's latest request step by step: restate the goal, list the key constraints and unknowns, consider alternative approaches and pick one, and outline the answer as a short numbered plan. Be concise. Do not write the final answer or full code.`;
+
+export const AGENT_MODES: AgentMode[] = ['normal', 'think', 'research'];
+
+// Reads `agentMode` from a user message's `data`
+export function getAgentModeFromMessageData(data: unknown): AgentMode {
+  const parsed = parseMessageData(data);
+  if (typeof parsed === 'object' && parsed !== null && 'agentMode' in parsed) {
+    const mode = (parsed as { agentMode: unknown }).agentMode;
+    if (typeof mode === 'string' && AGENT_MODES.includes(mode as AgentMode)) {
+      return mode as AgentMode;
+    }
+  }
+  return 'normal';
+}
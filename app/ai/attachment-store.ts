@@ -0,0 +1,86 @@
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { MAX_ATTACHMENT_CHARS } from '../lib/attachments/limits';
+
+// Server-only store for the extracted text of attached files, one file per attachment id under
+// ATTACHMENT_STORE_DIR (default .data/attachments). The client uploads the text once when the file
+// is attached (POST /api/attachments); messages only carry the id, so the text isn't sent again
+// with every request or kept in every stored message. JSON exports fetch the texts (GET) and
+// imports upload them again under new ids; the client deletes them (DELETE) when their chat is
+// purged or the file is removed before sending.
+
+const STORE_DIR = process.env.ATTACHMENT_STORE_DIR ?? path.join(process.cwd(), '.data', 'attachments');
+
+// Ids are random (nanoid) and double as file names
+const ATTACHMENT_ID_PATTERN = /^[\w-]{10,64}$/;
+
+// Texts are truncated to MAX_ATTACHMENT_TOKENS on the client; this leaves room for the marker
+export const MAX_STORED_TEXT_CHARS = MAX_ATTACHMENT_CHARS + 1_000;
+
+export class AttachmentStoreError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AttachmentStoreError';
+  }
+}
+
+export function isAttachmentId(id: string): boolean {
+  return ATTACHMENT_ID_PATTERN.test(id);
+}
+
+function getTextPath(id: string): string {
+  return path.join(STORE_DIR, `${id}.txt`);
+}
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+}
+
+/**
+ * Stores an attachment's text. A text can't be replaced once stored: uploading the same text
+ * again (a retry) succeeds, a different one fails with 409.
+ */
+export async function saveAttachmentText(id: string, text: string): Promise<void> {
+  if (!isAttachmentId(id)) throw new AttachmentStoreError('Invalid attachment id', 400);
+  if (text.length > MAX_STORED_TEXT_CHARS) throw new AttachmentStoreError('Attachment text is too long', 413);
+
+  await mkdir(STORE_DIR, { recursive: true });
+  try {
+    await writeFile(getTextPath(id), text, { encoding: 'utf8', flag: 'wx' });
+  } catch (error) {
+    if (!hasErrorCode(error, 'EEXIST')) throw error;
+    if ((await readFile(getTextPath(id), 'utf8')) !== text) {
+      throw new AttachmentStoreError('An attachment with this id already exists', 409);
+    }
+  }
+}
+
+// Texts by id; ids that are invalid or not in the store are left out
+export async function loadAttachmentTexts(ids: string[]): Promise<Map<string, string>> {
+  const texts = new Map<string, string>();
+  for (const id of new Set(ids)) {
+    if (!isAttachmentId(id)) continue;
+    try {
+      texts.set(id, await readFile(getTextPath(id), 'utf8'));
+    } catch (error) {
+      if (!hasErrorCode(error, 'ENOENT')) throw error;
+      console.warn(`[AttachmentStore] No stored text for attachment ${id}`);
+    }
+  }
+  return texts;
+}
+
+// Texts that are already gone (or ids that can't be stored) are skipped; returns how many were deleted
+export async function deleteAttachmentTexts(ids: string[]): Promise<number> {
+  let deleted = 0;
+  for (const id of new Set(ids)) {
+    if (!isAttachmentId(id)) continue;
+    try {
+      await unlink(getTextPath(id));
+      deleted++;
+    } catch (error) {
+      if (!hasErrorCode(error, 'ENOENT')) throw error;
+    }
+  }
+  return deleted;
+}
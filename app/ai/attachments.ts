@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { parseMessageData } from './message-data';
+
+// Files attached to a user message, serialized into its `data` (client + server). The client
+// reads each file once when it is attached and uploads the extracted text to the attachment
+// store (app/ai/attachment-store.ts), keyed by the attachment id. The message only carries the
+// ids; /api/chat reads the texts back and expands them into the prompt. Images travel as
+// experimental_attachments.
+
+export const ATTACHMENT_KINDS = ['text', 'image', 'pdf', 'table'] as const;
+
+export type AttachmentKind = typeof ATTACHMENT_KINDS[number];
+
+export const messageAttachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  kind: z.enum(ATTACHMENT_KINDS),
+  // Extracted text of messages sent before the attachment store; newer ones only have the id
+  text: z.string().optional(),
+  estimatedTokens: z.number().optional(),
+  truncated: z.boolean().optional(),
+  summary: z.string().optional(),
+});
+
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+
+/**
+ * Reads `attachments` from a user message's `data`.
+ * Invalid entries are dropped.
+ */
+export function getAttachmentsFromMessageData(data: unknown): MessageAttachment[] {
+  const parsed = parseMessageData(data);
+  if (typeof parsed !== 'object' || parsed === null || !('attachments' in parsed)) return [];
+  const attachments = (parsed as { attachments: unknown }).attachments;
+  if (!Array.isArray(attachments)) return [];
+  return attachments.flatMap(attachment => {
+    const result = messageAttachmentSchema.safeParse(attachment);
+    return result.success ? [result.data] : [];
+  });
+}
+
+// Attachments whose text is in the attachment store (everything but images and older inline text)
+export function hasStoredText(attachment: MessageAttachment): boolean {
+  return attachment.kind !== 'image' && attachment.text === undefined;
+}
+
+interface ExpandableMessage {
+  role: string;
+  content: string;
+  data?: unknown;
+  parts?: Array<{ type: string }>;
+}
+
+// Ids to read from the attachment store for expandMessageAttachments
+export function getStoredAttachmentIds(messages: ExpandableMessage[]): string[] {
+  return messages.flatMap(message => message.role === 'user'
+    ? getAttachmentsFromMessageData(message.data).filter(hasStoredText).map(attachment => attachment.id)
+    : []);
+}
+
+// The file blocks added after the typed text ('' if no attachment has text)
+export function formatAttachmentContext(attachments: MessageAttachment[], storedTexts: ReadonlyMap<string, string>): string {
+  return attachments
+    .flatMap(attachment => {
+      if (attachment.kind === 'image') return [];
+      // E.g. chats imported from another server
+      const text = attachment.text ?? storedTexts.get(attachment.id) ?? '[The content of this file is no longer available.]';
+      return [`\n\n--- START FILE: ${attachment.name} ---\n${text}\n--- END FILE: ${attachment.name} ---`];
+    })
+    .join('');
+}
+
+/**
+ * Adds the attached file contents to each user message, once, right before calling the model.
+ * convertToCoreMessages reads the text parts when a message has parts, so both are updated.
+ */
+export function expandMessageAttachments<T extends ExpandableMessage>(messages: T[], storedTexts: ReadonlyMap<string, string>): T[] {
+  return messages.map(message => {
+    if (message.role !== 'user') return message;
+    const context = formatAttachmentContext(getAttachmentsFromMessageData(message.data), storedTexts);
+    if (!context) return message;
+    return {
+      ...message,
+      content: message.content + context,
+      ...(message.parts && { parts: [...message.parts, { type: 'text', text: context }] }),
+    };
+  });
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { modelSettingsSchema } from './models';
+
+// Title, summary and tags generated for a chat after its first reply (client + server).
+// /api/chat-metadata asks the chat's model for them; the client stores them on ChatHistoryItem.
+
+export const MAX_CHAT_TITLE_LENGTH = 60;
+export const MAX_CHAT_TAGS = 5;
+
+// Per message sent to the endpoint; the first exchange is enough to name a chat
+export const MAX_METADATA_MESSAGE_CHARS = 4000;
+
+export const chatMetadataSchema = z.object({
+  title: z.string().describe(`Short, specific title for the conversation, at most ${MAX_CHAT_TITLE_LENGTH} characters, no quotes`),
+  summary: z.string().describe('One paragraph (2-4 sentences) summarizing what the user wants and what was answered'),
+  tags: z.array(z.string()).describe(`Up to ${MAX_CHAT_TAGS} short lowercase topic tags, e.g. "react", "forms", "testing"`),
+});
+
+export type ChatMetadata = z.infer<typeof chatMetadataSchema>;
+
+export const chatMetadataRequestSchema = z.object({
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+  })).min(1),
+  modelSettings: modelSettingsSchema,
+});
+
+export type ChatMetadataRequest = z.infer<typeof chatMetadataRequestSchema>;
+
+// Lowercase, no leading '#', dashes instead of spaces; also used for tags typed in the sidebar
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+// Models don't always follow the length / format hints, so the result is cleaned up on the server
+export function normalizeChatMetadata({ title, summary, tags }: ChatMetadata): ChatMetadata {
+  const cleanTitle = title.trim().replace(/^["'“”]+|["'“”.]+$/g, '').replace(/\s+/g, ' ');
+  return {
+    title: cleanTitle.length > MAX_CHAT_TITLE_LENGTH ? `${cleanTitle.slice(0, MAX_CHAT_TITLE_LENGTH - 3).trimEnd()}...` : cleanTitle,
+    summary: summary.trim(),
+    tags: [...new Set(tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_CHAT_TAGS),
+  };
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// Slash commands that run on the server (client + server). The client registers them in the
+// command registry and sends them as a user message with `data.action === 'runCommand'`;
+// /api/chat validates the args and answers with a single LLM call instead of the normal chat.
+
+export type CommandArgType = 'string' | 'number' | 'enum' | 'text';
+
+// Argument of a slash command, used for parsing and autocompletion in the command popover
+export interface CommandArgDef {
+  name: string;
+  description: string;
+  // 'string' and 'number' take one word, 'enum' one of `options`, 'text' the rest of the line
+  type: CommandArgType;
+  options?: readonly string[];
+  required?: boolean;
+}
+
+// Parsed argument values by name; optional arguments that were not given are left out
+export type CommandArgValues = Record<string, string | number>;
+
+interface ServerCommandDefinition<TParameters extends z.ZodTypeAny> {
+  description: string;
+  args: CommandArgDef[];
+  parameters: TParameters;
+  // Sent as the last user message, after the chat history
+  instruction: (args: z.infer<TParameters>) => string;
+}
+
+function defineServerCommand<TParameters extends z.ZodTypeAny>(
+  definition: ServerCommandDefinition<TParameters>
+): ServerCommandDefinition<TParameters> {
+  return definition;
+}
+
+export const SERVER_COMMANDS = {
+  summarize: defineServerCommand({
+    description: 'Summarize the conversation so far',
+    args: [
+      { name: 'length', description: 'How detailed the summary should be', type: 'enum', options: ['short', 'detailed'] },
+    ],
+    parameters: z.object({ length: z.enum(['short', 'detailed']).default('short') }),
+    instruction: ({ length }) => length === 'detailed'
+      ? 'Summarize the conversation above in detail: the goal, the decisions made (with their reasons), the code that was produced and any open questions. Use headings and bullet points.'
+      : 'Summarize the conversation above in at most five bullet points: the goal, the key decisions and what is still open.',
+  }),
+  explain: defineServerCommand({
+    description: 'Explain the last code block step by step',
+    args: [
+      { name: 'focus', description: 'What to focus on (optional)', type: 'text' },
+    ],
+    parameters: z.object({ focus: z.string().trim().max(500).optional() }),
+    instruction: ({ focus }) => `Explain the most recent code block in the conversation above step by step, for a developer who did not write it.${focus ? ` Focus on: ${focus}.` : ''} Do not rewrite the code.`,
+  }),
+};
+
+export type ServerCommandName = keyof typeof SERVER_COMMANDS;
+
+export const SERVER_COMMAND_SYSTEM_PROMPT = `You are an AI assistant for front-end developers. The user ran a slash command; follow its instruction using the conversation history. Be concise and accurate, and do not invent details that are not in the conversation.`;
+
+export interface RunCommandData {
+  action: 'runCommand';
+  command: ServerCommandName;
+  args: CommandArgValues;
+}
+
+export function isServerCommandName(name: string): name is ServerCommandName {
+  return Object.prototype.hasOwnProperty.call(SERVER_COMMANDS, name);
+}
+
+// Reads a server command from a user message's `data` (a plain object, like workflow actions)
+export function getCommandFromMessageData(data: unknown): RunCommandData | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const { action, command, args } = data as Partial<RunCommandData>;
+  if (action !== 'runCommand' || typeof command !== 'string' || !isServerCommandName(command)) return null;
+  return { action, command, args: typeof args === 'object' && args !== null ? args : {} };
+}
+
+// Validates the args of a server command and builds its instruction
+export function buildServerCommandInstruction(
+  name: ServerCommandName,
+  args: CommandArgValues
+): { instruction: string } | { issues: z.ZodIssue[] } {
+  // Widened: the instruction is only called with the output of its own parameters schema
+  const command = SERVER_COMMANDS[name] as unknown as ServerCommandDefinition<z.ZodTypeAny>;
+  const parsed = command.parameters.safeParse(args);
+  return parsed.success ? { instruction: command.instruction(parsed.data) } : { issues: parsed.error.issues };
+}
@@ -0,0 +1,104 @@
+import { generateText, type LanguageModel, type Message } from 'ai';
+import {
+  CHARS_PER_TOKEN,
+  SUMMARY_MAX_TOKENS,
+  buildContextNote,
+  findContextSummary,
+  getContextBudget,
+  planContext,
+  type ContextSummary,
+} from './context';
+import type { ModelSettings } from './models';
+
+// Server side of the context budget: trims the history before it is sent to the model and, for
+// the 'summarize' strategy, keeps the running summary of what was trimmed up to date.
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant for front-end developers, so the assistant can continue it without the full history. Keep decisions, requirements, names, file and component names, code conventions, open questions and unresolved problems. Drop greetings and anything that was later superseded. Write compact bullet points, at most about 400 words. Reply with the summary only.`;
+
+function toTranscript(messages: Message[]): string {
+  return messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Summary of all dropped messages. The previous summary is extended with the messages dropped
+ * since it was made; when it doesn't cover a prefix of them (e.g. after switching branches)
+ * the summary is rebuilt.
+ */
+async function updateSummary(
+  model: LanguageModel,
+  dropped: Message[],
+  previous: ContextSummary | null,
+  budget: number
+): Promise<ContextSummary> {
+  const coveredIndex = previous ? dropped.findIndex(message => message.id === previous.upToMessageId) : -1;
+  const base = coveredIndex === -1 ? null : previous;
+  const newMessages = dropped.slice(coveredIndex + 1);
+  if (base && newMessages.length === 0) return base;
+
+  // The summarizer has the same context window, so it only gets the newest part of a huge backlog
+  const maxChars = budget * CHARS_PER_TOKEN;
+  let transcript = toTranscript(newMessages);
+  if (transcript.length > maxChars) transcript = `[...]\n${transcript.slice(-maxChars)}`;
+
+  const { text } = await generateText({
+    model,
+    system: SUMMARY_SYSTEM_PROMPT,
+    prompt: base
+      ? `Current summary:\n${base.text}\n\nUpdate it with these later messages:\n\n${transcript}`
+      : `Summarize this conversation:\n\n${transcript}`,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0,
+  });
+
+  return {
+    type: 'context-summary',
+    upToMessageId: dropped[dropped.length - 1].id,
+    messageCount: dropped.length,
+    text: text.trim(),
+  };
+}
+
+export interface FittedContext {
+  messages: Message[];
+  droppedCount: number;
+  // Set when a new or extended summary was made, to be stored as an annotation on the reply
+  newSummary: ContextSummary | null;
+}
+
+/**
+ * Fits the history into the model's context budget with the chat's strategy. Messages that
+ * don't fit are replaced by a note (and, when summarizing, the running summary) at the start.
+ */
+export async function fitMessagesToContext(
+  messages: Message[],
+  { model, modelSettings, pinnedMessageIds }: { model: LanguageModel; modelSettings: ModelSettings; pinnedMessageIds: string[] }
+): Promise<FittedContext> {
+  const budget = getContextBudget(modelSettings);
+  const { kept, dropped, totalTokens, keptTokens } = planContext(messages, budget, pinnedMessageIds);
+  if (dropped.length === 0) return { messages, droppedCount: 0, newSummary: null };
+
+  console.log(`[Context] ~${totalTokens} tokens exceed the budget of ${budget}; dropping ${dropped.length} messages (${modelSettings.contextStrategy}), keeping ~${keptTokens}`);
+
+  let summary: ContextSummary | null = null;
+  let newSummary: ContextSummary | null = null;
+  if (modelSettings.contextStrategy === 'summarize') {
+    const previous = findContextSummary(messages);
+    try {
+      summary = await updateSummary(model, dropped, previous, budget);
+      if (summary !== previous) newSummary = summary;
+    } catch (error) {
+      // Still answer, just without the summary
+      console.error('[Context] Could not summarize older messages:', error);
+    }
+  }
+
+  const note: Message = {
+    id: 'context-note',
+    role: 'user',
+    content: buildContextNote(modelSettings.contextStrategy, dropped.length, summary?.text ?? null),
+  };
+  return { messages: [note, ...kept], droppedCount: dropped.length, newSummary };
+}
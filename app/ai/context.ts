@@ -0,0 +1,131 @@
+import type { Message } from 'ai';
+import { z } from 'zod';
+import { getAttachmentsFromMessageData } from './attachments';
+import { getContextWindow, type ContextStrategy, type ModelSettings } from './models';
+
+// Token budgeting for the chat history (client + server). Counts are estimates (~4 characters
+// per token): the client shows them in the header meter, /api/chat uses them to fit the
+// history into the model's context window before calling it.
+
+export const CHARS_PER_TOKEN = 4;
+
+// Rough cost of one image (providers bill by resolution)
+export const IMAGE_TOKEN_ESTIMATE = 1_000;
+
+// Kept free for the system prompt, tool definitions and @mention context
+export const SYSTEM_PROMPT_RESERVE_TOKENS = 4_000;
+
+// Kept free for the running summary when the 'summarize' strategy is used
+export const SUMMARY_MAX_TOKENS = 1_024;
+
+// Role markers etc. per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Tokens a message costs when sent: text, reasoning, tool calls / results, the text of
+ * attached files (expanded on the server) and images.
+ */
+export function estimateMessageTokens(message: Pick<Message, 'content' | 'parts' | 'data' | 'experimental_attachments'>): number {
+  let chars = message.content.length;
+  for (const part of message.parts ?? []) {
+    if (part.type === 'reasoning') chars += part.reasoning.length;
+    else if (part.type === 'tool-invocation') chars += JSON.stringify(part.toolInvocation).length;
+  }
+  // The text of attached files is only in the attachment store, so their estimate is used
+  let fileTokens = 0;
+  for (const attachment of getAttachmentsFromMessageData(message.data)) {
+    if (attachment.text !== undefined) chars += attachment.text.length;
+    else if (attachment.kind !== 'image') fileTokens += attachment.estimatedTokens ?? 0;
+  }
+  const images = message.experimental_attachments?.filter(attachment => attachment.contentType?.startsWith('image/')).length ?? 0;
+  return Math.ceil(chars / CHARS_PER_TOKEN) + fileTokens + images * IMAGE_TOKEN_ESTIMATE + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Tokens available for the history: the context window minus the reply and the system prompt
+export function getContextBudget(settings: Pick<ModelSettings, 'providerId' | 'modelId' | 'maxTokens' | 'contextStrategy'>): number {
+  const reserved = settings.maxTokens + SYSTEM_PROMPT_RESERVE_TOKENS + (settings.contextStrategy === 'summarize' ? SUMMARY_MAX_TOKENS : 0);
+  return Math.max(getContextWindow(settings) - reserved, 1_000);
+}
+
+export interface ContextPlan<T> {
+  kept: T[]; // In chat order
+  dropped: T[]; // Older messages outside the budget, in chat order
+  totalTokens: number;
+  keptTokens: number;
+}
+
+/**
+ * Splits the history into what fits the budget and what doesn't. The latest message and the
+ * pinned messages are always kept; the rest is filled with the newest messages. The kept
+ * window starts at a user message so a reply is never sent without its prompt.
+ */
+export function planContext<T extends Message>(messages: T[], budget: number, pinnedMessageIds: readonly string[] = []): ContextPlan<T> {
+  const tokens = messages.map(estimateMessageTokens);
+  const totalTokens = tokens.reduce((sum, value) => sum + value, 0);
+  if (totalTokens <= budget || messages.length <= 1) {
+    return { kept: messages, dropped: [], totalTokens, keptTokens: totalTokens };
+  }
+
+  const pinned = new Set(pinnedMessageIds);
+  const lastIndex = messages.length - 1;
+  let used = tokens[lastIndex] + messages.reduce((sum, message, index) => sum + (index !== lastIndex && pinned.has(message.id) ? tokens[index] : 0), 0);
+
+  let start = lastIndex;
+  for (let index = lastIndex - 1; index >= 0; index--) {
+    if (pinned.has(messages[index].id)) {
+      start = index;
+      continue;
+    }
+    if (used + tokens[index] > budget) break;
+    used += tokens[index];
+    start = index;
+  }
+  while (start < lastIndex && messages[start].role !== 'user') start++;
+
+  const kept: T[] = [];
+  const dropped: T[] = [];
+  let keptTokens = 0;
+  messages.forEach((message, index) => {
+    if (index >= start || pinned.has(message.id)) {
+      kept.push(message);
+      keptTokens += tokens[index];
+    } else {
+      dropped.push(message);
+    }
+  });
+  return { kept, dropped, totalTokens, keptTokens };
+}
+
+// Summary of the dropped messages, stored as an annotation on the reply it was made for so it
+// follows branches and can be extended on the next request instead of being rebuilt
+export const contextSummarySchema = z.object({
+  type: z.literal('context-summary'),
+  upToMessageId: z.string(), // Last message covered by the summary
+  messageCount: z.number(),
+  text: z.string(),
+});
+
+export type ContextSummary = z.infer<typeof contextSummarySchema>;
+
+// The newest summary annotation in the history (null if the chat was never summarized)
+export function findContextSummary(messages: Pick<Message, 'annotations'>[]): ContextSummary | null {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    for (const annotation of messages[index].annotations ?? []) {
+      const result = contextSummarySchema.safeParse(annotation);
+      if (result.success) return result.data;
+    }
+  }
+  return null;
+}
+
+// First message of the trimmed history, telling the model that (and how) older messages are missing
+export function buildContextNote(strategy: ContextStrategy, droppedCount: number, summary: string | null): string {
+  const omitted = `${droppedCount} earlier message${droppedCount === 1 ? ' was' : 's were'} left out to fit the context window`;
+  return strategy === 'summarize' && summary
+    ? `[${omitted}. Summary of the conversation so far:]\n${summary}`
+    : `[${omitted}.]`;
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { BUILT_IN_PERSONAS, BUILT_IN_PROMPT_FRAGMENTS, assembleMentionedPersonaPrompt, type PromptPersona } from './prompt-library';
+import { parseMessageData } from './message-data';
+
+// @mentions serialized into a user message's `data` (client + server). The client resolves
+// chats, files and artifacts to their content before sending, and personas from the user's
+// prompt library to their instructions; built-in personas only send their id.
+
+export const MENTION_KINDS = ['chat', 'file', 'artifact', 'persona'] as const;
+
+export type MentionKind = typeof MENTION_KINDS[number];
+
+// Per mention, so one long chat cannot crowd out the rest of the prompt
+export const MAX_MENTION_CONTENT_CHARS = 12000;
+
+export const messageMentionSchema = z.object({
+  kind: z.enum(MENTION_KINDS),
+  id: z.string(),
+  label: z.string(),
+  content: z.string().optional(),
+});
+
+export type MessageMention = z.infer<typeof messageMentionSchema>;
+
+/**
+ * Reads `mentions` from a user message's `data`.
+ * Invalid entries are dropped.
+ */
+export function getMentionsFromMessageData(data: unknown): MessageMention[] {
+  const parsed = parseMessageData(data);
+  if (typeof parsed !== 'object' || parsed === null || !('mentions' in parsed)) return [];
+  const mentions = (parsed as { mentions: unknown }).mentions;
+  if (!Array.isArray(mentions)) return [];
+  return mentions.flatMap(mention => {
+    const result = messageMentionSchema.safeParse(mention);
+    return result.success ? [result.data] : [];
+  });
+}
+
+const TRUNCATION_MARKER = '[...truncated]\n';
+
+// Applied on the client before sending and again on the server (the result already fits)
+export function truncateMentionContent(content: string): string {
+  if (content.length <= MAX_MENTION_CONTENT_CHARS) return content;
+  // Keep the end: the latest part of a chat is usually the most relevant
+  return TRUNCATION_MARKER + content.slice(-(MAX_MENTION_CONTENT_CHARS - TRUNCATION_MARKER.length));
+}
+
+const CONTEXT_LABELS: Record<Exclude<MentionKind, 'persona'>, string> = {
+  chat: 'Conversation',
+  file: 'File',
+  artifact: 'Artifact',
+};
+
+// System prompt section for the mentioned personas and referenced content ('' if none).
+// Mentioning the chat's own persona adds nothing.
+export function buildMentionPrompt(mentions: MessageMention[], chatPersona: PromptPersona): string {
+  let prompt = '';
+
+  for (const mention of mentions) {
+    if (mention.kind !== 'persona' || mention.id === chatPersona.id) continue;
+    const builtIn = BUILT_IN_PERSONAS.find(persona => persona.id === mention.id);
+    const instructions = builtIn
+      ? assembleMentionedPersonaPrompt(builtIn, BUILT_IN_PROMPT_FRAGMENTS, chatPersona)
+      : truncateMentionContent(mention.content ?? '');
+    if (instructions) prompt += `\n\n**Persona: ${builtIn?.name ?? mention.label}**\n${instructions}`;
+  }
+
+  const contextMentions = mentions.filter(mention => mention.kind !== 'persona' && mention.content);
+  if (contextMentions.length > 0) {
+    prompt += `\n\n**Referenced Context:**\nThe user referenced the following content with @mentions. Use it to answer; do not repeat it back unless asked.`;
+    for (const mention of contextMentions) {
+      const label = CONTEXT_LABELS[mention.kind as Exclude<MentionKind, 'persona'>];
+      prompt += `\n\n--- ${label}: ${mention.label} ---\n${truncateMentionContent(mention.content ?? '')}\n--- End of ${label}: ${mention.label} ---`;
+    }
+  }
+
+  return prompt;
+}
@@ -0,0 +1,12 @@
+// A user message's `data` (client + server). `handleSend` stores it as a JSON string, while
+// workflow actions use plain objects, so both shapes are accepted.
+
+// The data as an object (or whatever it holds); undefined when a string isn't valid JSON
+export function parseMessageData(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+// Shared (client + server) description of the selectable LLM providers.
+// The server-side factories that actually create the models live in './providers'.
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  label: string;
+  description: string;
+  defaultModelId: string;
+  suggestedModelIds: string[];
+  // Context window (tokens) assumed for model ids not listed in MODEL_CONTEXT_WINDOWS
+  defaultContextWindow: number;
+  // Env vars the server needs for this provider (empty if none)
+  requiredEnv: string[];
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProviderInfo> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'Hosted OpenAI models',
+    defaultModelId: 'gpt-4o',
+    suggestedModelIds: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    defaultContextWindow: 128_000,
+    requiredEnv: ['OPENAI_API_KEY'],
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    description: 'Hosted Anthropic models',
+    defaultModelId: 'claude-3-5-sonnet-latest',
+    suggestedModelIds: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest'],
+    defaultContextWindow: 200_000,
+    requiredEnv: ['ANTHROPIC_API_KEY'],
+  },
+  local: {
+    id: 'local',
+    label: 'Local (OpenAI-compatible)',
+    description: 'Ollama, LM Studio or any OpenAI-compatible endpoint',
+    defaultModelId: 'llama3.1',
+    suggestedModelIds: ['llama3.1', 'qwen2.5-coder', 'mistral'],
+    // Local servers often run with a small context (e.g. Ollama's default), so stay conservative
+    defaultContextWindow: 8_192,
+    requiredEnv: [],
+  },
+  mock: {
+    id: 'mock',
+    label: 'Mock (deterministic)',
+    description: 'Echoes the last user message, for tests and offline development',
+    defaultModelId: 'mock-echo',
+    suggestedModelIds: ['mock-echo'],
+    // Small on purpose, so the context strategies can be tried offline
+    defaultContextWindow: 8_192,
+    requiredEnv: [],
+  },
+};
+
+export const LLM_PROVIDER_IDS = Object.keys(LLM_PROVIDERS) as LLMProviderId[];
+
+export const MAX_TOKENS_LIMIT = 32000;
+
+// Known context windows; other model ids fall back to the provider's defaultContextWindow
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128_000,
+  'gpt-4o-mini': 128_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-4.1-mini': 1_047_576,
+};
+
+export function getContextWindow({ providerId, modelId }: Pick<ModelSettings, 'providerId' | 'modelId'>): number {
+  return MODEL_CONTEXT_WINDOWS[modelId] ?? LLM_PROVIDERS[providerId].defaultContextWindow;
+}
+
+// What happens to older messages when a chat no longer fits the context budget
+// (pinned messages and the latest message are always kept)
+export const CONTEXT_STRATEGIES = ['drop-oldest', 'summarize'] as const;
+
+export type ContextStrategy = typeof CONTEXT_STRATEGIES[number];
+
+export const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, { label: string; description: string }> = {
+  'drop-oldest': { label: 'Drop oldest', description: 'Older messages are left out of the request.' },
+  summarize: { label: 'Summarize', description: 'Older messages are replaced by a running summary (one extra model call when it grows).' },
+};
+
+// Per-chat model configuration, persisted on ChatHistoryItem and sent in the request body
+export const modelSettingsSchema = z.object({
+  providerId: z.enum(['openai', 'anthropic', 'local', 'mock']),
+  modelId: z.string().trim().min(1),
+  temperature: z.number().min(0).max(2),
+  maxTokens: z.number().int().min(1).max(MAX_TOKENS_LIMIT),
+  contextStrategy: z.enum(CONTEXT_STRATEGIES),
+});
+
+export type ModelSettings = z.infer<typeof modelSettingsSchema>;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  providerId: 'openai',
+  modelId: LLM_PROVIDERS.openai.defaultModelId,
+  temperature: 0.7,
+  maxTokens: 4096,
+  contextStrategy: 'drop-oldest',
+};
+
+// Fills in missing/invalid fields so older persisted chats keep working
+export function normalizeModelSettings(value: unknown): ModelSettings {
+  const parsed = modelSettingsSchema.safeParse(value);
+  if (parsed.success) return parsed.data;
+
+  const partial = (typeof value === 'object' && value !== null ? value : {}) as Partial<ModelSettings>;
+  const providerId = typeof partial.providerId === 'string' && Object.hasOwn(LLM_PROVIDERS, partial.providerId) ? partial.providerId : DEFAULT_MODEL_SETTINGS.providerId;
+  return modelSettingsSchema.catch(DEFAULT_MODEL_SETTINGS).parse({
+    providerId,
+    modelId: typeof partial.modelId === 'string' && partial.modelId.trim() ? partial.modelId : LLM_PROVIDERS[providerId].defaultModelId,
+    temperature: typeof partial.temperature === 'number' ? partial.temperature : DEFAULT_MODEL_SETTINGS.temperature,
+    maxTokens: typeof partial.maxTokens === 'number' ? partial.maxTokens : DEFAULT_MODEL_SETTINGS.maxTokens,
+    contextStrategy: partial.contextStrategy && CONTEXT_STRATEGIES.includes(partial.contextStrategy) ? partial.contextStrategy : DEFAULT_MODEL_SETTINGS.contextStrategy,
+  });
+}
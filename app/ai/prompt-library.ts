@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { ARTIFACT_PACKAGES } from '../lib/artifacts';
+
+// Prompt library: named personas composed from reusable system prompt fragments (client + server).
+// Built-in personas and fragments live here; the user's own are stored in the browser
+// (app/lib/prompt-library.ts) and sent along with the persona id, so /api/chat can assemble
+// the system prompt for the chat's persona.
+
+export const PROMPT_FRAGMENT_KINDS = ['persona', 'tools', 'artifacts', 'custom'] as const;
+export type PromptFragmentKind = typeof PROMPT_FRAGMENT_KINDS[number];
+
+export const PROMPT_FRAGMENT_KIND_LABELS: Record<PromptFragmentKind, string> = {
+  persona: 'Persona',
+  tools: 'Tool instructions',
+  artifacts: 'Artifact rules',
+  custom: 'Other',
+};
+
+export const MAX_PROMPT_FRAGMENT_LENGTH = 8000;
+export const MAX_PERSONA_FRAGMENTS = 12;
+
+export const promptFragmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: z.enum(PROMPT_FRAGMENT_KINDS),
+  content: z.string().max(MAX_PROMPT_FRAGMENT_LENGTH),
+  version: z.number().int().positive(),
+  updatedAt: z.number(),
+});
+
+export type PromptFragment = z.infer<typeof promptFragmentSchema>;
+
+export const promptPersonaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  // Joined in this order
+  fragmentIds: z.array(z.string()).max(MAX_PERSONA_FRAGMENTS),
+  version: z.number().int().positive(),
+  updatedAt: z.number(),
+});
+
+export type PromptPersona = z.infer<typeof promptPersonaSchema>;
+
+// Sent with every chat request. Built-in personas and fragments are resolved by id; personas
+// from the user's library come with their definition and the user fragments they use.
+export const promptSelectionSchema = z.object({
+  personaId: z.string().min(1),
+  persona: promptPersonaSchema.optional(),
+  fragments: z.array(promptFragmentSchema).max(MAX_PERSONA_FRAGMENTS).default([]),
+});
+
+export type PromptSelection = z.input<typeof promptSelectionSchema>;
+
+export const DEFAULT_PERSONA_ID = 'frontend-assistant';
+
+// The artifact import map, as listed in the artifact rules
+const ARTIFACT_PACKAGE_LIST = Object.entries(ARTIFACT_PACKAGES)
+  .map(([name, description]) => `    - \`${name}\`: ${description}`)
+  .join('\n');
+
+export const BUILT_IN_PROMPT_FRAGMENTS: PromptFragment[] = [
+  {
+    id: 'frontend-assistant-persona',
+    name: 'Front-end assistant',
+    kind: 'persona',
+    content: `You are an AI assistant for front-end developers, operating based on the Agent Narrative Framework. Your primary goal is to empower developers to build stable, scalable, and maintainable applications using modern best practices, specifically focusing on Next.js, React, TypeScript, Tailwind CSS, and Shadcn UI.\n\nAct as an architectural guide, a code quality enforcer, and a source of context-aware, precise reasoning. Prioritize modular design, type safety, performance optimization (including RSC, Suspense, dynamic loading), security (XSS, CSRF prevention, secure patterns), and user-centric design (accessibility, responsiveness).\n\nProvide structured guidance, fact-checked solutions linked to official documentation where possible, and enforce best practices to ensure maintainability, readability, and predictability. Encourage iterative improvement and modular thinking. Your responses should be technical, concise, and promote functional programming patterns. Avoid suggesting outdated practices or overly complex solutions where simpler ones exist.`,
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'flight-booking-tools',
+    name: 'Flight booking tools',
+    kind: 'tools',
+    content: `You have access to tools for a flight booking workflow. Use \`initiateFlightSearch\` when a user asks to book a flight.`,
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'artifact-rules',
+    name: 'React artifact rules',
+    kind: 'artifacts',
+    content: `**Artifact Generation Rules:**\nWhen providing an interactive React component example, follow these rules strictly:\n1.  Put each file of the artifact in its own markdown code fence with the language identifier \`artifact\` followed by the file path. A single-file artifact may leave out the path.\n    Example:\n    \`\`\`artifact App.tsx\n    import React from 'react';\n    import { Counter } from './components/Counter';\n    import './styles.css';\n    export default function App() { /* ... */ }\n    \`\`\`\n    \`\`\`artifact components/Counter.tsx\n    export function Counter({ start }: { start: number }) { /* ... */ }\n    \`\`\`\n2.  The entry file (\`App.tsx\`, or else the first file with a default export) **must** default-export the component to render (\`export default function ...\`).\n3.  Files are TypeScript or JavaScript with JSX (\`.tsx\`, \`.ts\`, \`.jsx\`, \`.js\`) and import each other with relative paths. \`.css\` files are applied when imported and \`.json\` files can be imported as data. Include \`import React from 'react';\` where needed.\n4.  Only these packages can be imported (any other import fails to render):\n${ARTIFACT_PACKAGE_LIST}\n    \`Button\` and \`Input\` are also available in the rendering scope without an import.\n5.  Tailwind classes work and use the application's theme (e.g. \`bg-primary\`, \`text-muted-foreground\`); a CSS file of the artifact or inline styles are fine too.\n6.  Keep components relatively simple; split them into files only where it helps. Avoid complex state management, direct DOM manipulation outside of React, or reliance on browser APIs not typically used in simple components.\n7.  When changing an artifact from earlier in the conversation, post all of its files again with the same \`id=\` attribute after the path (e.g. \`artifact App.tsx id=todo-list\`), so the new files become its next version. Give a new artifact its own short id.`,
+    version: 4,
+    updatedAt: 0,
+  },
+  {
+    id: 'code-reviewer-persona',
+    name: 'Code reviewer',
+    kind: 'persona',
+    content: 'Act as a meticulous senior code reviewer. Point out bugs, unsafe types, missing error handling and maintainability issues first, ordered by severity, and suggest concrete fixes. Do not rewrite code that is already fine.',
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'a11y-persona',
+    name: 'Accessibility expert',
+    kind: 'persona',
+    content: 'Act as an accessibility specialist. Evaluate and design UI against WCAG 2.2 AA: semantic HTML, keyboard navigation, focus management, ARIA usage, color contrast and screen reader announcements. Explain the user impact of each issue.',
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'performance-persona',
+    name: 'Performance engineer',
+    kind: 'persona',
+    content: 'Act as a front-end performance engineer. Focus on rendering cost, unnecessary re-renders, bundle size, code splitting, data fetching waterfalls and Core Web Vitals. Prefer measurable recommendations and mention how to verify them.',
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'teacher-persona',
+    name: 'Teacher',
+    kind: 'persona',
+    content: 'Act as a patient teacher. Explain concepts step by step with small examples, check for common misconceptions, and end with a short summary of the key points.',
+    version: 1,
+    updatedAt: 0,
+  },
+];
+
+export const BUILT_IN_PERSONAS: PromptPersona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Front-end Assistant',
+    description: 'Next.js / React guidance with the flight booking tools and React artifacts',
+    fragmentIds: ['frontend-assistant-persona', 'flight-booking-tools', 'artifact-rules'],
+    version: 1,
+    updatedAt: 0,
+  },
+  // Mostly @mentioned to add a point of view to a single message
+  {
+    id: 'reviewer',
+    name: 'Code Reviewer',
+    description: 'Strict review of correctness, types and maintainability',
+    fragmentIds: ['code-reviewer-persona'],
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'a11y',
+    name: 'Accessibility Expert',
+    description: 'WCAG, keyboard navigation and screen readers',
+    fragmentIds: ['a11y-persona'],
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'performance',
+    name: 'Performance Engineer',
+    description: 'Rendering, bundle size and Core Web Vitals',
+    fragmentIds: ['performance-persona'],
+    version: 1,
+    updatedAt: 0,
+  },
+  {
+    id: 'teacher',
+    name: 'Teacher',
+    description: 'Patient explanations for learning a concept',
+    fragmentIds: ['teacher-persona'],
+    version: 1,
+    updatedAt: 0,
+  },
+];
+
+export function isBuiltInPromptItem(id: string): boolean {
+  return BUILT_IN_PERSONAS.some(persona => persona.id === id) || BUILT_IN_PROMPT_FRAGMENTS.some(fragment => fragment.id === id);
+}
+
+// The persona's fragments joined in order; ids that can't be found are skipped
+export function assembleSystemPrompt(persona: PromptPersona, fragments: PromptFragment[]): string {
+  return persona.fragmentIds
+    .map(id => fragments.find(fragment => fragment.id === id)?.content.trim())
+    .filter((content): content is string => !!content)
+    .join('\n\n');
+}
+
+// A persona @mentioned in a message: the fragments the chat's own persona doesn't already include
+export function assembleMentionedPersonaPrompt(persona: PromptPersona, fragments: PromptFragment[], chatPersona: PromptPersona): string {
+  const fragmentIds = persona.fragmentIds.filter(id => !chatPersona.fragmentIds.includes(id));
+  return assembleSystemPrompt({ ...persona, fragmentIds }, fragments);
+}
+
+/**
+ * Server side: the persona and system prompt for a request's `prompt` field. Falls back to the
+ * default persona when the field is missing or invalid, or names a persona that wasn't sent.
+ * User fragments can't replace built-in ones.
+ */
+export function resolvePromptSelection(value: unknown): { persona: PromptPersona; systemPrompt: string } {
+  const defaultPersona = BUILT_IN_PERSONAS[0];
+  const parsed = promptSelectionSchema.safeParse(value);
+  if (value !== undefined && !parsed.success) {
+    console.warn('[Prompt] Invalid prompt selection, using the default persona:', parsed.error.issues);
+  }
+  const selection = parsed.success ? parsed.data : null;
+
+  const persona = (selection && (
+    BUILT_IN_PERSONAS.find(builtIn => builtIn.id === selection.personaId) ??
+    (selection.persona?.id === selection.personaId ? selection.persona : undefined)
+  )) || defaultPersona;
+  if (selection && persona.id !== selection.personaId) {
+    console.warn(`[Prompt] Unknown persona '${selection.personaId}', using the default persona`);
+  }
+
+  const fragments = [
+    ...BUILT_IN_PROMPT_FRAGMENTS,
+    ...(selection?.fragments ?? []).filter(fragment => !isBuiltInPromptItem(fragment.id)),
+  ];
+  return { persona, systemPrompt: assembleSystemPrompt(persona, fragments) };
+}
@@ -0,0 +1,91 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import {
+  simulateReadableStream,
+  type LanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { LLM_PROVIDERS, type LLMProviderId } from './models';
+
+// Server-only provider registry. Each entry knows how to build a LanguageModel for a model id.
+
+export class ProviderNotConfiguredError extends Error {
+  constructor(public readonly providerId: LLMProviderId, public readonly missingEnv: string[]) {
+    super(`Provider '${LLM_PROVIDERS[providerId].label}' is not configured. Missing: ${missingEnv.join(', ')}`);
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+// Text of the last user turn, used by the mock provider to produce a deterministic reply
+function getLastUserText(prompt: LanguageModelV1Prompt): string {
+  const lastUser = [...prompt].reverse().find(message => message.role === 'user');
+  if (!lastUser || lastUser.role !== 'user') return '';
+  return lastUser.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('')
+    .trim();
+}
+
+// A plain LanguageModelV1 rather than MockLanguageModelV1, which would pull 'ai/test' into the server bundle
+function createMockModel(modelId: string): LanguageModel {
+  const buildReply = (prompt: LanguageModelV1Prompt) => `Mock response to: ${getLastUserText(prompt) || '(empty message)'}`;
+
+  const model: LanguageModelV1 = {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async ({ prompt }) => {
+      const text = buildReply(prompt);
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: text.split(/\s+/).length },
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+    doStream: async ({ prompt }) => {
+      const words = buildReply(prompt).split(/(?<= )/);
+      const chunks: LanguageModelV1StreamPart[] = [
+        ...words.map(textDelta => ({ type: 'text-delta' as const, textDelta })),
+        { type: 'finish', finishReason: 'stop', usage: { promptTokens: 0, completionTokens: words.length } },
+      ];
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs: 20 }),
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+  };
+  return model;
+}
+
+const providerFactories: Record<LLMProviderId, (modelId: string) => LanguageModel> = {
+  openai: (modelId) => createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(modelId),
+  anthropic: (modelId) => createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(modelId),
+  local: (modelId) =>
+    createOpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1',
+      // Most local servers ignore the key, but the client requires one
+      apiKey: process.env.LOCAL_LLM_API_KEY ?? 'local',
+      compatibility: 'compatible',
+    })(modelId),
+  mock: createMockModel,
+};
+
+export function getMissingProviderEnv(providerId: LLMProviderId): string[] {
+  return LLM_PROVIDERS[providerId].requiredEnv.filter(name => !process.env[name]);
+}
+
+/**
+ * Resolves a provider/model pair to a LanguageModel instance.
+ * Throws ProviderNotConfiguredError when the provider's credentials are missing.
+ */
+export function resolveLanguageModel(providerId: LLMProviderId, modelId: string): LanguageModel {
+  const missingEnv = getMissingProviderEnv(providerId);
+  if (missingEnv.length > 0) {
+    throw new ProviderNotConfiguredError(providerId, missingEnv);
+  }
+  return providerFactories[providerId](modelId);
+}
@@ -0,0 +1,186 @@
+import { tool as createTool, formatDataStreamPart, generateId, type DataStreamWriter } from 'ai';
+import { z } from 'zod';
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+
+// Retrieval tools used by the 'research' agent mode.
+// Every page the model reads is also streamed to the client as a `source` part so it can be cited.
+
+interface DocumentationEntry {
+  title: string;
+  url: string;
+  keywords: string[];
+}
+
+// Curated index of official documentation for the stack this assistant focuses on
+const DOCUMENTATION_INDEX: DocumentationEntry[] = [
+  { title: 'Next.js App Router', url: 'https://nextjs.org/docs/app', keywords: ['next', 'nextjs', 'app router', 'routing', 'layout', 'page'] },
+  { title: 'Next.js Server Components', url: 'https://nextjs.org/docs/app/building-your-application/rendering/server-components', keywords: ['rsc', 'server component', 'server components', 'rendering'] },
+  { title: 'Next.js Data Fetching', url: 'https://nextjs.org/docs/app/building-your-application/data-fetching', keywords: ['fetch', 'data fetching', 'cache', 'revalidate', 'server actions'] },
+  { title: 'Next.js Route Handlers', url: 'https://nextjs.org/docs/app/building-your-application/routing/route-handlers', keywords: ['api', 'route handler', 'route.ts', 'endpoint'] },
+  { title: 'Next.js Loading UI and Streaming', url: 'https://nextjs.org/docs/app/building-your-application/routing/loading-ui-and-streaming', keywords: ['suspense', 'streaming', 'loading'] },
+  { title: 'Next.js Lazy Loading', url: 'https://nextjs.org/docs/app/building-your-application/optimizing/lazy-loading', keywords: ['dynamic', 'lazy', 'code splitting', 'performance'] },
+  { title: 'React Hooks Reference', url: 'https://react.dev/reference/react/hooks', keywords: ['react', 'hooks', 'usestate', 'useeffect', 'usememo', 'usecallback', 'useref'] },
+  { title: 'React: You Might Not Need an Effect', url: 'https://react.dev/learn/you-might-not-need-an-effect', keywords: ['useeffect', 'effect', 'derived state'] },
+  { title: 'React Suspense', url: 'https://react.dev/reference/react/Suspense', keywords: ['suspense', 'fallback', 'lazy'] },
+  { title: 'React Server Components', url: 'https://react.dev/reference/rsc/server-components', keywords: ['rsc', 'server component', 'use client', 'use server'] },
+  { title: 'TypeScript Handbook: Everyday Types', url: 'https://www.typescriptlang.org/docs/handbook/2/everyday-types.html', keywords: ['typescript', 'types', 'interface', 'type alias'] },
+  { title: 'TypeScript Handbook: Generics', url: 'https://www.typescriptlang.org/docs/handbook/2/generics.html', keywords: ['typescript', 'generics', 'generic'] },
+  { title: 'TypeScript Handbook: Narrowing', url: 'https://www.typescriptlang.org/docs/handbook/2/narrowing.html', keywords: ['typescript', 'narrowing', 'type guard', 'discriminated union'] },
+  { title: 'Tailwind CSS: Utility-First', url: 'https://tailwindcss.com/docs/styling-with-utility-classes', keywords: ['tailwind', 'utility', 'css', 'classes'] },
+  { title: 'Tailwind CSS: Responsive Design', url: 'https://tailwindcss.com/docs/responsive-design', keywords: ['tailwind', 'responsive', 'breakpoint', 'mobile'] },
+  { title: 'Tailwind CSS: Dark Mode', url: 'https://tailwindcss.com/docs/dark-mode', keywords: ['tailwind', 'dark mode', 'theme'] },
+  { title: 'shadcn/ui Components', url: 'https://ui.shadcn.com/docs/components', keywords: ['shadcn', 'ui', 'components', 'radix'] },
+  { title: 'shadcn/ui Theming', url: 'https://ui.shadcn.com/docs/theming', keywords: ['shadcn', 'theming', 'css variables', 'theme'] },
+  { title: 'WAI-ARIA Authoring Practices', url: 'https://www.w3.org/WAI/ARIA/apg/', keywords: ['accessibility', 'a11y', 'aria', 'keyboard'] },
+  { title: 'OWASP Cross Site Scripting Prevention', url: 'https://cheatsheetseries.owasp.org/cheatsheets/Cross_Site_Scripting_Prevention_Cheat_Sheet.html', keywords: ['xss', 'security', 'sanitize', 'escape'] },
+  { title: 'OWASP CSRF Prevention', url: 'https://cheatsheetseries.owasp.org/cheatsheets/Cross-Site_Request_Forgery_Prevention_Cheat_Sheet.html', keywords: ['csrf', 'security', 'token'] },
+  { title: 'Vercel AI SDK', url: 'https://sdk.vercel.ai/docs', keywords: ['ai sdk', 'usechat', 'streamtext', 'tools', 'llm'] },
+];
+
+const MAX_SEARCH_RESULTS = 5;
+const MAX_PAGE_CHARS = 8000;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// The model picks the URLs (and a fetched page can try to steer it), so pages only come from the
+// documentation sites in the index, plus any hosts listed in RESEARCH_ALLOWED_HOSTS (comma separated)
+const ALLOWED_HOSTS = new Set([
+  ...DOCUMENTATION_INDEX.map(entry => new URL(entry.url).hostname),
+  ...(process.env.RESEARCH_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+]);
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function searchDocumentationIndex(query: string): DocumentationEntry[] {
+  const terms = query.toLowerCase().split(/\W+/).filter(Boolean);
+  const normalizedQuery = query.toLowerCase();
+
+  return DOCUMENTATION_INDEX
+    .map(entry => {
+      const haystack = `${entry.title} ${entry.keywords.join(' ')}`.toLowerCase();
+      const keywordHits = entry.keywords.filter(keyword => normalizedQuery.includes(keyword)).length;
+      const termHits = terms.filter(term => haystack.includes(term)).length;
+      return { entry, score: keywordHits * 2 + termHits };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map(({ entry }) => entry);
+}
+
+// Crude HTML -> text conversion, good enough to feed page content to the model
+function htmlToText(html: string): { title: string | null; text: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const text = html
+    .replace(/<(script|style|noscript|svg|nav|footer)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { title: titleMatch ? titleMatch[1].trim() : null, text };
+}
+
+// Throws unless the URL is https on an allowed host that doesn't resolve to an internal address
+async function assertFetchAllowed(url: URL): Promise<void> {
+  if (url.protocol !== 'https:') throw new Error(`Only https pages can be fetched: ${url}`);
+  if (!ALLOWED_HOSTS.has(url.hostname)) throw new Error(`${url.hostname} is not an allowed documentation site`);
+  const addresses = await lookup(url.hostname, { all: true });
+  if (addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${url.hostname} resolves to a private address`);
+  }
+}
+
+// Follows redirects by hand so every hop is checked, not just the first URL
+async function fetchAllowedPage(url: string): Promise<Response> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchAllowed(current);
+    const response = await fetch(current, {
+      headers: { 'User-Agent': 'AgentNarrativeFramework/1.0 (research mode)' },
+      redirect: 'manual',
+      signal,
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+    current = new URL(location, current);
+  }
+}
+
+export function createResearchTools(dataStream: DataStreamWriter) {
+  // Numbering matches the [n] citation markers the model is asked to use
+  const citedUrls: string[] = [];
+
+  const searchDocumentationTool = createTool({
+    description: 'Searches a curated index of official documentation (Next.js, React, TypeScript, Tailwind CSS, shadcn/ui, accessibility, security) and returns candidate pages.',
+    parameters: z.object({
+      query: z.string().describe('What to look for, e.g. "server components data fetching"'),
+    }),
+    execute: async ({ query }) => {
+      console.log(`Tool: searchDocumentation called with: ${query}`);
+      const results = searchDocumentationIndex(query);
+      return { query, results: results.map(({ title, url }) => ({ title, url })) };
+    },
+  });
+
+  const fetchWebPageTool = createTool({
+    description: 'Fetches a documentation page (https, on one of the sites searchDocumentation returns) and returns its readable text content. Every fetched page becomes a citable source.',
+    parameters: z.object({
+      url: z.string().url().describe('The absolute URL of the page to read'),
+    }),
+    execute: async ({ url }) => {
+      console.log(`Tool: fetchWebPage called with: ${url}`);
+      try {
+        const response = await fetchAllowedPage(url);
+        if (!response.ok) {
+          return { url, error: `Request failed with status ${response.status}` };
+        }
+        const { title, text } = htmlToText(await response.text());
+
+        if (!citedUrls.includes(url)) {
+          citedUrls.push(url);
+          dataStream.write(formatDataStreamPart('source', {
+            sourceType: 'url',
+            id: generateId(),
+            url,
+            title: title ?? undefined,
+          }));
+        }
+
+        return {
+          url,
+          title,
+          citationIndex: citedUrls.indexOf(url) + 1,
+          content: text.slice(0, MAX_PAGE_CHARS),
+          truncated: text.length > MAX_PAGE_CHARS,
+        };
+      } catch (error) {
+        console.error(`Tool: fetchWebPage failed for ${url}:`, error);
+        return { url, error: error instanceof Error ? error.message : 'Unknown fetch error' };
+      }
+    },
+  });
+
+  return {
+    searchDocumentation: searchDocumentationTool,
+    fetchWebPage: fetchWebPageTool,
+  };
+}
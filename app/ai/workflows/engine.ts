@@ -0,0 +1,120 @@
+import { tool as createTool, type Tool } from 'ai';
+import { z } from 'zod';
+import type { WorkflowToolInvocationResult } from '../../chat/types';
+
+// Declarative multi-step tool workflows.
+// A workflow is a set of steps; each step is produced by one tool (validated by its zod input
+// schema), lists the steps that may follow it, and is rendered by the UI component registered
+// for `${workflowId}` / `${stepId}` in app/components/workflows.
+
+export interface WorkflowStepDefinition<
+  TInput extends z.ZodTypeAny = z.ZodTypeAny,
+  TOutput extends object = object,
+> {
+  // Name of the tool that produces this step (exposed to the LLM and to direct tool calls)
+  toolName: string;
+  description: string;
+  input: TInput;
+  run(input: z.infer<TInput>): Promise<TOutput>;
+  // Step ids that may be reached from this step via a direct tool call
+  next: string[];
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  title: string;
+  initialStep: string;
+  steps: Record<string, WorkflowStepDefinition>;
+}
+
+// Keeps the step's input type for `run` while erasing it for storage in the definition
+export function defineWorkflowStep<TInput extends z.ZodTypeAny, TOutput extends object>(
+  step: WorkflowStepDefinition<TInput, TOutput>
+): WorkflowStepDefinition {
+  return step;
+}
+
+export function defineWorkflow(definition: WorkflowDefinition): WorkflowDefinition {
+  const stepIds = Object.keys(definition.steps);
+  if (!stepIds.includes(definition.initialStep)) {
+    throw new Error(`Workflow '${definition.id}': unknown initial step '${definition.initialStep}'`);
+  }
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    const unknownTargets = step.next.filter(target => !stepIds.includes(target));
+    if (unknownTargets.length > 0) {
+      throw new Error(`Workflow '${definition.id}': step '${stepId}' transitions to unknown step(s) ${unknownTargets.join(', ')}`);
+    }
+  }
+  return definition;
+}
+
+export type WorkflowTool = Tool<z.ZodTypeAny, WorkflowToolInvocationResult>;
+
+/**
+ * Turns workflow definitions into AI SDK tools keyed by tool name.
+ * Each tool result is tagged with `workflowId` and `workflowStep` so the client can pick the UI.
+ */
+export function createWorkflowTools(definitions: WorkflowDefinition[]): Record<string, WorkflowTool> {
+  const workflowTools: Record<string, WorkflowTool> = {};
+
+  for (const workflow of definitions) {
+    for (const [stepId, step] of Object.entries(workflow.steps)) {
+      if (workflowTools[step.toolName]) {
+        throw new Error(`Duplicate workflow tool name '${step.toolName}' (workflow '${workflow.id}')`);
+      }
+      workflowTools[step.toolName] = createTool({
+        description: step.description,
+        parameters: step.input,
+        execute: async (args: unknown): Promise<WorkflowToolInvocationResult> => {
+          console.log(`Tool: ${step.toolName} (${workflow.id}.${stepId}) called with:`, args);
+          const output = await step.run(args);
+          return { ...output, workflowId: workflow.id, workflowStep: stepId };
+        },
+      });
+    }
+  }
+
+  return workflowTools;
+}
+
+function findStepByToolName(definitions: WorkflowDefinition[], toolName: string) {
+  for (const workflow of definitions) {
+    for (const [stepId, step] of Object.entries(workflow.steps)) {
+      if (step.toolName === toolName) return { workflow, stepId };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks that a direct tool call follows a declared transition from the step it was triggered from.
+ * Without a linked step (`fromResult` null) only a workflow's initial step may be called.
+ * Returns an error message, or null when the transition is allowed (or not a workflow tool).
+ */
+export function getWorkflowTransitionError(
+  definitions: WorkflowDefinition[],
+  fromResult: WorkflowToolInvocationResult | null,
+  toolName: string
+): string | null {
+  const target = findStepByToolName(definitions, toolName);
+  if (!target) return null;
+  if (!fromResult) {
+    // Later steps can't be reached without going through the ones before them
+    return target.stepId === target.workflow.initialStep
+      ? null
+      : `Workflow '${target.workflow.id}' step '${target.stepId}' must follow an earlier step`;
+  }
+
+  // Results persisted before workflow ids existed only carry the step id
+  const fromWorkflow = definitions.find(workflow =>
+    fromResult.workflowId ? workflow.id === fromResult.workflowId : fromResult.workflowStep in workflow.steps
+  );
+  const fromStep = fromWorkflow?.steps[fromResult.workflowStep];
+  if (!fromWorkflow || !fromStep) {
+    return `Unknown workflow step '${fromResult.workflowStep}'`;
+  }
+  if (fromWorkflow.id !== target.workflow.id || !fromStep.next.includes(target.stepId)) {
+    return `Workflow '${fromWorkflow.id}' cannot go from '${fromResult.workflowStep}' to '${target.stepId}'`;
+  }
+  return null;
+}
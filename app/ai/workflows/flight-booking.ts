@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { defineWorkflow, defineWorkflowStep } from './engine';
+
+export const FLIGHT_BOOKING_WORKFLOW_ID = 'flightBooking';
+
+export interface Flight {
+  id: string;
+  airline: string;
+  departureTime: string;
+  arrivalTime: string;
+  price: number;
+}
+
+export interface ConfirmedFlightDetails {
+  id: string;
+  departureCity: string;
+  arrivalCity: string;
+  confirmedDate: string;
+  price: number;
+  airline: string;
+}
+
+// Step data as rendered by the flight booking UI components
+export interface ConfirmDateStepData {
+  departureCity: string;
+  arrivalCity: string;
+  targetDateString: string;
+}
+
+export interface SelectFlightStepData {
+  departureCity: string;
+  arrivalCity: string;
+  confirmedDate: string;
+  availableFlights: Flight[];
+}
+
+export interface ConfirmationStepData {
+  bookingRef: string;
+  flightDetails: ConfirmedFlightDetails;
+}
+
+export const flightBookingWorkflow = defineWorkflow({
+  id: FLIGHT_BOOKING_WORKFLOW_ID,
+  title: 'Flight booking',
+  initialStep: 'confirmDate',
+  steps: {
+    // Starts the process of searching for flights. Asks the user to confirm details first.
+    confirmDate: defineWorkflowStep({
+      toolName: 'initiateFlightSearch',
+      description: 'Starts the process of searching for flights. Asks the user to confirm details first.',
+      input: z.object({
+        departureCity: z.string().describe('The departure city'),
+        arrivalCity: z.string().describe('The arrival city'),
+        targetDate: z.string().describe('Initial proposed date, e.g., YYYY-MM-DD or a natural language date'),
+      }),
+      run: async ({ departureCity, arrivalCity, targetDate }): Promise<ConfirmDateStepData> => ({
+        departureCity,
+        arrivalCity,
+        targetDateString: targetDate,
+      }),
+      next: ['selectFlight'],
+    }),
+    // Searches for available flights based on confirmed details
+    selectFlight: defineWorkflowStep({
+      toolName: 'searchFlights',
+      description: 'Searches for available flights based on confirmed details.',
+      input: z.object({
+        departureCity: z.string(),
+        arrivalCity: z.string(),
+        confirmedDate: z.string().describe('The confirmed date in YYYY-MM-DD format'),
+      }),
+      run: async ({ departureCity, arrivalCity, confirmedDate }): Promise<SelectFlightStepData> => {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        const mockFlights: Flight[] = [
+          { id: 'fl123', airline: 'AI Airways', departureTime: '09:00', arrivalTime: '21:00', price: 750 },
+          { id: 'fl456', airline: 'Virtual Voyages', departureTime: '11:30', arrivalTime: '23:30', price: 820 },
+          { id: 'fl789', airline: 'Generative Jets', departureTime: '14:00', arrivalTime: '02:00', price: 700 },
+        ];
+        return { departureCity, arrivalCity, confirmedDate, availableFlights: mockFlights };
+      },
+      next: ['confirmation'],
+    }),
+    // Books the flight selected by the user
+    confirmation: defineWorkflowStep({
+      toolName: 'bookFlight',
+      description: 'Books the flight selected by the user.',
+      input: z.object({
+        selectedFlightId: z.string().describe('The ID of the flight selected by the user'),
+        departureCity: z.string(),
+        arrivalCity: z.string(),
+        confirmedDate: z.string(),
+        price: z.number(),
+        airline: z.string(),
+      }),
+      run: async ({ selectedFlightId, departureCity, arrivalCity, confirmedDate, price, airline }): Promise<ConfirmationStepData> => {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        const bookingRef = `BK-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+        return {
+          bookingRef,
+          flightDetails: { id: selectedFlightId, departureCity, arrivalCity, confirmedDate, price, airline },
+        };
+      },
+      next: [],
+    }),
+  },
+});
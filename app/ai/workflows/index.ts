@@ -0,0 +1,8 @@
+import type { WorkflowDefinition } from './engine';
+import { flightBookingWorkflow } from './flight-booking';
+
+// All registered workflows. Add new workflow definitions here; their UI goes in
+// app/components/workflows/index.ts under the same workflow id.
+export const workflowDefinitions: WorkflowDefinition[] = [
+  flightBookingWorkflow,
+];
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  AttachmentStoreError,
+  MAX_STORED_TEXT_CHARS,
+  deleteAttachmentTexts,
+  loadAttachmentTexts,
+  saveAttachmentText,
+} from '../../ai/attachment-store';
+import { MAX_ATTACHMENT_IDS_PER_REQUEST } from '../../lib/attachments/limits';
+
+// Extracted text of an attached file, uploaded by the client once when the file is attached (or
+// again when a JSON export is imported), read back for JSON exports and deleted with its chat
+
+const attachmentUploadSchema = z.object({
+  id: z.string(),
+  text: z.string().max(MAX_STORED_TEXT_CHARS),
+});
+
+const attachmentIdsSchema = z.array(z.string()).min(1).max(MAX_ATTACHMENT_IDS_PER_REQUEST);
+
+const attachmentDeleteSchema = z.object({
+  ids: attachmentIdsSchema,
+});
+
+function jsonResponse(body: unknown, status: number) {
+  return new NextResponse(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    console.error('[API Attachments] Failed to parse request body as JSON:', parseError);
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const parsed = attachmentUploadSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn('[API Attachments] Invalid request:', parsed.error.issues);
+    return jsonResponse({ error: 'Invalid request', details: parsed.error.issues }, 400);
+  }
+
+  try {
+    await saveAttachmentText(parsed.data.id, parsed.data.text);
+    console.log(`[API Attachments] Stored attachment ${parsed.data.id} (${parsed.data.text.length} chars)`);
+    return jsonResponse({ id: parsed.data.id }, 201);
+  } catch (error) {
+    if (error instanceof AttachmentStoreError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('[API Attachments] Could not store attachment:', error);
+    return jsonResponse({ error: 'Could not store the attachment' }, 500);
+  }
+}
+
+// GET /api/attachments?ids=a,b -> { texts: { [id]: text } }; ids without a stored text are left out
+export async function GET(req: NextRequest) {
+  const parsed = attachmentIdsSchema.safeParse(req.nextUrl.searchParams.get('ids')?.split(',') ?? []);
+  if (!parsed.success) {
+    console.warn('[API Attachments] Invalid request:', parsed.error.issues);
+    return jsonResponse({ error: 'Invalid request', details: parsed.error.issues }, 400);
+  }
+
+  try {
+    const texts = await loadAttachmentTexts(parsed.data);
+    return jsonResponse({ texts: Object.fromEntries(texts) }, 200);
+  } catch (error) {
+    console.error('[API Attachments] Could not read attachments:', error);
+    return jsonResponse({ error: 'Could not read the attachments' }, 500);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    console.error('[API Attachments] Failed to parse request body as JSON:', parseError);
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const parsed = attachmentDeleteSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn('[API Attachments] Invalid request:', parsed.error.issues);
+    return jsonResponse({ error: 'Invalid request', details: parsed.error.issues }, 400);
+  }
+
+  try {
+    const deleted = await deleteAttachmentTexts(parsed.data.ids);
+    console.log(`[API Attachments] Deleted ${deleted} of ${parsed.data.ids.length} attachment(s)`);
+    return jsonResponse({ deleted }, 200);
+  } catch (error) {
+    console.error('[API Attachments] Could not delete attachments:', error);
+    return jsonResponse({ error: 'Could not delete the attachments' }, 500);
+  }
+}
@@ -0,0 +1,65 @@
+import { generateObject } from 'ai';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MAX_METADATA_MESSAGE_CHARS,
+  chatMetadataRequestSchema,
+  chatMetadataSchema,
+  normalizeChatMetadata,
+} from '../../ai/chat-metadata';
+import { resolveLanguageModel, ProviderNotConfiguredError } from '../../ai/providers';
+
+// Title, summary and tags for a chat, requested by the client in the background after the first reply
+
+const METADATA_SYSTEM_PROMPT = `You name and summarize conversations between a developer and an AI assistant for a chat history sidebar. Base the title on what the user is trying to do, not on how the conversation starts (skip greetings and phrases like "Help with" or "Question about"). Write in the language of the conversation.`;
+
+function jsonResponse(body: unknown, status: number) {
+  return new NextResponse(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    console.error('[API Metadata] Failed to parse request body as JSON:', parseError);
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const parsed = chatMetadataRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn('[API Metadata] Invalid request:', parsed.error.issues);
+    return jsonResponse({ error: 'Invalid request', details: parsed.error.issues }, 400);
+  }
+  const { messages, modelSettings } = parsed.data;
+
+  let model;
+  try {
+    model = resolveLanguageModel(modelSettings.providerId, modelSettings.modelId);
+  } catch (providerError) {
+    if (providerError instanceof ProviderNotConfiguredError) {
+      return jsonResponse({ error: providerError.message, missingEnv: providerError.missingEnv }, 400);
+    }
+    throw providerError;
+  }
+
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.slice(0, MAX_METADATA_MESSAGE_CHARS)}`)
+    .join('\n\n');
+
+  try {
+    const { object } = await generateObject({
+      model,
+      schema: chatMetadataSchema,
+      system: METADATA_SYSTEM_PROMPT,
+      prompt: `Conversation:\n\n${transcript}`,
+      temperature: 0.3,
+      maxTokens: 400,
+    });
+    const metadata = normalizeChatMetadata(object);
+    console.log(`[API Metadata] Generated title "${metadata.title}" (${modelSettings.providerId}/${modelSettings.modelId})`);
+    return jsonResponse(metadata, 200);
+  } catch (error) {
+    console.error('[API Metadata] Could not generate chat metadata:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not generate chat metadata' }, 502);
+  }
+}
@@ -1,20 +1,62 @@
-import { openai } from '@ai-sdk/openai';
 // Import necessary types cautiously, let inference work where possible
-import { streamText } from 'ai'; 
+import {
+  streamText,
+  createDataStreamResponse,
+  formatDataStreamPart,
+  convertToCoreMessages,
+  generateId,
+  type DataStreamWriter,
+  type ToolExecutionOptions,
+} from 'ai';
 import { NextRequest, NextResponse } from 'next/server';
 import { tools } from '../../ai/tools';
+import { workflowDefinitions } from '../../ai/workflows';
+import { getWorkflowTransitionError } from '../../ai/workflows/engine';
+import { isWorkflowToolInvocationResult, type WorkflowToolInvocationResult } from '../../chat/types';
+import { normalizeModelSettings } from '../../ai/models';
+import { resolveLanguageModel, ProviderNotConfiguredError } from '../../ai/providers';
+import { AGENT_MODE_CONFIGS, PLANNING_SYSTEM_PROMPT, getAgentModeFromMessageData } from '../../ai/agent-modes';
+import { createResearchTools } from '../../ai/research-tools';
+import { buildMentionPrompt, getMentionsFromMessageData } from '../../ai/mentions';
+import { expandMessageAttachments, getStoredAttachmentIds } from '../../ai/attachments';
+import { loadAttachmentTexts } from '../../ai/attachment-store';
+import { fitMessagesToContext } from '../../ai/context-window';
+import { SERVER_COMMAND_SYSTEM_PROMPT, buildServerCommandInstruction, getCommandFromMessageData } from '../../ai/commands';
+import { resolvePromptSelection } from '../../ai/prompt-library';
 
-// Allow streaming responses up to 30 seconds
-export const maxDuration = 30;
+// Allow streaming responses up to 60 seconds (think/research modes run several LLM steps)
+export const maxDuration = 60;
 
 // Define a type for the expected user message data for direct tool calls
 interface DirectToolCallData {
   action: 'callTool';
-  toolName: keyof typeof tools;
+  toolName: string;
   args: Record<string, unknown>;
   linkedToolCallId?: string;
 }
 
+// Runs a tool's execute function with already validated args, outside of the LLM loop
+async function executeToolDirectly(
+  toolName: string,
+  args: unknown,
+  options: ToolExecutionOptions
+): Promise<unknown> {
+  const execute = tools[toolName].execute as (args: unknown, options: ToolExecutionOptions) => Promise<unknown>;
+  return execute(args, options);
+}
+
+// Finds the workflow result of an earlier tool call (the card the user acted on) in the chat history
+function findWorkflowResult(messages: unknown[], toolCallId: string): WorkflowToolInvocationResult | null {
+  for (const message of messages) {
+    const invocations = (message as { toolInvocations?: { toolCallId: string; state: string; result?: unknown }[] }).toolInvocations ?? [];
+    const invocation = invocations.find(candidate => candidate.toolCallId === toolCallId && candidate.state === 'result');
+    if (invocation && isWorkflowToolInvocationResult(invocation.result)) {
+      return invocation.result;
+    }
+  }
+  return null;
+}
+
 export async function POST(req: NextRequest) {
   try {
     // Log the request arrival
@@ -40,19 +82,10 @@ export async function POST(req: NextRequest) {
       return new NextResponse(JSON.stringify({ error: 'Invalid request body' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
 
-    // Use the already extracted 'messages' variable
-    // const { messages } = await req.json(); // THIS LINE IS REMOVED
-
-    // Basic check for API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('[API Error] Missing OPENAI_API_KEY');
-      return new Response('Missing OPENAI_API_KEY', { status: 500 });
-    }
-
     const lastUserMessage = messages[messages.length - 1];
     let directToolCallData: DirectToolCallData | null = null;
 
-    // --- Direct Tool Call Detection Logic --- (Keep detection for logging/potential future use)
+    // --- Direct Tool Call Detection Logic ---
     if (
       lastUserMessage?.role === 'user' &&
       lastUserMessage.data &&
@@ -61,67 +94,199 @@ export async function POST(req: NextRequest) {
       lastUserMessage.data.action === 'callTool' &&
       'toolName' in lastUserMessage.data &&
       typeof lastUserMessage.data.toolName === 'string' &&
-      lastUserMessage.data.toolName in tools &&
+      Object.hasOwn(tools, lastUserMessage.data.toolName) &&
       'args' in lastUserMessage.data
     ) {
       directToolCallData = lastUserMessage.data as DirectToolCallData;
-      console.log('[API] Detected message intended for direct tool call (currently disabled):', directToolCallData);
+      console.log('[API] Detected message intended for direct tool call:', directToolCallData);
     }
     // --- End Detection Logic ---
 
-    // --- Direct Tool Call Execution --- (COMMENTED OUT TO FIX WORKFLOW)
-    /*
+    // --- Direct Tool Call Execution ---
+    // Structured workflow actions (e.g. confirming a date, selecting a flight) bypass the LLM:
+    // the args are validated against the tool's zod schema and the tool result is streamed
+    // back as a regular tool-invocation part so the workflow cards advance deterministically.
     if (directToolCallData) {
       const { toolName, args, linkedToolCallId } = directToolCallData;
+      const parsedArgs = tools[toolName].parameters.safeParse(args);
 
-      try {
-        let toolResult: any;
-        let validatedArgs: any;
-        const executionOptions = {
-           toolCallId: linkedToolCallId ?? `direct_${toolName}_${Date.now()}`,
-           messages: messages
-        };
-
-        switch (toolName) {
-          case 'initiateFlightSearch': { ... }
-          case 'searchFlights': { ... }
-          case 'bookFlight': { ... }
-          default: { ... }
-        }
+      if (!parsedArgs.success) {
+        console.warn(`[API Warning] Invalid args for direct tool call '${toolName}':`, parsedArgs.error.issues);
+        return new NextResponse(
+          JSON.stringify({ error: `Invalid arguments for tool '${toolName}'`, details: parsedArgs.error.issues }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
 
-        console.log(`[API] Tool '${toolName}' executed. Result:`, toolResult);
+      // Only allow the transitions declared by the workflow the linked card belongs to; unlinked calls can only start a workflow
+      const fromResult = linkedToolCallId ? findWorkflowResult(messages, linkedToolCallId) : null;
+      const transitionError = getWorkflowTransitionError(workflowDefinitions, fromResult, toolName);
+      if (transitionError) {
+        console.warn(`[API Warning] Rejected direct tool call '${toolName}': ${transitionError}`);
+        return new NextResponse(
+          JSON.stringify({ error: transitionError }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
 
-        return NextResponse.json({
-          type: 'tool_result',
-          toolName: toolName,
-          toolCallId: linkedToolCallId,
-          result: toolResult,
-        });
+      const toolCallId = `direct_${toolName}_${generateId()}`;
 
-      } catch (error) {
-        console.error(`[API] Error processing tool '${toolName}':`, error);
-        let errorMessage = 'Unknown tool processing error';
-        if (error instanceof Error) {
-          errorMessage = error.message;
-        }
-        return NextResponse.json({ error: `Failed to execute tool: ${errorMessage}` }, { status: 500 });
+      return createDataStreamResponse({
+        execute: async (dataStream) => {
+          dataStream.write(formatDataStreamPart('start_step', { messageId: generateId() }));
+          if (linkedToolCallId) {
+            dataStream.write(formatDataStreamPart('message_annotations', [{ linkedToolCallId }]));
+          }
+          dataStream.write(formatDataStreamPart('tool_call', { toolCallId, toolName, args: parsedArgs.data }));
+
+          const result = await executeToolDirectly(toolName, parsedArgs.data, {
+            toolCallId,
+            messages: convertToCoreMessages(expandMessageAttachments(messages, await loadAttachmentTexts(getStoredAttachmentIds(messages)))),
+          });
+          console.log(`[API] Tool '${toolName}' executed directly. Result:`, result);
+
+          dataStream.write(formatDataStreamPart('tool_result', { toolCallId, result }));
+          dataStream.write(formatDataStreamPart('finish_step', { finishReason: 'tool-calls', isContinued: false }));
+          dataStream.write(formatDataStreamPart('finish_message', { finishReason: 'tool-calls' }));
+        },
+        onError: (error) => {
+          console.error(`[API] Error executing tool '${toolName}' directly:`, error);
+          return `Failed to execute tool: ${error instanceof Error ? error.message : String(error)}`;
+        },
+      });
+    }
+
+    // --- Resolve the LLM provider selected for this chat ---
+    const modelSettings = normalizeModelSettings(parsedBody.modelSettings);
+    let model;
+    try {
+      model = resolveLanguageModel(modelSettings.providerId, modelSettings.modelId);
+    } catch (providerError) {
+      if (providerError instanceof ProviderNotConfiguredError) {
+        console.error(`[API Error] ${providerError.message}`);
+        return new NextResponse(
+          JSON.stringify({ error: providerError.message, missingEnv: providerError.missingEnv }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
       }
+      throw providerError;
     }
-    */
 
-    // --- Standard LLM Interaction with Streaming --- (NOW ALWAYS RUNS)
-    const systemPrompt = `You are an AI assistant for front-end developers, operating based on the Agent Narrative Framework. Your primary goal is to empower developers to build stable, scalable, and maintainable applications using modern best practices, specifically focusing on Next.js, React, TypeScript, Tailwind CSS, and Shadcn UI.\n\nAct as an architectural guide, a code quality enforcer, and a source of context-aware, precise reasoning. Prioritize modular design, type safety, performance optimization (including RSC, Suspense, dynamic loading), security (XSS, CSRF prevention, secure patterns), and user-centric design (accessibility, responsiveness).\n\nProvide structured guidance, fact-checked solutions linked to official documentation where possible, and enforce best practices to ensure maintainability, readability, and predictability. Encourage iterative improvement and modular thinking. Your responses should be technical, concise, and promote functional programming patterns. Avoid suggesting outdated practices or overly complex solutions where simpler ones exist.\n\nYou have access to tools for a flight booking workflow. Use \`initiateFlightSearch\` when a user asks to book a flight.\n\n**Artifact Generation Rules:**\nWhen providing an interactive React component example, follow these rules strictly:\n1.  Wrap the React component code within a markdown code fence using the language identifier \`artifact\`.\n    Example:\n    \`\`\`artifact\n    import React from 'react';\n    // ... component code ...\n    export default function MyComponent() { /* ... */ }\n    \`\`\`\n2.  The component code **must** include \`import React from 'react';\` if needed.\n3.  The component **must** have a default export (\`export default function ...\` or \`export default class ...\`).\n4.  **Do not** include import statements for UI components like \`<Button>\` or \`<Input>\`. These specific components (Button, Input from '@/components/ui/*') are automatically available in the rendering scope.\n5.  For styling, prefer inline styles or basic HTML elements, as external CSS or Tailwind classes from the main application may not be available in the artifact's isolated environment.\n6.  Keep components relatively simple and self-contained. Avoid external library imports, complex state management, direct DOM manipulation outside of React, or reliance on browser APIs not typically used in simple components.`;
+    // --- Context Budget ---
+    // Older messages that don't fit the model's context window are dropped or summarized
+    // (app/ai/context-window.ts). Attached files are referenced by id in message data; their text
+    // is read from the attachment store and only added to the kept messages, once per request.
+    const pinnedMessageIds = Array.isArray(parsedBody.pinnedMessageIds)
+      ? parsedBody.pinnedMessageIds.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    const fitted = await fitMessagesToContext(messages, { model, modelSettings, pinnedMessageIds });
+    const promptMessages = expandMessageAttachments(fitted.messages, await loadAttachmentTexts(getStoredAttachmentIds(fitted.messages)));
+    // Stored on the reply, so the next request can extend the summary instead of rebuilding it
+    const writeContextAnnotation = (dataStream: DataStreamWriter) => {
+      if (fitted.newSummary) dataStream.writeMessageAnnotation(fitted.newSummary);
+    };
 
-    console.log('[API] Calling OpenAI streamText with messages:', JSON.stringify(messages, null, 2)); // Log messages being sent
+    // --- Server Slash Commands ---
+    // "/summarize" etc. answer with one LLM call on the chat history, following the command's
+    // instruction instead of the normal system prompt (see app/ai/commands.ts)
+    const commandData = lastUserMessage?.role === 'user' ? getCommandFromMessageData(lastUserMessage.data) : null;
+    if (commandData) {
+      const built = buildServerCommandInstruction(commandData.command, commandData.args);
+      if ('issues' in built) {
+        console.warn(`[API Warning] Invalid args for command '/${commandData.command}':`, built.issues);
+        return new NextResponse(
+          JSON.stringify({ error: `Invalid arguments for command '/${commandData.command}'`, details: built.issues }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
 
-    const result = await streamText({
-      model: openai('gpt-4o'),
-      system: systemPrompt,
-      messages: messages,
-      tools: tools,
-    });
+      console.log(`[API] Running command '/${commandData.command}' (${modelSettings.providerId}/${modelSettings.modelId}) with args:`, commandData.args);
+      return createDataStreamResponse({
+        execute: (dataStream) => {
+          writeContextAnnotation(dataStream);
+          const result = streamText({
+            model,
+            system: SERVER_COMMAND_SYSTEM_PROMPT,
+            // The instruction takes the place of the command message
+            messages: [...convertToCoreMessages(promptMessages.slice(0, -1)), { role: 'user', content: built.instruction }],
+            temperature: modelSettings.temperature,
+            maxTokens: modelSettings.maxTokens,
+          });
+          result.mergeIntoDataStream(dataStream);
+        },
+        onError: (error) => {
+          console.error(`[API] Error running command '/${commandData.command}':`, error);
+          return error instanceof Error ? error.message : 'An unknown error occurred';
+        },
+      });
+    }
+
+    // Custom instructions set for this chat with /system
+    const customInstructions = typeof parsedBody.systemPrompt === 'string' ? parsedBody.systemPrompt.trim() : '';
+    const customInstructionsPrompt = customInstructions
+      ? `\n\n**Custom Instructions (set by the user for this chat):**\n${customInstructions}`
+      : '';
 
-    return result.toDataStreamResponse();
+    // --- Standard LLM Interaction with Streaming ---
+    // The chat's persona from the prompt library, assembled from its fragments (app/ai/prompt-library.ts)
+    const { persona, systemPrompt } = resolvePromptSelection(parsedBody.prompt);
+
+    const agentMode = getAgentModeFromMessageData(lastUserMessage?.data);
+    const agentModeConfig = AGENT_MODE_CONFIGS[agentMode];
+    // Personas and chats / files / artifacts referenced with @mentions in the latest message
+    const messageMentions = getMentionsFromMessageData(lastUserMessage?.data);
+    // @file mentions of attachments only carry the attachment id
+    const mentionedFileTexts = await loadAttachmentTexts(
+      messageMentions.filter(mention => mention.kind === 'file' && mention.content === undefined).map(mention => mention.id)
+    );
+    const mentions = messageMentions.map(mention =>
+      mention.kind === 'file' && mentionedFileTexts.has(mention.id) ? { ...mention, content: mentionedFileTexts.get(mention.id) } : mention
+    );
+    const mentionPrompt = buildMentionPrompt(mentions, persona);
+    if (mentions.length > 0) {
+      console.log('[API] Mentions:', mentions.map(mention => `${mention.kind}:${mention.label}`).join(', '));
+    }
+
+    console.log(`[API] Calling streamText (${modelSettings.providerId}/${modelSettings.modelId}, mode: ${agentMode}, persona: ${persona.id} v${persona.version}) with messages:`, JSON.stringify(promptMessages, null, 2)); // Log messages being sent
+
+    return createDataStreamResponse({
+      execute: async (dataStream) => {
+        writeContextAnnotation(dataStream);
+        let plan = '';
+
+        // --- Think Mode: planning pass, streamed to the client as reasoning ---
+        if (agentModeConfig.planFirst) {
+          const planning = streamText({
+            model,
+            system: PLANNING_SYSTEM_PROMPT + customInstructionsPrompt + mentionPrompt,
+            messages: promptMessages,
+            temperature: modelSettings.temperature,
+            maxTokens: Math.min(modelSettings.maxTokens, 1024),
+          });
+          for await (const delta of planning.textStream) {
+            plan += delta;
+            dataStream.write(formatDataStreamPart('reasoning', delta));
+          }
+          console.log('[API] Think mode plan:', plan);
+        }
+
+        const result = streamText({
+          model,
+          system: systemPrompt + customInstructionsPrompt + agentModeConfig.systemPromptAddendum + mentionPrompt + (plan ? `\n\n**Plan:**\n${plan}` : ''),
+          messages: promptMessages,
+          tools: agentModeConfig.useResearchTools ? { ...tools, ...createResearchTools(dataStream) } : tools,
+          maxSteps: agentModeConfig.maxSteps,
+          temperature: modelSettings.temperature,
+          maxTokens: modelSettings.maxTokens,
+        });
+
+        result.mergeIntoDataStream(dataStream, { sendReasoning: true, sendSources: true });
+      },
+      onError: (error) => {
+        console.error('[API Chat Error] Error while streaming response:', error);
+        return error instanceof Error ? error.message : 'An unknown error occurred';
+      },
+    });
 
   } catch (error) {
     // Log the full error object for detailed debugging
@@ -5,6 +5,7 @@ import React, { Component, ErrorInfo, ReactNode } from 'react';
 interface ErrorBoundaryProps {
   children: ReactNode;
   fallback?: ReactNode; // Optional custom fallback UI
+  onError?: (error: Error) => void; // Reports the error beyond the fallback (e.g. to the viewer's console)
 }
 
 interface ErrorBoundaryState {
@@ -26,6 +27,7 @@ export class ArtifactErrorBoundary extends Component<ErrorBoundaryProps, ErrorBo
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
     // You can also log the error to an error reporting service
     console.error("ErrorBoundary caught an error:", error, errorInfo);
+    this.props.onError?.(error);
   }
 
   render() {
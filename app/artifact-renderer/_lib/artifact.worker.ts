@@ -0,0 +1,278 @@
+import * as Babel from '@babel/standalone';
+import type { PluginObj } from '@babel/core';
+import { compile } from 'tailwindcss';
+import { ARTIFACT_CONSOLE_GLOBAL, ARTIFACT_MODULES_GLOBAL, ARTIFACT_PACKAGES, isArtifactPackage, type ArtifactFile, type ArtifactPackageName } from '@/lib/artifacts';
+import type { ArtifactStylesheets } from '../styles/route';
+import type { ArtifactBuild } from './protocol';
+
+// Builds artifacts for the renderer page (started by the host app, see build.ts). Babel and the
+// Tailwind compiler are bundled with the app, so artifacts render without loading anything from a CDN.
+//
+// Each file is transpiled (TypeScript / JSX) to CommonJS, and relative imports are resolved here,
+// so the renderer imports a single ES module whose default export is the entry component.
+// Bare imports must be in the import map (ARTIFACT_PACKAGES); the renderer loads those packages
+// before importing the module.
+
+// Where a syntax error is in the artifact's files (1-based, for markers in the code editor)
+export interface ArtifactErrorLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+// The id pairs a result with its request (one worker builds for every viewer)
+export interface TransformCodeMessage { type: 'TRANSFORM_CODE'; id: number; payload: { files: ArtifactFile[]; entry: string }; }
+export interface TransformSuccessMessage { type: 'TRANSFORM_SUCCESS'; id: number; payload: ArtifactBuild; }
+export interface TransformErrorMessage { type: 'TRANSFORM_ERROR'; id: number; payload: { error: string; location?: ArtifactErrorLocation }; }
+export type WorkerOutgoingMessage = TransformSuccessMessage | TransformErrorMessage;
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.css', '.json'];
+
+// Edited artifacts are rebuilt as they are typed, so only the latest builds are kept
+const MAX_CACHED_BUILDS = 20;
+const transpilationCache = new Map<string, ArtifactBuild>();
+
+class ArtifactBuildError extends Error {
+  constructor(message: string, public readonly location?: ArtifactErrorLocation) {
+    super(message);
+    this.name = 'ArtifactBuildError';
+  }
+}
+
+// Mirrors normalizeArtifactPath in app/lib/artifacts.ts; null when the path leaves the project
+function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+// Project file for an import specifier, or null for packages of the import map
+function resolveImport(specifier: string, fromPath: string, filePaths: Set<string>): string | null {
+  if (isArtifactPackage(specifier)) return null;
+  let base: string | null;
+  if (specifier.startsWith('.')) {
+    base = normalizePath(fromPath.split('/').slice(0, -1).concat(specifier).join('/'));
+  } else if (specifier.startsWith('/')) {
+    base = normalizePath(specifier);
+  } else if (specifier.startsWith('@/')) {
+    base = normalizePath(specifier.slice(2)); // '@/' is the project root, like in the app
+  } else {
+    throw new ArtifactBuildError(`${fromPath}: cannot import '${specifier}', it is not in the artifact import map. Available packages: ${Object.keys(ARTIFACT_PACKAGES).join(', ')}.`);
+  }
+  const candidates = base === null ? [] : [
+    base,
+    ...RESOLVE_EXTENSIONS.map(extension => base + extension),
+    ...RESOLVE_EXTENSIONS.map(extension => `${base}/index${extension}`),
+  ];
+  const resolved = candidates.find(candidate => filePaths.has(candidate));
+  if (!resolved) {
+    throw new ArtifactBuildError(`${fromPath}: cannot resolve '${specifier}'.`);
+  }
+  return resolved;
+}
+
+// Babel plugin that records the module's import / re-export sources
+function collectImportsPlugin(sources: Set<string>): () => PluginObj {
+  return () => ({
+    visitor: {
+      Program(path) {
+        for (const node of path.node.body) {
+          if ((node.type === 'ImportDeclaration' || node.type === 'ExportNamedDeclaration' || node.type === 'ExportAllDeclaration') && node.source) {
+            sources.add(node.source.value);
+          }
+        }
+      },
+    },
+  });
+}
+
+// CommonJS body of one file and the imports it needs
+function compileFile({ path, content }: ArtifactFile): { code: string; imports: string[] } {
+  if (path.endsWith('.css')) {
+    return {
+      code: `const style = document.createElement('style');\nstyle.setAttribute('data-artifact-file', ${JSON.stringify(path)});\nstyle.textContent = ${JSON.stringify(content)};\ndocument.head.appendChild(style);`,
+      imports: [],
+    };
+  }
+  if (path.endsWith('.json')) {
+    try {
+      return { code: `module.exports = ${JSON.stringify(JSON.parse(content))};`, imports: [] };
+    } catch (error) {
+      throw new ArtifactBuildError(`${path}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+  if (!SCRIPT_EXTENSIONS.some(extension => path.endsWith(extension))) {
+    throw new ArtifactBuildError(`${path}: unsupported file type.`);
+  }
+
+  try {
+    const isTypeScript = path.endsWith('.ts') || path.endsWith('.tsx');
+    // Types are stripped first, so imports only used as types don't count
+    const esm = Babel.transform(content, {
+      filename: path,
+      presets: ['react', ...(isTypeScript ? [['typescript', { isTSX: path.endsWith('.tsx'), allExtensions: true }]] : [])],
+    }).code ?? '';
+    const sources = new Set<string>();
+    const commonjs = Babel.transform(esm, {
+      filename: path,
+      plugins: [collectImportsPlugin(sources), 'transform-modules-commonjs'],
+    }).code ?? '';
+    return { code: commonjs, imports: [...sources] };
+  } catch (error) {
+    // Babel messages already include the file name and position; loc has it separately (0-based column)
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
+    throw new ArtifactBuildError(
+      error instanceof Error ? error.message : `${path}: transformation failed.`,
+      loc ? { path, line: loc.line, column: loc.column + 1 } : undefined
+    );
+  }
+}
+
+// One ES module that defines every file and exports the entry's default export, and the
+// packages it imports
+function buildProject(files: ArtifactFile[], entry: string): { code: string; packages: ArtifactPackageName[] } {
+  const filePaths = new Set(files.map(file => file.path));
+  if (!filePaths.has(entry)) {
+    throw new ArtifactBuildError(`Entry file ${entry} not found.`);
+  }
+
+  const factories: string[] = [];
+  const dependencies: Record<string, Record<string, string | null>> = {};
+  const packages = new Set<ArtifactPackageName>();
+  for (const file of files) {
+    const { code, imports } = compileFile(file);
+    dependencies[file.path] = {};
+    for (const specifier of imports) {
+      dependencies[file.path][specifier] = resolveImport(specifier, file.path, filePaths);
+      if (isArtifactPackage(specifier)) packages.add(specifier);
+    }
+    factories.push(`${JSON.stringify(file.path)}: function (module, exports, require) {\n${code}\n}`);
+  }
+
+  const code = `// Styles of the previous render
+document.querySelectorAll('style[data-artifact-file]').forEach((style) => style.remove());
+const __packages = window[${JSON.stringify(ARTIFACT_MODULES_GLOBAL)}];
+// Shadows the global console for the files below, so their logging reaches the viewer
+const console = window[${JSON.stringify(ARTIFACT_CONSOLE_GLOBAL)}] ?? window.console;
+const __dependencies = ${JSON.stringify(dependencies)};
+const __factories = {
+${factories.join(',\n')}
+};
+const __cache = {};
+function __load(path) {
+  if (!__cache[path]) {
+    const module = { exports: {} };
+    __cache[path] = module;
+    try {
+      __factories[path](module, module.exports, (specifier) => __require(path, specifier));
+    } catch (error) {
+      // Name the file the error happened in (once, not for every importer)
+      if (error instanceof Error && !error.artifactFile) {
+        error.artifactFile = path;
+        error.message = path + ': ' + error.message;
+      }
+      throw error;
+    }
+  }
+  return __cache[path].exports;
+}
+function __require(fromPath, specifier) {
+  const path = __dependencies[fromPath][specifier];
+  return path === null ? __packages[specifier] : __load(path);
+}
+export default __load(${JSON.stringify(entry)}).default;
+`;
+  return { code, packages: [...packages] };
+}
+
+// --- Tailwind ---
+// The app's own globals.css is compiled here, so artifacts get the same theme and utilities as the
+// app. Like Tailwind's scanner, class candidates are taken from the source text.
+
+let tailwindCompiler: ReturnType<typeof compile> | null = null;
+
+async function loadTailwindCompiler(): ReturnType<typeof compile> {
+  const response = await fetch('/artifact-renderer/styles');
+  if (!response.ok) {
+    throw new Error(`Could not load the Tailwind stylesheets (${response.status}).`);
+  }
+  const { input, stylesheets } = await response.json() as ArtifactStylesheets;
+  return compile(input, {
+    base: '/',
+    loadStylesheet: async (id, base) => {
+      if (!(id in stylesheets)) throw new Error(`Unknown stylesheet '${id}'.`);
+      return { content: stylesheets[id], base };
+    },
+  });
+}
+
+async function buildTailwindCss(files: ArtifactFile[]): Promise<string> {
+  try {
+    tailwindCompiler ??= loadTailwindCompiler();
+    const compiler = await tailwindCompiler;
+    const candidates = files
+      .filter(file => !file.path.endsWith('.json'))
+      .flatMap(file => file.content.split(/[\s"'`{}<>;]+/))
+      .filter(Boolean);
+    return compiler.build(candidates);
+  } catch (error) {
+    // Artifacts still render, only without Tailwind classes; try again next time
+    console.warn('[Worker] Tailwind build failed:', error);
+    tailwindCompiler = null;
+    return '';
+  }
+}
+
+// Listener for messages from the renderer page
+self.onmessage = async (event: MessageEvent<TransformCodeMessage>) => {
+  const { type, id, payload } = event.data;
+  console.log('[Worker] Received message:', { type, files: payload?.files?.map(file => file.path), entry: payload?.entry });
+
+  if (type !== 'TRANSFORM_CODE') {
+    console.warn('[Worker] Received unknown message type:', type);
+    return;
+  }
+
+  const { files, entry } = payload;
+  const cacheKey = JSON.stringify({ files, entry });
+  const cached = transpilationCache.get(cacheKey);
+  if (cached) {
+    console.log('[Worker] Cache hit! Sending cached transpiled code.');
+    self.postMessage({ type: 'TRANSFORM_SUCCESS', id, payload: cached } satisfies WorkerOutgoingMessage);
+    return;
+  }
+
+  try {
+    console.log(`[Worker] Building ${files.length} file(s) with entry ${entry} (cache miss)...`);
+    const { code: transformedCode, packages } = buildProject(files, entry);
+    const css = await buildTailwindCss(files);
+    console.log(`[Worker] Build finished (packages: ${packages.join(', ') || 'none'}).`);
+
+    transpilationCache.set(cacheKey, { transformedCode, css, packages });
+    if (transpilationCache.size > MAX_CACHED_BUILDS) {
+      transpilationCache.delete(transpilationCache.keys().next().value!);
+    }
+    self.postMessage({ type: 'TRANSFORM_SUCCESS', id, payload: { transformedCode, css, packages } } satisfies WorkerOutgoingMessage);
+  } catch (error) {
+    console.error('[Worker] Error transforming code:', error);
+    self.postMessage({
+      type: 'TRANSFORM_ERROR',
+      id,
+      payload: {
+        error: error instanceof Error ? error.message : 'Unknown transformation error',
+        location: error instanceof ArtifactBuildError ? error.location : undefined,
+      },
+    } satisfies WorkerOutgoingMessage);
+  }
+};
+
+console.log('[Worker] Artifact worker initialized (bundled Babel and Tailwind, cache enabled).');
@@ -0,0 +1,58 @@
+import type { ArtifactFile } from '@/lib/artifacts';
+import type { ArtifactErrorLocation, TransformCodeMessage, WorkerOutgoingMessage } from './artifact.worker';
+import type { ArtifactBuild } from './protocol';
+
+// Builds artifacts in the host app. The renderer iframe has an opaque origin and can't start the
+// app's workers (or fetch its stylesheets), so it only receives the finished build.
+// One worker serves every viewer; it is started on the first build.
+
+export class ArtifactBuildError extends Error {
+  // Set for syntax errors, so the code editor can mark them
+  constructor(message: string, public readonly location?: ArtifactErrorLocation) {
+    super(message);
+    this.name = 'ArtifactBuildError';
+  }
+}
+
+interface PendingBuild {
+  resolve: (build: ArtifactBuild) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextBuildId = 1;
+const pendingBuilds = new Map<number, PendingBuild>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./artifact.worker.ts', import.meta.url));
+  worker.addEventListener('message', (event: MessageEvent<WorkerOutgoingMessage>) => {
+    const pending = pendingBuilds.get(event.data.id);
+    if (!pending) return;
+    pendingBuilds.delete(event.data.id);
+    if (event.data.type === 'TRANSFORM_SUCCESS') {
+      pending.resolve(event.data.payload);
+    } else {
+      pending.reject(new ArtifactBuildError(event.data.payload.error, event.data.payload.location));
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    console.error('[ArtifactBuild] Worker failed:', event.message);
+    // Fail what's in flight and start a new worker next time
+    for (const pending of pendingBuilds.values()) {
+      pending.reject(new ArtifactBuildError(`The artifact build worker failed: ${event.message || 'unknown error'}`));
+    }
+    pendingBuilds.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+}
+
+export function buildArtifact(files: ArtifactFile[], entry: string): Promise<ArtifactBuild> {
+  return new Promise((resolve, reject) => {
+    const id = nextBuildId++;
+    pendingBuilds.set(id, { resolve, reject });
+    getWorker().postMessage({ type: 'TRANSFORM_CODE', id, payload: { files, entry } } satisfies TransformCodeMessage);
+  });
+}
@@ -0,0 +1,53 @@
+import { ARTIFACT_CONSOLE_GLOBAL } from '@/lib/artifacts';
+import type { ArtifactConsoleEntry } from './protocol';
+
+// The console of the artifact's code: its bundle uses this one instead of the global console (see
+// buildProject in artifact.worker.ts), so only the artifact's logging is reported to the viewer.
+// Calls still reach the real console; methods not captured here are inherited from it.
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+type CapturedMethod = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+declare global {
+  interface Window {
+    [ARTIFACT_CONSOLE_GLOBAL]?: Console;
+  }
+}
+
+const CAPTURED_LEVELS: Record<CapturedMethod, ArtifactConsoleEntry['level']> = {
+  log: 'log',
+  info: 'log',
+  debug: 'log',
+  warn: 'warn',
+  error: 'error',
+};
+
+export function formatConsoleValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  // The stack points into the bundle, the message already names the file
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (value === undefined || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value); // Circular structures
+  }
+}
+
+export function formatConsoleArgs(args: unknown[]): string {
+  const message = args.map(formatConsoleValue).join(' ');
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+}
+
+export function createArtifactConsole(report: (entry: ArtifactConsoleEntry) => void): Console {
+  const artifactConsole: Console = Object.create(console);
+  for (const [method, level] of Object.entries(CAPTURED_LEVELS) as [CapturedMethod, ArtifactConsoleEntry['level']][]) {
+    artifactConsole[method] = (...args: unknown[]) => {
+      console[method](...args);
+      report({ level, message: formatConsoleArgs(args) });
+    };
+  }
+  return artifactConsole;
+}
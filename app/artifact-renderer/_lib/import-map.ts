@@ -0,0 +1,34 @@
+import { ARTIFACT_MODULES_GLOBAL, type ArtifactPackageName } from '@/lib/artifacts';
+
+// Loaders for the packages of the artifact import map (ARTIFACT_PACKAGES in app/lib/artifacts.ts).
+// Each package is its own chunk, so only the ones an artifact imports are downloaded.
+const ARTIFACT_IMPORT_MAP: Record<ArtifactPackageName, () => Promise<unknown>> = {
+  'react': () => import('react'),
+  'react-dom': () => import('react-dom'),
+  'react-dom/client': () => import('react-dom/client'),
+  '@/components/ui/button': () => import('@/components/ui/button'),
+  '@/components/ui/input': () => import('@/components/ui/input'),
+  'lucide-react': () => import('lucide-react'),
+  'date-fns': () => import('date-fns'),
+  'framer-motion': () => import('framer-motion'),
+  'recharts': () => import('recharts'),
+  'zod': () => import('zod'),
+};
+
+declare global {
+  interface Window {
+    [ARTIFACT_MODULES_GLOBAL]?: Partial<Record<ArtifactPackageName, unknown>>;
+  }
+}
+
+// Loads the packages and exposes them to the artifact's bundle (see buildProject in artifact.worker.ts)
+export async function loadArtifactPackages(names: ArtifactPackageName[]): Promise<void> {
+  const modules = (window[ARTIFACT_MODULES_GLOBAL] ??= {});
+  await Promise.all(names.filter(name => !(name in modules)).map(async (name) => {
+    try {
+      modules[name] = await ARTIFACT_IMPORT_MAP[name]();
+    } catch (error) {
+      throw new Error(`Could not load package '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
+}
@@ -0,0 +1,56 @@
+import type { ArtifactPackageName } from '@/lib/artifacts';
+
+// Messages between ArtifactViewer (the host) and the renderer page in its sandboxed iframe.
+// The iframe has an opaque origin, so origins can't tell who is talking: the renderer announces
+// itself to its parent window, and the host, once it has checked that the announcement came from
+// its own iframe, answers with a MessageChannel port. Everything else goes over that channel.
+
+export const ARTIFACT_PROTOCOL = 'artifact-renderer';
+// Bump when the messages change; the host doesn't connect to renderers of another version
+export const ARTIFACT_PROTOCOL_VERSION = 3;
+
+// Output of the build worker (artifact.worker.ts), rendered as is by the renderer
+export interface ArtifactBuild {
+  transformedCode: string; // ES module whose default export is the entry component
+  css: string; // Tailwind CSS for the classes used in the files
+  packages: ArtifactPackageName[]; // Import map packages the module needs
+}
+
+// A console call or uncaught error of the artifact's code
+export interface ArtifactConsoleEntry {
+  level: 'log' | 'warn' | 'error';
+  message: string;
+}
+
+// What to capture: the whole artifact, the first element matching a selector, or a region of the
+// renderer's viewport (CSS pixels, e.g. dragged over the preview in the viewer)
+export interface CaptureTarget {
+  selector?: string;
+  region?: { x: number; y: number; width: number; height: number };
+}
+
+// --- Handshake (window.postMessage) ---
+interface HandshakeMessage {
+  protocol: typeof ARTIFACT_PROTOCOL;
+  version: number;
+}
+export interface RendererReadyMessage extends HandshakeMessage { type: 'READY'; }
+// Carries the renderer's end of the channel in event.ports[0]
+export interface HostConnectMessage extends HandshakeMessage { type: 'CONNECT'; }
+
+// --- Host -> renderer (over the channel) ---
+export type HostMessage =
+  | { type: 'BUILD_STARTED' }
+  | { type: 'RENDER'; payload: ArtifactBuild }
+  | { type: 'BUILD_ERROR'; payload: { error: string } }
+  | { type: 'CAPTURE_SELECTION'; payload?: CaptureTarget };
+
+// --- Renderer -> host (over the channel) ---
+export type RendererMessage =
+  | { type: 'SELECTION_DATA'; payload: { imageDataUrl: string | null; error?: string } }
+  | { type: 'CONSOLE'; payload: ArtifactConsoleEntry };
+
+export function isHandshakeMessage<T extends RendererReadyMessage | HostConnectMessage>(data: unknown, type: T['type']): data is T {
+  const message = data as Partial<T> | null;
+  return typeof message === 'object' && message !== null && message.protocol === ARTIFACT_PROTOCOL && message.type === type && typeof message.version === 'number';
+}
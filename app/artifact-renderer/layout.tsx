@@ -1,7 +1,32 @@
 import React from 'react';
 import Script from 'next/script';
 
-// Basic layout for the isolated artifact renderer iframe environment
+// The renderer runs in a sandbox without an origin, where reading window.localStorage throws.
+// Artifacts (and Next's dev overlay) get an in-memory stand-in instead, separate from the app's storage.
+const MEMORY_STORAGE_SCRIPT = `(function () {
+  function createMemoryStorage() {
+    var items = new Map();
+    return {
+      get length() { return items.size; },
+      key: function (index) { var keys = Array.from(items.keys()); return index < keys.length ? keys[index] : null; },
+      getItem: function (key) { return items.has(String(key)) ? items.get(String(key)) : null; },
+      setItem: function (key, value) { items.set(String(key), String(value)); },
+      removeItem: function (key) { items.delete(String(key)); },
+      clear: function () { items.clear(); },
+    };
+  }
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try {
+      void window[name];
+    } catch (error) {
+      Object.defineProperty(window, name, { value: createMemoryStorage(), configurable: true });
+    }
+  });
+})();`;
+
+// Basic layout for the isolated artifact renderer iframe environment.
+// React, Babel and Tailwind come from the app bundle (see page.tsx and _lib/artifact.worker.ts),
+// so nothing is loaded from a CDN and artifacts render offline.
 export default function ArtifactRendererLayout({
   children,
 }: {
@@ -9,25 +34,12 @@ export default function ArtifactRendererLayout({
 }) {
   return (
     <>
-      {/* Load React and ReactDOM globally for the dynamic artifact code */}
-      {/* These need to be loaded in the <head>, but since layouts render */}
-      {/* within <body> in Next.js 13+, we rely on `beforeInteractive` */}
-      {/* to load them ASAP. Alternatively, place in <Head> component */}
-      {/* if using one, but this simple layout doesn't need a full <head> */}
-      <Script
-        src="https://unpkg.com/react@18/umd/react.production.min.js"
-        strategy="beforeInteractive" 
-        id="react-global"
-      />
-      <Script
-        src="https://unpkg.com/react-dom@18/umd/react-dom.production.min.js"
-        strategy="beforeInteractive"
-        id="react-dom-global"
-      />
+      {/* Has to run before hydration */}
+      <Script id="artifact-memory-storage" strategy="beforeInteractive">{MEMORY_STORAGE_SCRIPT}</Script>
       {/* Render the actual page content */}
       {children}
       {/* Basic iframe body reset via style tag */}
       <style>{`body { margin: 0; padding: 0; background-color: transparent; }`}</style>
     </>
   );
-} 
\ No newline at end of file
+}
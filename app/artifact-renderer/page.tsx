@@ -1,40 +1,80 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import html2canvas from 'html2canvas';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import { toCanvas } from 'html-to-image';
 import { DynamicRenderer } from './_components/DynamicRenderer';
 import { ArtifactErrorBoundary } from './_components/ErrorBoundary';
 import { toast } from 'sonner';
 import { Button } from "@/components/ui/button"; 
 import { Input } from "@/components/ui/input"; 
+import { loadArtifactPackages } from './_lib/import-map';
+import { createArtifactConsole, formatConsoleValue } from './_lib/console';
+import { ARTIFACT_CONSOLE_GLOBAL } from '@/lib/artifacts';
+import {
+  ARTIFACT_PROTOCOL,
+  ARTIFACT_PROTOCOL_VERSION,
+  isHandshakeMessage,
+  type ArtifactBuild,
+  type ArtifactConsoleEntry,
+  type CaptureTarget,
+  type HostConnectMessage,
+  type HostMessage,
+  type RendererMessage,
+  type RendererReadyMessage,
+} from './_lib/protocol';
+
+type SelectionDataPayload = Extract<RendererMessage, { type: 'SELECTION_DATA' }>['payload'];
+
+// Cuts a viewport region out of the element's capture (the canvas may be scaled for the pixel ratio)
+function cropToRegion(canvas: HTMLCanvasElement, element: HTMLElement, region: NonNullable<CaptureTarget['region']>): HTMLCanvasElement {
+  const bounds = element.getBoundingClientRect();
+  const scale = canvas.width / bounds.width;
+  const cropped = document.createElement('canvas');
+  cropped.width = Math.max(1, Math.round(region.width * scale));
+  cropped.height = Math.max(1, Math.round(region.height * scale));
+  cropped.getContext('2d')?.drawImage(
+    canvas,
+    (region.x - bounds.left) * scale,
+    (region.y - bounds.top) * scale,
+    region.width * scale,
+    region.height * scale,
+    0,
+    0,
+    cropped.width,
+    cropped.height
+  );
+  return cropped;
+}
+
+// Fills in the transparent parts of a capture. html-to-image's backgroundColor option would paint
+// over the captured element's own background too.
+function fillBackground(canvas: HTMLCanvasElement, color: string): HTMLCanvasElement {
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = color;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+}
 
-// --- Parent Message Types ---
-interface UpdateComponentMessage { type: 'UPDATE_COMPONENT'; payload: { code: string; }; }
-interface CaptureSelectionMessage { type: 'CAPTURE_SELECTION'; payload?: { selector?: string; }; }
-type ParentMessage = UpdateComponentMessage | CaptureSelectionMessage;
-
-// --- Iframe Message Types ---
-interface InitCompleteMessage { type: 'INIT_COMPLETE'; }
-interface SelectionDataMessage { type: 'SELECTION_DATA'; payload: { imageDataUrl: string | null; error?: string; }; }
-type IframeMessage = InitCompleteMessage | SelectionDataMessage;
-
-// --- Worker Message Types ---
-interface WorkerTransformSuccessMessage { type: 'TRANSFORM_SUCCESS'; payload: { transformedCode: string }; }
-interface WorkerTransformErrorMessage { type: 'TRANSFORM_ERROR'; payload: { error: string }; }
-type WorkerIncomingMessage = WorkerTransformSuccessMessage | WorkerTransformErrorMessage;
 
 export default function ArtifactRendererPage() {
   // --- Initial Log ---
   console.log('[RendererPage LOG] ArtifactRendererPage function component body executing.');
   // --- End Initial Log ---
 
-  const [componentCode, setComponentCode] = useState<string>('');
+  const [hasArtifact, setHasArtifact] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [RenderedComponent, setRenderedComponent] = useState<React.ComponentType | null>(null);
-  const parentOrigin = useRef<string | null>(null);
+  // Private channel to the viewer that embeds this page (see _lib/protocol.ts)
+  const hostPort = useRef<MessagePort | null>(null);
   const rendererRef = useRef<HTMLDivElement>(null);
-  const workerRef = useRef<Worker | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Tailwind utilities for the classes the artifact uses, compiled by the host's build worker
+  const [tailwindCss, setTailwindCss] = useState('');
 
   console.log('[RendererPage] Component rendering/re-rendering (Full).');
 
@@ -72,6 +112,9 @@ export default function ArtifactRendererPage() {
   useEffect(() => {
     // These components are used directly by name in the artifact code
     // without explicit imports, so we need them on the window scope.
+    // (Imports of them go through the import map, see _lib/import-map.ts.)
+    window.React = React;
+    window.ReactDOM = { ...ReactDOM, ...ReactDOMClient };
     // @ts-expect-error - Assigning to window for dynamic artifact scope - REMOVED
     window.Button = Button;
     // @ts-expect-error - Assigning to window for dynamic artifact scope - REMOVED
@@ -84,11 +127,15 @@ export default function ArtifactRendererPage() {
     window.useEffect = useEffect; // And useEffect
     // @ts-expect-error - Assigning to window for dynamic artifact scope - REMOVED
     window.useRef = useRef; // And useRef
-    console.log('[RendererPage] Exposed Button, Input, and React hooks globally on window.');
+    console.log('[RendererPage] Exposed React, ReactDOM, Button, Input, and React hooks globally on window.');
 
     // Optional: Cleanup function to remove them on unmount
     return () => {
       try {
+        // @ts-expect-error - Deleting from window scope
+        delete window.React;
+        // @ts-expect-error - Deleting from window scope
+        delete window.ReactDOM;
         // @ts-expect-error - Deleting from window scope - REMOVED
         delete window.Button;
         // @ts-expect-error - Deleting from window scope - REMOVED
@@ -107,122 +154,88 @@ export default function ArtifactRendererPage() {
     };
   }, []); // Run only once on component mount
 
-  // --- Initialize Worker ---
-  useEffect(() => {
-    console.log('[RendererPage] Attempting to initialize worker (Full).');
-    workerRef.current = new Worker('/artifact-worker.js');
-    console.log('[RendererPage] Worker instance created.');
-
-    // --- Worker Message Handler ---
-    const handleWorkerMessage = async (event: MessageEvent<WorkerIncomingMessage>) => {
-      console.log('[RendererPage] Received message from worker:', event.data.type);
-      setIsProcessing(false); 
-
-      switch (event.data.type) {
-        case 'TRANSFORM_SUCCESS':
-          try {
-            console.log('[RendererPage] Worker transform succeeded. Creating Blob URL...');
-            const transformedCode = event.data.payload.transformedCode;
-            
-            // --- Blob URL and Dynamic Import --- 
-            // Add necessary polyfills/globals if needed directly in the code string, 
-            // or ensure they are globally available in the iframe context.
-            // Note: This approach makes passing scope variables like Button/Input harder.
-            // They would need to be globally available (e.g., window.Button = Button) or 
-            // the worker needs to rewrite imports to fetch them from a known location.
-            // For now, assume React is globally available via script tag in the iframe's HTML.
-            
-            const blob = new Blob([transformedCode], { type: 'text/javascript' });
-            const blobUrl = URL.createObjectURL(blob);
-            let component = null;
-
-            // --- Wait for React to be globally available --- 
-            const waitForReact = async (timeout = 2000) => {
-              const start = Date.now();
-              while (!window.React && Date.now() - start < timeout) {
-                console.log('[RendererPage] Waiting for window.React...');
-                await new Promise(resolve => setTimeout(resolve, 50)); // Poll every 50ms
-              }
-              if (!window.React) {
-                throw new Error('window.React did not become available in time.');
-              }
-              console.log('[RendererPage] window.React is available.');
-            };
-
-            try {
-              await waitForReact(); // Wait before importing
-
-              console.log(`[RendererPage] Dynamically importing from Blob URL: ${blobUrl}`);
-              // Use /* webpackIgnore: true */ to prevent webpack warnings/errors
-              const artifactModule = await import(/* webpackIgnore: true */ blobUrl);
-              console.log('[RendererPage] Blob import successful. Module:', artifactModule);
-              component = artifactModule.default;
-              if (!component || typeof component !== 'function') {
-                 throw new Error('Blob import did not result in a valid default export component.');
-              }
-            } finally {
-                // Revoke the Blob URL after import attempt
-                URL.revokeObjectURL(blobUrl);
-                console.log(`[RendererPage] Revoked Blob URL: ${blobUrl}`);
-            }
-            // --- End Blob URL and Dynamic Import ---
+  // --- Post Message TO Parent ---
+  const postMessageToParent = useCallback((message: RendererMessage) => {
+    if (hostPort.current) {
+      console.log('[RendererPage] Posting message to parent:', message.type, message.payload);
+      hostPort.current.postMessage(message);
+    } else {
+      console.warn('[RendererPage] Cannot post message to parent, not connected yet.');
+    }
+  }, []);
 
-            console.log('[RendererPage] Setting component state from Blob import.');
-            setRenderedComponent(() => component); // Use function form for safety
-            setError(null);
-            toast.success("Artifact Rendered");
+  // Console calls and errors of the artifact, shown in the viewer's console panel
+  const reportConsoleEntry = useCallback((entry: ArtifactConsoleEntry) => {
+    postMessageToParent({ type: 'CONSOLE', payload: entry });
+  }, [postMessageToParent]);
 
-          } catch (evalError: unknown) {
-            console.error('[RendererPage] Error importing/evaluating code from worker via Blob:', evalError);
-            const errorMessage = `Failed to load artifact: ${evalError instanceof Error ? evalError.message : String(evalError)}`;
-            setError(errorMessage);
-            toast.error("Artifact Error", { description: errorMessage });
-            setRenderedComponent(null);
-          }
-          break;
-        case 'TRANSFORM_ERROR':
-          console.error('[RendererPage] Error transforming code in worker:', event.data.payload.error);
-          const transformErrorMessage = `Failed to process artifact: ${event.data.payload.error}`;
-          setError(transformErrorMessage);
-          toast.error("Artifact Error", { description: transformErrorMessage });
-          setRenderedComponent(null);
-          break;
-        default:
-             console.warn('[RendererPage] Received unknown message type from worker:', event.data);
-      }
+  useEffect(() => {
+    window[ARTIFACT_CONSOLE_GLOBAL] = createArtifactConsole(reportConsoleEntry);
+    const handleError = (event: ErrorEvent) => {
+      reportConsoleEntry({ level: 'error', message: `Uncaught ${formatConsoleValue(event.error ?? event.message)}` });
     };
-
-    workerRef.current.addEventListener('message', handleWorkerMessage);
-    console.log('[RendererPage] Added worker message listener.');
-
-    // Cleanup: terminate worker when component unmounts
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      reportConsoleEntry({ level: 'error', message: `Unhandled promise rejection: ${formatConsoleValue(event.reason)}` });
+    };
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
     return () => {
-      console.log('[RendererPage] Terminating worker.');
-      workerRef.current?.removeEventListener('message', handleWorkerMessage);
-      workerRef.current?.terminate();
-      workerRef.current = null;
+      delete window[ARTIFACT_CONSOLE_GLOBAL];
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
     };
-  }, []); // Run only once on mount
+  }, [reportConsoleEntry]);
 
-  // --- Post Message TO Parent ---
-  const postMessageToParent = useCallback((message: IframeMessage) => {
-    if (parentOrigin.current) {
-       if ('payload' in message) {
-           console.log('[RendererPage] Posting message to parent:', message.type, message.payload);
-       } else {
-            console.log('[RendererPage] Posting message to parent:', message.type);
-       }
-      window.parent.postMessage(message, parentOrigin.current);
-    } else {
-      // Note: This might log during initial load before parent origin is set
-      console.warn('[RendererPage] Cannot post message to parent, origin not set yet.');
+  // --- Render a Build from the Host ---
+  const renderBuild = useCallback(async ({ transformedCode, css, packages }: ArtifactBuild) => {
+    try {
+      // The bundle takes the packages it imports from the import map's registry
+      await loadArtifactPackages(packages);
+
+      // --- Blob URL and Dynamic Import ---
+      const blob = new Blob([transformedCode], { type: 'text/javascript' });
+      const blobUrl = URL.createObjectURL(blob);
+      let component = null;
+
+      try {
+        console.log(`[RendererPage] Dynamically importing from Blob URL: ${blobUrl}`);
+        // Use /* webpackIgnore: true */ to prevent webpack warnings/errors
+        const artifactModule = await import(/* webpackIgnore: true */ blobUrl);
+        console.log('[RendererPage] Blob import successful. Module:', artifactModule);
+        component = artifactModule.default;
+        if (!component || typeof component !== 'function') {
+           throw new Error('Blob import did not result in a valid default export component.');
+        }
+      } finally {
+          // Revoke the Blob URL after import attempt
+          URL.revokeObjectURL(blobUrl);
+          console.log(`[RendererPage] Revoked Blob URL: ${blobUrl}`);
+      }
+      // --- End Blob URL and Dynamic Import ---
+
+      console.log('[RendererPage] Setting component state from Blob import.');
+      setTailwindCss(css);
+      setRenderedComponent(() => component); // Use function form for safety
+      setError(null);
+      toast.success("Artifact Rendered");
+
+    } catch (evalError: unknown) {
+      console.error('[RendererPage] Error importing/evaluating the build via Blob:', evalError);
+      const errorMessage = `Failed to load artifact: ${evalError instanceof Error ? evalError.message : String(evalError)}`;
+      setError(errorMessage);
+      reportConsoleEntry({ level: 'error', message: errorMessage });
+      toast.error("Artifact Error", { description: errorMessage });
+      setRenderedComponent(null);
+    } finally {
+      setIsProcessing(false);
     }
-  }, []);
+  }, [reportConsoleEntry]);
 
   // --- Capture Function ---
-  const captureElement = useCallback(async (selector?: string) => {
-    let elementToCapture: HTMLElement | null = rendererRef.current;
-    console.log(`[RendererPage] Capture requested. Selector: "${selector || 'full'}", Target Element:`, elementToCapture);
+  const captureElement = useCallback(async ({ selector, region }: CaptureTarget = {}) => {
+    // A region can include the page around the artifact, so it is cut from the whole page
+    let elementToCapture: HTMLElement | null = region ? document.body : rendererRef.current;
+    console.log(`[RendererPage] Capture requested. Selector: "${selector || (region ? 'region' : 'full')}", Target Element:`, elementToCapture);
 
     if (selector && rendererRef.current) {
         try {
@@ -250,22 +263,27 @@ export default function ArtifactRendererPage() {
     }
 
     try {
-        const canvas = await html2canvas(elementToCapture as HTMLElement, {
-            useCORS: true,
-            allowTaint: true,
-            backgroundColor: '#ffffff',
-            logging: process.env.NODE_ENV !== 'production',
+        // Rendered in this document through an SVG image; html2canvas needs a same-origin iframe,
+        // which the sandbox doesn't give us
+        const canvas = await toCanvas(elementToCapture, {
+            // The app's font stylesheets can't be read or fetched from here, so system fonts are used
+            skipFonts: true,
+            // Our own toasts (e.g. "Capture requested...") aren't part of the artifact
+            filter: (node) => !(node instanceof HTMLElement && node.hasAttribute('data-sonner-toaster')),
         });
-        const imageDataUrl = canvas.toDataURL('image/png');
-        const successPayload: SelectionDataMessage['payload'] = { imageDataUrl: imageDataUrl };
+        // The renderer's theme background, which is what the artifact is seen on
+        const background = getComputedStyle(rendererRef.current?.closest('.artifact-renderer') ?? document.body).backgroundColor;
+        const captured = region ? cropToRegion(canvas, elementToCapture, region) : canvas;
+        const imageDataUrl = fillBackground(captured, background).toDataURL('image/png');
+        const successPayload: SelectionDataPayload = { imageDataUrl: imageDataUrl };
         postMessageToParent({
             type: 'SELECTION_DATA',
             payload: successPayload
         });
     } catch (err: unknown) {
-        console.error('[RendererPage] html2canvas capture error:', err);
+        console.error('[RendererPage] Capture error:', err);
         const errorMessage = `Capture failed: ${err instanceof Error ? err.message : String(err)}`;
-        const errorPayload: SelectionDataMessage['payload'] = { imageDataUrl: null, error: errorMessage || 'Unknown capture error' };
+        const errorPayload: SelectionDataPayload = { imageDataUrl: null, error: errorMessage || 'Unknown capture error' };
         postMessageToParent({
             type: 'SELECTION_DATA',
             payload: errorPayload
@@ -274,49 +292,33 @@ export default function ArtifactRendererPage() {
 }, [postMessageToParent]);
 
 
-  // --- Message Handler FROM Parent ---
+  // --- Connection and Messages FROM Parent ---
   useEffect(() => {
-    console.log('[RendererPage] Adding parent message listener.');
-    const handleParentMessage = (event: MessageEvent<ParentMessage>) => {
-      const allowedOrigin = process.env.NODE_ENV === 'production'
-         ? process.env.NEXT_PUBLIC_PARENT_APP_URL // Needs env var configured!
-         : '*';
-
-      if (allowedOrigin !== '*' && event.origin !== allowedOrigin) {
-        console.warn(`[RendererPage] Ignoring message from disallowed parent origin: ${event.origin}`);
-        return;
-      }
-
+    const handleHostMessage = (event: MessageEvent<HostMessage>) => {
       console.log('[RendererPage] Received message from parent:', event.data.type);
 
-       if (!parentOrigin.current && event.data.type === 'UPDATE_COMPONENT') {
-           // Store parent origin on first valid component update message
-           if (allowedOrigin === '*' || event.origin === allowedOrigin) {
-               parentOrigin.current = event.origin;
-               console.log(`[RendererPage] Stored parent origin: ${parentOrigin.current}`);
-           }
-       }
-
       switch (event.data.type) {
-        case 'UPDATE_COMPONENT':
+        case 'BUILD_STARTED':
           setError(null);
           setRenderedComponent(null);
           setIsProcessing(true);
-          setComponentCode(event.data.payload.code);
-          if (workerRef.current) {
-            console.log('[RendererPage] Posting TRANSFORM_CODE message to worker.');
-            workerRef.current.postMessage({ type: 'TRANSFORM_CODE', payload: { code: event.data.payload.code } });
-          } else {
-             const errorMsg = '[RendererPage] Worker not initialized when receiving UPDATE_COMPONENT.';
-             console.error(errorMsg);
-             setError(errorMsg);
-             toast.error("Artifact Error", { description: errorMsg });
-             setIsProcessing(false);
-          }
+          setHasArtifact(true);
+          break;
+        case 'RENDER':
+          void renderBuild(event.data.payload);
           break;
+        case 'BUILD_ERROR': {
+          console.error('[RendererPage] The artifact could not be built:', event.data.payload.error);
+          const buildErrorMessage = `Failed to process artifact: ${event.data.payload.error}`;
+          setError(buildErrorMessage);
+          toast.error("Artifact Error", { description: buildErrorMessage });
+          setRenderedComponent(null);
+          setIsProcessing(false);
+          break;
+        }
         case 'CAPTURE_SELECTION':
           toast.info("Capture requested...");
-          captureElement(event.data.payload?.selector).catch(err => {
+          captureElement(event.data.payload).catch(err => {
                console.error('[RendererPage] Error during captureElement execution:', err);
                postMessageToParent({
                     type: 'SELECTION_DATA',
@@ -329,20 +331,31 @@ export default function ArtifactRendererPage() {
       }
     };
 
-    window.addEventListener('message', handleParentMessage);
+    // Only the embedding window may hand over the channel, and only once
+    const handleConnect = (event: MessageEvent) => {
+      if (event.source !== window.parent || hostPort.current || !isHandshakeMessage<HostConnectMessage>(event.data, 'CONNECT')) return;
+      const [port] = event.ports;
+      if (!port || event.data.version !== ARTIFACT_PROTOCOL_VERSION) {
+        console.warn('[RendererPage] Ignoring CONNECT without a port or for another protocol version.');
+        return;
+      }
+      console.log('[RendererPage] Connected to parent.');
+      hostPort.current = port;
+      port.onmessage = handleHostMessage;
+    };
 
-    // Send INIT_COMPLETE (still needed for parent)
-    const timer = setTimeout(() => {
-      console.log('[RendererPage] Sending INIT_COMPLETE to parent window.');
-      window.parent.postMessage({ type: 'INIT_COMPLETE' }, '*');
-    }, 100);
+    window.addEventListener('message', handleConnect);
+    // The page has an opaque origin, so the parent's origin is unknown; READY holds nothing private
+    console.log('[RendererPage] Sending READY to parent window.');
+    window.parent.postMessage({ protocol: ARTIFACT_PROTOCOL, version: ARTIFACT_PROTOCOL_VERSION, type: 'READY' } satisfies RendererReadyMessage, '*');
 
     return () => {
-      console.log('[RendererPage] Removing parent message listener.');
-      window.removeEventListener('message', handleParentMessage);
-      clearTimeout(timer);
+      console.log('[RendererPage] Closing the parent connection.');
+      window.removeEventListener('message', handleConnect);
+      hostPort.current?.close();
+      hostPort.current = null;
     };
-  }, [postMessageToParent, captureElement]); // Dependencies
+  }, [postMessageToParent, captureElement, renderBuild]); // Dependencies
 
   // --- Render Logic ---
   return (
@@ -353,6 +366,7 @@ export default function ArtifactRendererPage() {
               font-family: system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, "Open Sans", "Helvetica Neue", sans-serif;
             }
           `}</style>
+          {tailwindCss && <style>{tailwindCss}</style>}
           <div ref={rendererRef}>
               {isProcessing && (
                   <p className="text-muted-foreground italic">Processing artifact code...</p>
@@ -365,12 +379,14 @@ export default function ArtifactRendererPage() {
               )}
               {/* Render Component only when not processing, no error, and Component exists */}
               {!isProcessing && !error && RenderedComponent && (
-                  <ArtifactErrorBoundary>
+                  <ArtifactErrorBoundary
+                      onError={(error) => reportConsoleEntry({ level: 'error', message: `Render error: ${formatConsoleValue(error)}` })}
+                  >
                       <DynamicRenderer Component={RenderedComponent} />
                   </ArtifactErrorBoundary>
               )}
               {/* Placeholder when waiting for initial code */}
-              {!isProcessing && !error && !RenderedComponent && !componentCode && (
+              {!isProcessing && !error && !RenderedComponent && !hasArtifact && (
                   <p className="text-muted-foreground italic">Waiting for artifact code...</p>
               )}
           </div>
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import globalsCss from '../../globals.css?raw';
+import tailwindCss from '@artifact-stylesheets/tailwindcss?raw';
+import twAnimateCss from '@artifact-stylesheets/tw-animate-css?raw';
+
+// The app's globals.css and the stylesheets it imports, for the Tailwind compiler in the artifact
+// worker. The files are bundled as text (`?raw`) and rendered once at build time, so it's served
+// like a static file.
+export const dynamic = 'force-static';
+
+export interface ArtifactStylesheets {
+  input: string; // app/globals.css
+  stylesheets: Record<string, string>; // Contents by @import id
+}
+
+export function GET() {
+  const body: ArtifactStylesheets = {
+    input: globalsCss,
+    stylesheets: { 'tailwindcss': tailwindCss, 'tw-animate-css': twAnimateCss },
+  };
+  return new NextResponse(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
@@ -1,55 +1,23 @@
 // Shared types for chat utilities
 
-// Workflow invocation data types
-export interface Flight {
-  id: string;
-  airline: string;
-  departureTime: string;
-  arrivalTime: string;
-  price: number;
-}
-
-export interface ConfirmedFlightDetails {
-  id: string;
-  departureCity: string;
-  arrivalCity: string;
-  confirmedDate: string;
-  price: number;
-  airline: string;
-}
-
-export interface ConfirmDateResult {
-  workflowStep: 'confirmDate';
-  departureCity: string;
-  arrivalCity: string;
-  targetDateString: string;
-  [key: string]: unknown;
-}
-
-export interface SelectFlightResult {
-  workflowStep: 'selectFlight';
-  departureCity: string;
-  arrivalCity: string;
-  confirmedDate: string;
-  availableFlights: Flight[];
+// Result of a workflow tool (see app/ai/workflows). `workflowId` is missing on results
+// persisted before workflows were declarative; those are resolved by step id alone.
+export interface WorkflowToolInvocationResult {
+  workflowId?: string;
+  workflowStep: string;
   [key: string]: unknown;
 }
 
-export interface ConfirmationResult {
-  workflowStep: 'confirmation';
-  departureCity: string;
-  arrivalCity: string;
-  confirmedDate: string;
-  bookingRef: string;
-  flightDetails: ConfirmedFlightDetails;
-  [key: string]: unknown;
+export function isWorkflowToolInvocationResult(data: unknown): data is WorkflowToolInvocationResult {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as WorkflowToolInvocationResult).workflowStep === 'string' &&
+    ((data as WorkflowToolInvocationResult).workflowId === undefined ||
+      typeof (data as WorkflowToolInvocationResult).workflowId === 'string')
+  );
 }
 
-export type WorkflowToolInvocationResult =
-  | ConfirmDateResult
-  | SelectFlightResult
-  | ConfirmationResult;
-
 export interface UserActionData {
   action: 'callTool';
   [key: string]: unknown;
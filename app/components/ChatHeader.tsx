@@ -1,19 +1,175 @@
 "use client";
-import React from "react";
+import React, { useMemo, useState } from "react";
+import type { Message } from "ai/react";
 import { Button } from "./ui/button";
-import { Trash2 } from "lucide-react";
+import { Label } from "./ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Gauge, Trash2, UserCog } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CONTEXT_STRATEGIES,
+  CONTEXT_STRATEGY_LABELS,
+  getContextWindow,
+  type ContextStrategy,
+  type ModelSettings,
+} from "@/ai/models";
+import { getContextBudget, planContext } from "@/ai/context";
+import { findPersona, getAllPersonas, type PromptLibrary } from "@/lib/prompt-library";
+import { PromptLibraryDialog } from "./PromptLibraryDialog";
 
 interface ChatHeaderProps {
+  messages: Message[];
+  // Typed text and staged attachments, counted before they are sent
+  pendingTokens: number;
+  pinnedMessageIds: string[];
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
+  // Persona of the chat (unset means the default one)
+  personaId: string | undefined;
+  onPersonaChange: (personaId: string) => void;
+  promptLibrary: PromptLibrary;
+  onPromptLibraryChange: (library: PromptLibrary) => void;
   onClear: () => void;
-  // Add chatTitle prop if needed here later
 }
 
-export function ChatHeader({ onClear }: ChatHeaderProps) {
+// Select value that opens the prompt library instead of picking a persona
+const MANAGE_PERSONAS = "__manage__";
+
+// Above this share of the budget the meter turns amber
+const WARNING_RATIO = 0.8;
+
+function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return `${Number((tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0))}k`;
+}
+
+export function ChatHeader({
+  messages,
+  pendingTokens,
+  pinnedMessageIds,
+  modelSettings,
+  onModelSettingsChange,
+  personaId,
+  onPersonaChange,
+  promptLibrary,
+  onPromptLibraryChange,
+  onClear,
+}: ChatHeaderProps) {
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const persona = findPersona(promptLibrary, personaId);
+  const budget = getContextBudget(modelSettings);
+  // What the next request would drop: the pending message takes its share of the budget first
+  const plan = useMemo(
+    () => planContext(messages, Math.max(budget - pendingTokens, 0), pinnedMessageIds),
+    [messages, budget, pendingTokens, pinnedMessageIds]
+  );
+  const usedTokens = plan.totalTokens + pendingTokens;
+  const ratio = usedTokens / budget;
+  const strategy = CONTEXT_STRATEGY_LABELS[modelSettings.contextStrategy];
+
   return (
-    // Remove sticky, backdrop-blur, adjust padding/border/bg if needed
-    // This header is now *only* for actions within a selected chat
-    <div className="flex items-center justify-end p-2 border-b border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 flex-shrink-0">
-      {/* Removed h1 Title */}
+    // This header is *only* for actions within a selected chat
+    <div className="flex items-center justify-end gap-1 p-2 border-b border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 flex-shrink-0">
+      <Select
+        value={persona.id}
+        onValueChange={(value) => (value === MANAGE_PERSONAS ? setIsLibraryOpen(true) : onPersonaChange(value))}
+      >
+        <SelectTrigger className="h-8 w-auto max-w-48 gap-1.5 border-none shadow-none text-xs text-neutral-600 dark:text-neutral-400" aria-label="Persona" title={persona.description}>
+          <UserCog className="h-4 w-4 flex-shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent align="end">
+          {getAllPersonas(promptLibrary).map(item => (
+            <SelectItem key={item.id} value={item.id} className="text-xs">
+              {item.name}
+            </SelectItem>
+          ))}
+          <SelectItem value={MANAGE_PERSONAS} className="text-xs text-muted-foreground">
+            Manage personas...
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      {isLibraryOpen && (
+        <PromptLibraryDialog
+          open
+          onOpenChange={setIsLibraryOpen}
+          library={promptLibrary}
+          onLibraryChange={onPromptLibraryChange}
+          activePersonaId={persona.id}
+          onSelectPersona={onPersonaChange}
+        />
+      )}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 gap-2 text-xs text-neutral-600 dark:text-neutral-400"
+            aria-label="Context window usage"
+            title={`~${usedTokens.toLocaleString()} of ${budget.toLocaleString()} tokens`}
+          >
+            <Gauge className="h-4 w-4" />
+            <span className="hidden sm:block w-16 h-1.5 rounded-full bg-neutral-200 dark:bg-neutral-800 overflow-hidden">
+              <span
+                className={cn(
+                  "block h-full rounded-full transition-all",
+                  ratio > 1 ? "bg-red-500" : ratio > WARNING_RATIO ? "bg-amber-500" : "bg-emerald-500"
+                )}
+                style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+              />
+            </span>
+            <span className={cn("tabular-nums", ratio > 1 && "text-red-600 dark:text-red-400")}>
+              ~{formatTokenCount(usedTokens)} / {formatTokenCount(budget)}
+            </span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3 text-xs">
+          <div className="space-y-1">
+            <p className="font-medium text-sm">Context window</p>
+            <p className="text-muted-foreground">
+              {getContextWindow(modelSettings).toLocaleString()} tokens for {modelSettings.modelId}, minus the reply
+              ({modelSettings.maxTokens.toLocaleString()}) and the system prompt leaves {budget.toLocaleString()} for the chat.
+              Counts are estimates.
+            </p>
+          </div>
+          <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-0.5">
+            <dt className="text-muted-foreground">History ({messages.length} messages)</dt>
+            <dd className="tabular-nums text-right">~{plan.totalTokens.toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Draft and attachments</dt>
+            <dd className="tabular-nums text-right">~{pendingTokens.toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Pinned messages</dt>
+            <dd className="tabular-nums text-right">{pinnedMessageIds.length}</dd>
+          </dl>
+          {plan.dropped.length > 0 && (
+            <p className="rounded-md bg-amber-50 dark:bg-amber-950/40 text-amber-800 dark:text-amber-300 px-2 py-1.5">
+              The chat no longer fits: the {plan.dropped.length} oldest unpinned message{plan.dropped.length === 1 ? '' : 's'} will
+              be {modelSettings.contextStrategy === 'summarize' ? 'summarized' : 'left out'} on the next request.
+            </p>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="context-strategy" className="text-xs">When the chat is too long</Label>
+            <Select
+              value={modelSettings.contextStrategy}
+              onValueChange={(value) => onModelSettingsChange({ ...modelSettings, contextStrategy: value as ContextStrategy })}
+            >
+              <SelectTrigger id="context-strategy" className="h-8 w-full text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTEXT_STRATEGIES.map(id => (
+                  <SelectItem key={id} value={id} className="text-xs">
+                    {CONTEXT_STRATEGY_LABELS[id].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[11px] text-muted-foreground">
+              {strategy.description} Pin a message to always keep it.
+            </p>
+          </div>
+        </PopoverContent>
+      </Popover>
       <Button
         variant="ghost"
         size="icon"
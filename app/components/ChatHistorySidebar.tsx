@@ -1,12 +1,13 @@
 'use client';
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from "@/components/ui/input";
 import {
   PlusCircle, MessageSquare, Trash2, Pencil, PanelLeftClose, PanelLeftOpen, Search, Pin, PinOff,
-  ArrowDownUp,
+  ArrowDownUp, Download, Upload, Archive, ArchiveRestore, CheckSquare, X,
+  Folder, FolderOpen, FolderPlus, FolderInput, ChevronRight, Tags, Settings2, Plus,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -17,6 +18,9 @@ import {
   ContextMenuItem,
   ContextMenuTrigger,
   ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
 } from "@/components/ui/context-menu";
 // Import Select components
 import {
@@ -37,25 +41,53 @@ import {
   DialogClose, // Import DialogClose
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label"; // Import Label
-
-interface ChatHistoryItem {
-  id: string;
-  title: string;
-  lastUpdated: number;
-  isPinned: boolean;
-  isArchived: boolean; 
-}
+import {
+  parseSearchQuery,
+  canMoveFolder,
+  type ChatFolder,
+  type ChatHistoryItem,
+  type ChatOrganization,
+  type ChatSearchResult,
+  type StorageUsage,
+  type TagColor,
+  type Workspace,
+} from '@/lib/storage';
+import type { ChatExportFormat } from '@/lib/chat-export';
+import { ExportChatsDialog } from './ExportChatsDialog';
+import { EditTagsDialog } from './EditTagsDialog';
+import { TagBadge } from './TagBadge';
+import { WorkspaceDialog } from './WorkspaceDialog';
 
 interface ChatHistorySidebarProps {
   chats: ChatHistoryItem[];
   currentChatId: string | null;
   onSelectChat: (chatId: string) => void;
   onNewChat: () => void;
-  onDeleteChat: (chatId: string) => void;
+  onDeleteChats: (chatIds: string[]) => void;
+  onSetChatsArchived: (chatIds: string[], isArchived: boolean) => void;
+  onSetChatsPinned: (chatIds: string[], isPinned: boolean) => void;
   onRenameChat: (chatId: string, newTitle: string) => void;
   onTogglePinChat: (chatId: string) => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
+  storageUsage: StorageUsage | null;
+  onSearchMessages: (query: string) => Promise<ChatSearchResult[]>;
+  onSelectSearchResult: (chatId: string, messageId: string) => void;
+  onExportChats: (chatIds: string[], format: ChatExportFormat) => Promise<void>;
+  onImportChats: (file: File) => void;
+  // Workspaces, folders and tag colors; `chats` only contains the active workspace's chats
+  organization: ChatOrganization;
+  onSelectWorkspace: (workspaceId: string) => void;
+  onCreateWorkspace: (settings: Omit<Workspace, 'id'>) => void;
+  onUpdateWorkspace: (workspace: Workspace) => void;
+  onDeleteWorkspace: (workspaceId: string) => void;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  onMoveFolder: (folderId: string, parentId: string | null) => void;
+  onMoveChats: (chatIds: string[], folderId: string | null) => void;
+  onSetChatTags: (chatId: string, tags: string[]) => void;
+  onSetTagColor: (tag: string, color: TagColor) => void;
 }
 
 function formatTimestamp(timestamp: number): string {
@@ -81,27 +113,102 @@ function formatTimestamp(timestamp: number): string {
   }
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+const SEARCH_HELP = 'Searches titles and messages. Use "quotes" for phrases, role:user / role:assistant, has:code / has:artifact.';
+
+const STORAGE_WARNING_RATIO = 0.8; // Highlight the usage bar above 80% of the quota
+
 // Define Sort Criteria Type
 type SortCriteria = 'lastUpdated' | 'title';
+// Which list the sidebar shows
+type SidebarView = 'active' | 'archived';
 
-const MAX_CHATS_DISPLAYED = 10; // Define chat limit
+const MAX_CHATS_DISPLAYED = 10; // Chats listed at first; "Show more" lists this many more
 const RENAME_INPUT_MAX_LENGTH = 15; // New constant for rename limit
+const FOLDER_NAME_MAX_LENGTH = 30;
+const MAX_ROW_TAGS = 3; // Tag badges shown on a chat row
+const FOLDER_INDENT_PX = 12;
+
+// Drag-and-drop payloads for moving chats and folders
+const DRAG_CHAT_TYPE = 'application/x-chat-id';
+const DRAG_FOLDER_TYPE = 'application/x-folder-id';
+// Drop target id of the top level of the list
+const ROOT_DROP_TARGET = 'root';
+// Select value that opens the new workspace dialog
+const NEW_WORKSPACE_VALUE = '__new__';
+
+type FolderDialogState =
+  | { mode: 'create'; parentId: string | null }
+  | { mode: 'rename'; folder: ChatFolder };
+
+// null: closed, 'new': create a workspace, otherwise the workspace being edited
+type WorkspaceDialogState = Workspace | 'new' | null;
+
+// Title plus the generated summary and tags, shown when hovering a chat
+function ChatSummaryTooltip({ chat }: { chat: ChatHistoryItem }) {
+  return (
+    <TooltipContent side="right" className="max-w-xs space-y-1.5">
+      <p className="font-medium">{chat.title || `Chat ${chat.id.substring(0, 4)}...`}</p>
+      {chat.summary && <p className="text-xs opacity-80">{chat.summary}</p>}
+      {chat.tags && chat.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {chat.tags.map(tag => (
+            <span key={tag} className="rounded bg-white/15 dark:bg-black/10 px-1.5 py-0.5 text-[11px]">#{tag}</span>
+          ))}
+        </div>
+      )}
+    </TooltipContent>
+  );
+}
 
 export function ChatHistorySidebar({
   chats,
   currentChatId,
   onSelectChat,
   onNewChat,
-  onDeleteChat,
+  onDeleteChats,
+  onSetChatsArchived,
+  onSetChatsPinned,
   onRenameChat,
   onTogglePinChat,
   isCollapsed,
   onToggleCollapse,
+  storageUsage,
+  onSearchMessages,
+  onSelectSearchResult,
+  onExportChats,
+  onImportChats,
+  organization,
+  onSelectWorkspace,
+  onCreateWorkspace,
+  onUpdateWorkspace,
+  onDeleteWorkspace,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveFolder,
+  onMoveChats,
+  onSetChatTags,
+  onSetTagColor,
 }: ChatHistorySidebarProps) {
 
   const [searchTerm, setSearchTerm] = useState('');
   // --- Add state for sort criteria ---
   const [sortCriteria, setSortCriteria] = useState<SortCriteria>('lastUpdated');
+  // Message matches for the current search term, per chat
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [view, setView] = useState<SidebarView>('active');
+  const [displayLimit, setDisplayLimit] = useState(MAX_CHATS_DISPLAYED);
+  // --- Multi-select for bulk actions ---
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // --- State for Dialogs ---
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
@@ -110,8 +217,30 @@ export function ChatHistorySidebar({
   const [newTitleInput, setNewTitleInput] = useState('');
 
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [deleteChatId, setDeleteChatId] = useState<string | null>(null);
-  const chatToDelete = useMemo(() => chats.find(c => c.id === deleteChatId), [chats, deleteChatId]);
+  const [deleteChatIds, setDeleteChatIds] = useState<string[]>([]);
+  const chatsToDelete = useMemo(() => chats.filter(c => deleteChatIds.includes(c.id)), [chats, deleteChatIds]);
+
+  // Chats preselected in the export dialog (null while it is closed)
+  const [exportChatIds, setExportChatIds] = useState<string[] | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Tags a chat must all have to be listed
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [expandedFolderIds, setExpandedFolderIds] = useState<Set<string>>(new Set());
+  // Folder id (or ROOT_DROP_TARGET) highlighted while dragging
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Folder being dragged; dataTransfer can't be read during dragover, but drops into its own subfolders must be refused there
+  const draggedFolderIdRef = useRef<string | null>(null);
+  const [folderDialog, setFolderDialog] = useState<FolderDialogState | null>(null);
+  const [folderNameInput, setFolderNameInput] = useState('');
+  const [tagsChatId, setTagsChatId] = useState<string | null>(null);
+  const [workspaceDialog, setWorkspaceDialog] = useState<WorkspaceDialogState>(null);
+
+  const handleImportFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImportChats(file);
+    event.target.value = ''; // Allow importing the same file again
+  };
 
   // Effect to update input when dialog opens
   useEffect(() => {
@@ -122,16 +251,69 @@ export function ChatHistorySidebar({
     }
   }, [isRenameDialogOpen, renameChatTitle]);
 
+  // Debounced full-text search; re-runs when chats change so new messages show up
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onSearchMessages(searchTerm).then(results => {
+        if (!cancelled) setSearchResults(results);
+      });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, chats, onSearchMessages]);
+
+  // Each list (view, search, tag filter) starts out short again
+  useEffect(() => {
+    setDisplayLimit(MAX_CHATS_DISPLAYED);
+  }, [view, searchTerm, tagFilter]);
+
+  const searchMatchesByChat = useMemo(
+    () => new Map(searchResults.map(result => [result.chatId, result.matches])),
+    [searchResults]
+  );
+
   const handleTogglePin = (chatId: string) => {
     console.log(`[ChatHistorySidebar] Attempting to toggle pin for chat ID: ${chatId}`);
     onTogglePinChat(chatId);
   };
 
+  const activeWorkspace = organization.workspaces.find(workspace => workspace.id === organization.activeWorkspaceId);
+  const folders = useMemo(
+    () => organization.folders
+      .filter(folder => folder.workspaceId === organization.activeWorkspaceId)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [organization.folders, organization.activeWorkspaceId]
+  );
+  const rootFolders = folders.filter(folder => folder.parentId === null);
+
+  // Every tag in the workspace, for the filter and the tag editor's suggestions
+  const allTags = useMemo(() => [...new Set(chats.flatMap(chat => chat.tags ?? []))].sort(), [chats]);
+  // Tags of other workspaces stay selected in state but don't filter here
+  const activeTagFilter = useMemo(() => tagFilter.filter(tag => allTags.includes(tag)), [tagFilter, allTags]);
+
+  // Folders are shown for the plain chat list; searching or filtering by tag lists matching chats flat
+  const showFolders = view === 'active' && !searchTerm.trim() && activeTagFilter.length === 0 && !isCollapsed;
+
   // --- Update Sorting Logic based on sortCriteria state ---
-  const sortedChats = useMemo(() => {
+  const { sortedChats, hiddenChatCount, chatsByFolder } = useMemo(() => {
+    const normalizedSearch = searchTerm.trim().toLowerCase();
+    const parsedSearch = parseSearchQuery(searchTerm);
+    // Titles only match plain text queries; role:/has: filters apply to messages
+    const canMatchTitle = parsedSearch.role === null && parsedSearch.has.length === 0;
     const filtered = chats.filter(chat =>
-      !chat.isArchived &&
-      chat.title.toLowerCase().includes(searchTerm.toLowerCase())
+      !!chat.isArchived === (view === 'archived') &&
+      activeTagFilter.every(tag => chat.tags?.includes(tag)) && (
+        !normalizedSearch ||
+        searchMatchesByChat.has(chat.id) ||
+        (canMatchTitle && chat.title.toLowerCase().includes(normalizedSearch))
+      )
     );
 
     const sortFunction = (a: ChatHistoryItem, b: ChatHistoryItem) => {
@@ -146,8 +328,76 @@ export function ChatHistorySidebar({
     const pinned = filtered.filter(chat => chat.isPinned).sort(sortFunction);
     const unpinned = filtered.filter(chat => !chat.isPinned).sort(sortFunction);
                            
-    return [...pinned, ...unpinned].slice(0, MAX_CHATS_DISPLAYED);
-  }, [chats, searchTerm, sortCriteria]); // Add sortCriteria dependency
+    const sorted = [...pinned, ...unpinned];
+    const chatsByFolder = new Map<string, ChatHistoryItem[]>();
+    if (!showFolders) {
+      return { sortedChats: sorted.slice(0, displayLimit), hiddenChatCount: Math.max(sorted.length - displayLimit, 0), chatsByFolder };
+    }
+
+    // Chats in a folder are listed under it; the limit applies to the top level
+    const folderIds = new Set(folders.map(folder => folder.id));
+    const topLevel: ChatHistoryItem[] = [];
+    sorted.forEach(chat => {
+      if (chat.folderId && folderIds.has(chat.folderId)) {
+        chatsByFolder.set(chat.folderId, [...(chatsByFolder.get(chat.folderId) ?? []), chat]);
+      } else {
+        topLevel.push(chat);
+      }
+    });
+    return { sortedChats: topLevel.slice(0, displayLimit), hiddenChatCount: Math.max(topLevel.length - displayLimit, 0), chatsByFolder };
+  }, [chats, searchTerm, sortCriteria, searchMatchesByChat, view, activeTagFilter, showFolders, folders, displayLimit]);
+
+  // Chats that can be seen (and selected): the top level plus chats in expanded folders
+  const listedChats = useMemo(() => {
+    const isOpen = (folderId: string | null): boolean => {
+      if (folderId === null) return true;
+      const folder = folders.find(f => f.id === folderId);
+      return !!folder && expandedFolderIds.has(folder.id) && isOpen(folder.parentId);
+    };
+    return [
+      ...sortedChats,
+      ...[...chatsByFolder].filter(([folderId]) => isOpen(folderId)).flatMap(([, folderChats]) => folderChats),
+    ];
+  }, [sortedChats, chatsByFolder, folders, expandedFolderIds]);
+
+  const archivedCount = useMemo(() => chats.filter(chat => chat.isArchived).length, [chats]);
+
+  // Only chats that are still listed count as selected (deleted or moved chats drop out)
+  const selectedChats = useMemo(() => listedChats.filter(chat => selectedIds.has(chat.id)), [listedChats, selectedIds]);
+  const selectedChatIds = selectedChats.map(chat => chat.id);
+  const allSelectedPinned = selectedChats.length > 0 && selectedChats.every(chat => chat.isPinned);
+
+  const toggleSelected = (chatId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
+      }
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const changeView = (nextView: SidebarView) => {
+    setView(nextView);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkPin = () => {
+    onSetChatsPinned(selectedChatIds, !allSelectedPinned);
+  };
+
+  const handleBulkArchive = () => {
+    console.log(`[ChatHistorySidebar] Setting archived=${view === 'active'} for ${selectedChatIds.length} chats`);
+    onSetChatsArchived(selectedChatIds, view === 'active');
+    exitSelection();
+  };
 
   // --- Updated Handlers to use Dialogs ---
   const openRenameDialog = (chatId: string, currentTitle: string) => {
@@ -167,20 +417,110 @@ export function ChatHistorySidebar({
     setRenameChatTitle('');
   };
 
-  const openDeleteDialog = (chatId: string) => {
-    setDeleteChatId(chatId);
+  const openDeleteDialog = (chatIds: string[]) => {
+    setDeleteChatIds(chatIds);
     setIsDeleteDialogOpen(true);
   };
 
   const confirmDelete = () => {
-    if (deleteChatId) {
-      console.log(`[ChatHistorySidebar] Attempting to delete chat ID: ${deleteChatId}`);
-      onDeleteChat(deleteChatId);
+    if (deleteChatIds.length > 0) {
+      console.log(`[ChatHistorySidebar] Attempting to delete chat IDs: ${deleteChatIds.join(', ')}`);
+      onDeleteChats(deleteChatIds);
+      if (isSelecting) exitSelection();
     }
     setIsDeleteDialogOpen(false); // Close dialog
-    setDeleteChatId(null);
+    setDeleteChatIds([]);
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const toggleFolder = (folderId: string) => {
+    setExpandedFolderIds(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const expandFolder = (folderId: string) => {
+    setExpandedFolderIds(prev => (prev.has(folderId) ? prev : new Set(prev).add(folderId)));
+  };
+
+  // "Parent / Child" for the move menu
+  const getFolderPath = (folder: ChatFolder): string => {
+    const parent = folder.parentId ? folders.find(f => f.id === folder.parentId) : undefined;
+    return parent ? `${getFolderPath(parent)} / ${folder.name}` : folder.name;
+  };
+
+  const openFolderDialog = (state: FolderDialogState) => {
+    setFolderDialog(state);
+    setFolderNameInput(state.mode === 'rename' ? state.folder.name : '');
+  };
+
+  const confirmFolderDialog = () => {
+    const name = folderNameInput.trim();
+    if (folderDialog && name) {
+      if (folderDialog.mode === 'create') {
+        onCreateFolder(name, folderDialog.parentId);
+        if (folderDialog.parentId) expandFolder(folderDialog.parentId);
+      } else if (name !== folderDialog.folder.name) {
+        onRenameFolder(folderDialog.folder.id, name);
+      }
+    }
+    setFolderDialog(null);
+  };
+
+  // --- Drag and drop (chats and folders into folders or back to the top level) ---
+
+  const handleDragStart = (event: React.DragEvent, type: typeof DRAG_CHAT_TYPE | typeof DRAG_FOLDER_TYPE, id: string) => {
+    event.stopPropagation();
+    event.dataTransfer.setData(type, id);
+    event.dataTransfer.effectAllowed = 'move';
+    draggedFolderIdRef.current = type === DRAG_FOLDER_TYPE ? id : null;
+  };
+
+  const handleDragEnd = () => {
+    draggedFolderIdRef.current = null;
+    setDropTargetId(null);
+  };
+
+  // folderId null: the top level
+  const handleDragOver = (event: React.DragEvent, folderId: string | null) => {
+    const { types } = event.dataTransfer;
+    if (!types.includes(DRAG_CHAT_TYPE) && !types.includes(DRAG_FOLDER_TYPE)) return;
+    const draggedFolderId = draggedFolderIdRef.current;
+    if (draggedFolderId && !canMoveFolder(folders, draggedFolderId, folderId)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTargetId(folderId ?? ROOT_DROP_TARGET);
+  };
+
+  const handleDrop = (event: React.DragEvent, folderId: string | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTargetId(null);
+    const chatId = event.dataTransfer.getData(DRAG_CHAT_TYPE);
+    const draggedFolderId = event.dataTransfer.getData(DRAG_FOLDER_TYPE);
+    if (chatId) {
+      // Dragging one of the selected chats moves the whole selection
+      onMoveChats(isSelecting && selectedIds.has(chatId) ? selectedChatIds : [chatId], folderId);
+    } else if (draggedFolderId && canMoveFolder(folders, draggedFolderId, folderId)) {
+      onMoveFolder(draggedFolderId, folderId);
+    } else {
+      return;
+    }
+    if (folderId) expandFolder(folderId);
   };
 
+  const storageRatio = storageUsage?.quotaBytes ? Math.min(1, storageUsage.usedBytes / storageUsage.quotaBytes) : null;
+
   // Click handlers for hover buttons now open dialogs
   // Remove unused handlePinClick
   // const handlePinClick = (event: React.MouseEvent, chatId: string) => {
@@ -193,7 +533,313 @@ export function ChatHistorySidebar({
   };
    const handleDeleteClick = (event: React.MouseEvent, chatId: string) => {
     event.stopPropagation();
-    openDeleteDialog(chatId); // Open delete dialog
+    openDeleteDialog([chatId]); // Open delete dialog
+  };
+
+  // One chat row (plus its search matches); depth and folder are set for chats listed in a folder
+  const renderChat = (chat: ChatHistoryItem, depth = 0, folderId: string | null = null) => (
+    <React.Fragment key={chat.id}>
+      <ContextMenu>
+        <TooltipProvider delayDuration={isCollapsed ? 100 : 500}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <ContextMenuTrigger asChild>
+                <div
+                  className={cn(
+                    "relative flex items-center w-full p-2 rounded-md text-sm font-medium cursor-pointer",
+                    "hover:bg-neutral-100 dark:hover:bg-neutral-800",
+                    currentChatId === chat.id
+                      ? "bg-neutral-200/60 dark:bg-neutral-800/80"
+                      : "bg-transparent hover:bg-neutral-100 dark:hover:bg-neutral-800",
+                    isCollapsed && "justify-center items-center p-0 w-9 h-9 mx-auto min-h-0 pr-0"
+                  )}
+                  style={depth > 0 ? { paddingLeft: 8 + depth * FOLDER_INDENT_PX } : undefined}
+                  draggable={!isCollapsed}
+                  onDragStart={(e) => handleDragStart(e, DRAG_CHAT_TYPE, chat.id)}
+                  onDragEnd={handleDragEnd}
+                  // Dropping onto a chat moves into the folder it is listed in
+                  onDragOver={showFolders ? (e) => handleDragOver(e, folderId) : undefined}
+                  onDrop={showFolders ? (e) => handleDrop(e, folderId) : undefined}
+                  onClick={() => !isCollapsed && (isSelecting ? toggleSelected(chat.id) : onSelectChat(chat.id))}
+                  onContextMenu={(e) => isCollapsed && e.preventDefault()}
+                  title={isCollapsed ? chat.title : undefined}
+                  aria-label={isCollapsed ? chat.title : undefined}
+                >
+                  {currentChatId === chat.id && !isCollapsed &&
+                    <div className="absolute left-0 top-1/2 -translate-y-1/2 h-4/6 w-[3px] bg-indigo-500 rounded-r-full"></div>
+                  }
+                  {isSelecting && !isCollapsed ? (
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 flex-shrink-0 mr-2 accent-indigo-500 cursor-pointer"
+                      checked={selectedIds.has(chat.id)}
+                      onChange={() => toggleSelected(chat.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`Select chat "${chat.title}"`}
+                    />
+                  ) : (
+                    <MessageSquare className={cn("h-4 w-4 flex-shrink-0 text-neutral-500 dark:text-neutral-400", !isCollapsed && "mr-2")} />
+                  )}
+                  {!isCollapsed && (
+                    <div className="flex flex-col flex-grow overflow-hidden min-w-0 mr-1">
+                      <span className="truncate whitespace-nowrap overflow-hidden font-medium text-neutral-800 dark:text-neutral-200">
+                        { (chat.title || `Chat ${chat.id.substring(0, 4)}...`) }
+                      </span>
+                      <span className="flex items-center gap-1 mt-0.5 min-w-0 overflow-hidden">
+                        <span className="text-xs text-neutral-500 dark:text-neutral-400 flex-shrink-0">
+                          {formatTimestamp(chat.lastUpdated)}
+                        </span>
+                        {chat.tags?.slice(0, MAX_ROW_TAGS).map(tag => (
+                          <TagBadge key={tag} tag={tag} tagColors={organization.tagColors} className="px-1 text-[10px]" />
+                        ))}
+                      </span>
+                    </div>
+                  )}
+                  {!isCollapsed && !isSelecting && (
+                    <div className="flex items-center flex-shrink-0 space-x-0.5 ml-1">
+                      {view === 'archived' ? (
+                        <>
+                          {/* Restore Button */}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-neutral-500 hover:text-indigo-600 dark:text-neutral-400 dark:hover:text-indigo-400"
+                            onClick={(e) => { e.stopPropagation(); onSetChatsArchived([chat.id], false); }}
+                            aria-label={`Restore chat "${chat.title}"`}
+                            title={`Restore "${chat.title}"`}
+                          >
+                            <ArchiveRestore size={14} />
+                          </Button>
+                          {/* Permanent Delete Button */}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-neutral-500 hover:text-red-500 dark:text-neutral-400 dark:hover:text-red-400"
+                            onClick={(e) => { e.stopPropagation(); openDeleteDialog([chat.id]); }}
+                            aria-label={`Delete chat "${chat.title}" permanently`}
+                            title={`Delete "${chat.title}" permanently`}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          {/* Pin/Unpin Button (No Tooltip) */}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className={cn(
+                              "h-6 w-6 text-neutral-500 dark:text-neutral-400",
+                              chat.isPinned
+                                ? "text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+                                : "hover:text-neutral-700 dark:hover:text-neutral-200"
+                            )}
+                            onClick={(e) => { e.stopPropagation(); handleTogglePin(chat.id); }}
+                            aria-label={chat.isPinned ? "Unpin chat" : "Pin chat"} // Use aria-label for accessibility
+                            title={chat.isPinned ? "Unpin chat" : "Pin chat"} // Keep title for basic hover
+                          >
+                            {chat.isPinned ? <PinOff size={14} /> : <Pin size={14} />}
+                          </Button>
+                          {/* Rename Button (No Tooltip) */}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-neutral-500 hover:text-blue-500 dark:text-neutral-400 dark:hover:text-blue-400"
+                            onClick={(e) => { e.stopPropagation(); openRenameDialog(chat.id, chat.title); }}
+                            aria-label={`Rename chat "${chat.title}"`}
+                            title={`Edit title for "${chat.title}"`}
+                          >
+                            <Pencil size={14} />
+                          </Button>
+                          {/* Delete Button (No Tooltip) */}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-neutral-500 hover:text-red-500 dark:text-neutral-400 dark:hover:text-red-400"
+                            onClick={(e) => { e.stopPropagation(); openDeleteDialog([chat.id]); }}
+                            aria-label={`Delete chat "${chat.title}"`}
+                            title={`Delete "${chat.title}"`}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </ContextMenuTrigger>
+            </TooltipTrigger>
+              {(isCollapsed || chat.summary || chat.tags?.length) && (
+                <ChatSummaryTooltip chat={chat} />
+              )}
+          </Tooltip>
+        </TooltipProvider>
+
+        <ContextMenuContent className="w-48">
+          {view === 'archived' ? (
+            <ContextMenuItem onClick={() => onSetChatsArchived([chat.id], false)} className="cursor-pointer">
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              <span>Restore</span>
+            </ContextMenuItem>
+          ) : (
+            <>
+              <ContextMenuItem onClick={() => handleTogglePin(chat.id)} className="cursor-pointer">
+                {chat.isPinned ? (
+                    <><PinOff className="mr-2 h-4 w-4" /><span>Unpin</span></>
+                ) : (
+                    <><Pin className="mr-2 h-4 w-4" /><span>Pin to top</span></>
+                )}
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => openRenameDialog(chat.id, chat.title)} className="cursor-pointer">
+                <Pencil className="mr-2 h-4 w-4" />
+                <span>Rename</span>
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => setTagsChatId(chat.id)} className="cursor-pointer">
+                <Tags className="mr-2 h-4 w-4" />
+                <span>Edit tags...</span>
+              </ContextMenuItem>
+              <ContextMenuSub>
+                <ContextMenuSubTrigger className="cursor-pointer">
+                  <FolderInput className="mr-2 h-4 w-4" />
+                  <span>Move to</span>
+                </ContextMenuSubTrigger>
+                <ContextMenuSubContent className="w-48">
+                  <ContextMenuItem onClick={() => onMoveChats([chat.id], null)} disabled={!chat.folderId} className="cursor-pointer">
+                    <span>Top level</span>
+                  </ContextMenuItem>
+                  {folders.length > 0 && <ContextMenuSeparator />}
+                  {folders.map(folder => (
+                    <ContextMenuItem
+                      key={folder.id}
+                      onClick={() => onMoveChats([chat.id], folder.id)}
+                      disabled={folder.id === chat.folderId}
+                      className="cursor-pointer"
+                    >
+                      <Folder className="mr-2 h-4 w-4 flex-shrink-0" />
+                      <span className="truncate">{getFolderPath(folder)}</span>
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+              <ContextMenuItem onClick={() => onSetChatsArchived([chat.id], true)} className="cursor-pointer">
+                <Archive className="mr-2 h-4 w-4" />
+                <span>Archive</span>
+              </ContextMenuItem>
+            </>
+          )}
+          <ContextMenuItem onClick={() => setExportChatIds([chat.id])} className="cursor-pointer">
+            <Download className="mr-2 h-4 w-4" />
+            <span>Export...</span>
+          </ContextMenuItem>
+          <ContextMenuItem 
+            onClick={() => openDeleteDialog([chat.id])}
+            className="cursor-pointer text-red-600 focus:bg-red-50 focus:text-red-700 dark:text-red-500 dark:focus:bg-red-900/20 dark:focus:text-red-400"
+           >
+            <Trash2 className="mr-2 h-4 w-4" />
+            <span>{view === 'archived' ? 'Delete permanently' : 'Delete'}</span>
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+      {/* Matched messages for the current search */}
+      {!isCollapsed && searchMatchesByChat.get(chat.id)?.map(match => (
+        <div key={match.messageId} className="pl-6 pr-1">
+          <button
+            type="button"
+            className="block w-full text-left px-2 py-1 text-xs leading-snug text-neutral-600 dark:text-neutral-400 border-l-2 border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200/60 dark:hover:bg-neutral-800 rounded-r-md line-clamp-2"
+            onClick={() => onSelectSearchResult(chat.id, match.messageId)}
+            title="Jump to message"
+          >
+            <span className="font-medium text-neutral-500 dark:text-neutral-500 mr-1">
+              {match.role === 'user' ? 'You:' : 'AI:'}
+            </span>
+            {match.snippet.map((segment, index) => segment.highlight ? (
+              <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+            ) : (
+              <React.Fragment key={index}>{segment.text}</React.Fragment>
+            ))}
+          </button>
+        </div>
+      ))}
+    </React.Fragment>
+  );
+
+  // A folder row and, when expanded, its subfolders and chats
+  const renderFolder = (folder: ChatFolder, depth: number): React.ReactNode => {
+    const isExpanded = expandedFolderIds.has(folder.id);
+    const subfolders = folders.filter(f => f.parentId === folder.id);
+    const folderChats = chatsByFolder.get(folder.id) ?? [];
+    return (
+      <React.Fragment key={folder.id}>
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <div
+              role="button"
+              aria-expanded={isExpanded}
+              className={cn(
+                "flex items-center w-full gap-1.5 p-2 rounded-md text-sm cursor-pointer text-neutral-700 dark:text-neutral-300",
+                "hover:bg-neutral-200/60 dark:hover:bg-neutral-800",
+                dropTargetId === folder.id && "bg-indigo-100 dark:bg-indigo-900/40 ring-1 ring-indigo-400"
+              )}
+              style={{ paddingLeft: 8 + depth * FOLDER_INDENT_PX }}
+              draggable
+              onDragStart={(e) => handleDragStart(e, DRAG_FOLDER_TYPE, folder.id)}
+              onDragEnd={handleDragEnd}
+              onDragOver={(e) => handleDragOver(e, folder.id)}
+              onDrop={(e) => handleDrop(e, folder.id)}
+              onClick={() => toggleFolder(folder.id)}
+            >
+              <ChevronRight className={cn("h-3.5 w-3.5 flex-shrink-0 text-neutral-400 transition-transform", isExpanded && "rotate-90")} />
+              {isExpanded
+                ? <FolderOpen className="h-4 w-4 flex-shrink-0 text-neutral-500 dark:text-neutral-400" />
+                : <Folder className="h-4 w-4 flex-shrink-0 text-neutral-500 dark:text-neutral-400" />}
+              <span className="flex-1 truncate font-medium">{folder.name}</span>
+              {folderChats.length > 0 && (
+                <span className="text-xs tabular-nums text-neutral-400 dark:text-neutral-500">{folderChats.length}</span>
+              )}
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent className="w-48">
+            <ContextMenuItem onClick={() => openFolderDialog({ mode: 'create', parentId: folder.id })} className="cursor-pointer">
+              <FolderPlus className="mr-2 h-4 w-4" />
+              <span>New subfolder...</span>
+            </ContextMenuItem>
+            <ContextMenuItem onClick={() => openFolderDialog({ mode: 'rename', folder })} className="cursor-pointer">
+              <Pencil className="mr-2 h-4 w-4" />
+              <span>Rename</span>
+            </ContextMenuItem>
+            {folder.parentId && (
+              <ContextMenuItem onClick={() => onMoveFolder(folder.id, null)} className="cursor-pointer">
+                <FolderInput className="mr-2 h-4 w-4" />
+                <span>Move to top level</span>
+              </ContextMenuItem>
+            )}
+            <ContextMenuSeparator />
+            <ContextMenuItem
+              onClick={() => onDeleteFolder(folder.id)}
+              className="cursor-pointer text-red-600 focus:bg-red-50 focus:text-red-700 dark:text-red-500 dark:focus:bg-red-900/20 dark:focus:text-red-400"
+              title="Chats and subfolders move up one level"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              <span>Delete folder</span>
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+        {isExpanded && (
+          <>
+            {subfolders.map(subfolder => renderFolder(subfolder, depth + 1))}
+            {folderChats.map(chat => renderChat(chat, depth + 1, folder.id))}
+            {subfolders.length === 0 && folderChats.length === 0 && (
+              <p
+                className="py-1 text-xs text-neutral-400 dark:text-neutral-500"
+                style={{ paddingLeft: 8 + (depth + 1) * FOLDER_INDENT_PX + 20 }}
+              >
+                Drag chats here
+              </p>
+            )}
+          </>
+        )}
+      </React.Fragment>
+    );
   };
 
   return (
@@ -207,6 +853,43 @@ export function ChatHistorySidebar({
             "flex-shrink-0", 
             isCollapsed ? "pt-3 md:pt-4 pb-2 flex justify-center" : "px-3 pt-3 md:pt-4 pb-3 border-b border-neutral-200 dark:border-neutral-800"
             )}>
+          {/* Workspace switcher */}
+          {!isCollapsed && (
+            <div className="flex items-center gap-1 mb-3">
+              <Select
+                value={organization.activeWorkspaceId}
+                onValueChange={(value) => (value === NEW_WORKSPACE_VALUE ? setWorkspaceDialog('new') : onSelectWorkspace(value))}
+              >
+                <SelectTrigger
+                  className="h-9 flex-1 min-w-0 text-sm font-medium bg-white dark:bg-neutral-900 border-neutral-300 dark:border-neutral-700 focus:ring-1 focus:ring-offset-0 focus:ring-indigo-500"
+                  aria-label="Workspace"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {organization.workspaces.map(workspace => (
+                    <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                  ))}
+                  <SelectItem value={NEW_WORKSPACE_VALUE}>
+                    <span className="flex items-center gap-1.5 text-neutral-600 dark:text-neutral-300">
+                      <Plus className="h-3.5 w-3.5" />
+                      New workspace...
+                    </span>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 flex-shrink-0 text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                onClick={() => activeWorkspace && setWorkspaceDialog(activeWorkspace)}
+                aria-label="Workspace settings"
+                title="Workspace settings"
+              >
+                <Settings2 size={16} />
+              </Button>
+            </div>
+          )}
            <TooltipProvider delayDuration={isCollapsed ? 100 : 500}>
             <Tooltip>
                <TooltipTrigger asChild>
@@ -234,7 +917,8 @@ export function ChatHistorySidebar({
                   <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-500 dark:text-neutral-400 pointer-events-none" />
                   <Input
                       type="text"
-                      placeholder="Filter chats..."
+                      placeholder="Search chats..."
+                      title={SEARCH_HELP}
                       className="w-full h-9 pl-8 pr-2 text-sm bg-white dark:bg-neutral-900 border-neutral-300 dark:border-neutral-700 focus-visible:ring-1 focus-visible:ring-offset-0 focus-visible:ring-indigo-500 rounded-md"
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
@@ -256,117 +940,224 @@ export function ChatHistorySidebar({
                   <SelectItem value="title">Title (A-Z)</SelectItem>
                 </SelectContent>
               </Select>
+              {/* Tag filter */}
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 max-h-16 overflow-y-auto" aria-label="Filter by tag">
+                  {allTags.map(tag => {
+                    const isActive = activeTagFilter.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTagFilter(tag)}
+                        aria-pressed={isActive}
+                        title={isActive ? `Stop filtering by "${tag}"` : `Only show chats tagged "${tag}"`}
+                      >
+                        <TagBadge
+                          tag={tag}
+                          tagColors={organization.tagColors}
+                          className={isActive ? "ring-1 ring-current" : "opacity-60 hover:opacity-100"}
+                        />
+                      </button>
+                    );
+                  })}
+                  {activeTagFilter.length > 0 && (
+                    <button
+                      type="button"
+                      className="text-[11px] text-indigo-600 dark:text-indigo-400 hover:underline"
+                      onClick={() => setTagFilter([])}
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              )}
+              {/* Import / Export */}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 h-8 text-xs gap-1.5 bg-white dark:bg-neutral-900 border-neutral-300 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300"
+                  onClick={() => importInputRef.current?.click()}
+                  title="Import chats from a JSON export"
+                >
+                  <Upload className="h-3.5 w-3.5" />
+                  Import
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 h-8 text-xs gap-1.5 bg-white dark:bg-neutral-900 border-neutral-300 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300"
+                  onClick={() => setExportChatIds(chats.filter(chat => !chat.isArchived).map(chat => chat.id))}
+                  disabled={chats.length === 0}
+                  title="Export chats as JSON, Markdown or HTML"
+                >
+                  <Download className="h-3.5 w-3.5" />
+                  Export
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImportFileChange}
+                />
+              </div>
+              {/* Chats / Archived tabs */}
+              <div className="flex items-center gap-1">
+                <div className="flex flex-1 rounded-md bg-neutral-200/70 dark:bg-neutral-900 p-0.5 text-xs">
+                  {(['active', 'archived'] as const).map(tab => (
+                    <button
+                      key={tab}
+                      type="button"
+                      className={cn(
+                        "flex-1 rounded px-2 py-1 font-medium transition-colors",
+                        view === tab
+                          ? "bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 shadow-sm"
+                          : "text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                      )}
+                      onClick={() => changeView(tab)}
+                    >
+                      {tab === 'active' ? 'Chats' : `Archived${archivedCount > 0 ? ` (${archivedCount})` : ''}`}
+                    </button>
+                  ))}
+                </div>
+                {view === 'active' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                    onClick={() => openFolderDialog({ mode: 'create', parentId: null })}
+                    aria-label="New folder"
+                    title="New folder"
+                  >
+                    <FolderPlus size={14} />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn(
+                    "h-7 w-7 text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200",
+                    isSelecting && "text-indigo-600 dark:text-indigo-400"
+                  )}
+                  onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                  aria-label={isSelecting ? "Cancel selection" : "Select chats"}
+                  title={isSelecting ? "Cancel selection" : "Select chats"}
+                >
+                  {isSelecting ? <X size={14} /> : <CheckSquare size={14} />}
+                </Button>
+              </div>
+              {/* Bulk action bar */}
+              {isSelecting && (
+                <div className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 p-1.5 space-y-1.5">
+                  <div className="flex items-center justify-between px-0.5 text-xs text-neutral-600 dark:text-neutral-300">
+                    <span>{selectedChats.length} selected</span>
+                    <button
+                      type="button"
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                      onClick={() => setSelectedIds(
+                        selectedChats.length === listedChats.length ? new Set() : new Set(listedChats.map(chat => chat.id))
+                      )}
+                    >
+                      {selectedChats.length === listedChats.length && listedChats.length > 0 ? 'Select none' : 'Select all'}
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {view === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 flex-1 text-neutral-600 dark:text-neutral-300"
+                        onClick={handleBulkPin}
+                        disabled={selectedChats.length === 0}
+                        aria-label={allSelectedPinned ? "Unpin selected" : "Pin selected"}
+                        title={allSelectedPinned ? "Unpin selected" : "Pin selected"}
+                      >
+                        {allSelectedPinned ? <PinOff size={14} /> : <Pin size={14} />}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 flex-1 text-neutral-600 dark:text-neutral-300"
+                      onClick={handleBulkArchive}
+                      disabled={selectedChats.length === 0}
+                      aria-label={view === 'active' ? "Archive selected" : "Restore selected"}
+                      title={view === 'active' ? "Archive selected" : "Restore selected"}
+                    >
+                      {view === 'active' ? <Archive size={14} /> : <ArchiveRestore size={14} />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 flex-1 text-neutral-600 dark:text-neutral-300"
+                      onClick={() => setExportChatIds(selectedChatIds)}
+                      disabled={selectedChats.length === 0}
+                      aria-label="Export selected"
+                      title="Export selected"
+                    >
+                      <Download size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 flex-1 text-neutral-600 hover:text-red-500 dark:text-neutral-300 dark:hover:text-red-400"
+                      onClick={() => openDeleteDialog(selectedChatIds)}
+                      disabled={selectedChats.length === 0}
+                      aria-label="Delete selected"
+                      title="Delete selected"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
 
         {/* History List */}
         <ScrollArea className={cn("flex-1", isCollapsed ? "px-2 py-2" : "px-2 py-2")}> 
-          <div className={cn("space-y-1", isCollapsed && "space-y-2")}>
-            {sortedChats.map((chat) => (
-              <ContextMenu key={chat.id}>
-                <TooltipProvider delayDuration={isCollapsed ? 100 : 500}>
-                  <Tooltip>
-                      <ContextMenuTrigger asChild>
-                        <div
-                          className={cn(
-                            "relative flex items-center w-full p-2 rounded-md text-sm font-medium cursor-pointer",
-                            "hover:bg-neutral-100 dark:hover:bg-neutral-800",
-                            currentChatId === chat.id
-                              ? "bg-neutral-200/60 dark:bg-neutral-800/80"
-                              : "bg-transparent hover:bg-neutral-100 dark:hover:bg-neutral-800",
-                            isCollapsed && "justify-center items-center p-0 w-9 h-9 mx-auto min-h-0 pr-0"
-                          )}
-                          onClick={() => !isCollapsed && onSelectChat(chat.id)}
-                          onContextMenu={(e) => isCollapsed && e.preventDefault()}
-                          title={isCollapsed ? chat.title : undefined}
-                          aria-label={isCollapsed ? chat.title : undefined}
-                        >
-                          {currentChatId === chat.id && !isCollapsed &&
-                            <div className="absolute left-0 top-1/2 -translate-y-1/2 h-4/6 w-[3px] bg-indigo-500 rounded-r-full"></div>
-                          }
-                          <MessageSquare className={cn("h-4 w-4 flex-shrink-0 text-neutral-500 dark:text-neutral-400", !isCollapsed && "mr-2")} />
-                          {!isCollapsed && (
-                            <div className="flex flex-col flex-grow overflow-hidden min-w-0 mr-1">
-                              <span className="truncate whitespace-nowrap overflow-hidden font-medium text-neutral-800 dark:text-neutral-200">
-                                { (chat.title || `Chat ${chat.id.substring(0, 4)}...`) }
-                              </span>
-                              <span className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5">
-                                {formatTimestamp(chat.lastUpdated)}
-                              </span>
-                            </div>
-                          )}
-                          {!isCollapsed && (
-                            <div className="flex items-center flex-shrink-0 space-x-0.5 ml-1">
-                                {/* Pin/Unpin Button (No Tooltip) */}
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className={cn(
-                                    "h-6 w-6 text-neutral-500 dark:text-neutral-400",
-                                    chat.isPinned
-                                      ? "text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
-                                      : "hover:text-neutral-700 dark:hover:text-neutral-200"
-                                  )}
-                                  onClick={(e) => { e.stopPropagation(); handleTogglePin(chat.id); }}
-                                  aria-label={chat.isPinned ? "Unpin chat" : "Pin chat"} // Use aria-label for accessibility
-                                  title={chat.isPinned ? "Unpin chat" : "Pin chat"} // Keep title for basic hover
-                                >
-                                  {chat.isPinned ? <PinOff size={14} /> : <Pin size={14} />}
-                                </Button>
-                                {/* Rename Button (No Tooltip) */}
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-6 w-6 text-neutral-500 hover:text-blue-500 dark:text-neutral-400 dark:hover:text-blue-400"
-                                  onClick={(e) => { e.stopPropagation(); openRenameDialog(chat.id, chat.title); }}
-                                  aria-label={`Rename chat "${chat.title}"`}
-                                  title={`Edit title for "${chat.title}"`}
-                                >
-                                  <Pencil size={14} />
-                                </Button>
-                                {/* Delete Button (No Tooltip) */}
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-6 w-6 text-neutral-500 hover:text-red-500 dark:text-neutral-400 dark:hover:text-red-400"
-                                  onClick={(e) => { e.stopPropagation(); openDeleteDialog(chat.id); }}
-                                  aria-label={`Delete chat "${chat.title}"`}
-                                  title={`Delete "${chat.title}"`}
-                                >
-                                  <Trash2 size={14} />
-                                </Button>
-                            </div>
-                          )}
-                        </div>
-                      </ContextMenuTrigger>
-                      {isCollapsed && <TooltipContent side="right"><p>{chat.title || `Chat ${chat.id.substring(0, 4)}...`}</p></TooltipContent>}
-                  </Tooltip>
-                </TooltipProvider>
-
-                <ContextMenuContent className="w-48">
-                  <ContextMenuItem onClick={() => handleTogglePin(chat.id)} className="cursor-pointer">
-                    {chat.isPinned ? (
-                        <><PinOff className="mr-2 h-4 w-4" /><span>Unpin</span></>
-                    ) : (
-                        <><Pin className="mr-2 h-4 w-4" /><span>Pin to top</span></>
-                    )}
-                  </ContextMenuItem>
-                  <ContextMenuItem onClick={() => openRenameDialog(chat.id, chat.title)} className="cursor-pointer">
-                    <Pencil className="mr-2 h-4 w-4" />
-                    <span>Rename</span>
-                  </ContextMenuItem>
-                  <ContextMenuItem 
-                    onClick={() => openDeleteDialog(chat.id)}
-                    className="cursor-pointer text-red-600 focus:bg-red-50 focus:text-red-700 dark:text-red-500 dark:focus:bg-red-900/20 dark:focus:text-red-400"
-                   >
-                    <Trash2 className="mr-2 h-4 w-4" />
-                    <span>Delete</span>
-                  </ContextMenuItem>
-                </ContextMenuContent>
-              </ContextMenu>
-            ))}
-            {chats.length > 0 && sortedChats.length === 0 && !isCollapsed && (
+          {/* With folders shown, the list itself is the drop target for the top level */}
+          <div
+            className={cn(
+              "space-y-1",
+              isCollapsed && "space-y-2",
+              showFolders && "min-h-32 pb-6 rounded-md",
+              dropTargetId === ROOT_DROP_TARGET && "ring-1 ring-inset ring-indigo-400/60"
+            )}
+            onDragOver={showFolders ? (e) => handleDragOver(e, null) : undefined}
+            onDrop={showFolders ? (e) => handleDrop(e, null) : undefined}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTargetId(null);
+            }}
+          >
+            {showFolders && rootFolders.map(folder => renderFolder(folder, 0))}
+            {sortedChats.map(chat => renderChat(chat))}
+            {hiddenChatCount > 0 && !isCollapsed && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full h-7 text-xs text-neutral-500 dark:text-neutral-400"
+                onClick={() => setDisplayLimit(limit => limit + MAX_CHATS_DISPLAYED)}
+              >
+                Show {Math.min(hiddenChatCount, MAX_CHATS_DISPLAYED)} more
+                <span className="ml-1 text-neutral-400 dark:text-neutral-500">({hiddenChatCount} hidden)</span>
+              </Button>
+            )}
+            {view === 'archived' && !searchTerm.trim() && sortedChats.length === 0 && !isCollapsed && (
+                <div className="flex flex-col items-center justify-center text-center pt-10 px-4">
+                  <Archive className="h-10 w-10 text-neutral-400 dark:text-neutral-600 mb-3" />
+                  <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400 mb-1">
+                    No Archived Chats
+                  </p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-500">
+                    Archive a chat from its context menu to keep it out of the main list.
+                  </p>
+                </div>
+            )}
+            {chats.length > 0 && !!searchTerm.trim() && sortedChats.length === 0 && !isCollapsed && (
                 <div className="flex flex-col items-center justify-center text-center pt-10 px-4">
                   <Search className="h-10 w-10 text-neutral-400 dark:text-neutral-600 mb-3" />
                   <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400 mb-1">
@@ -377,7 +1168,7 @@ export function ChatHistorySidebar({
                   </p>
                 </div>
             )}
-            {chats.length === 0 && !isCollapsed && (
+            {chats.length === 0 && view === 'active' && !isCollapsed && (
               <div className="flex flex-col items-center justify-center text-center pt-10 px-4">
                 <MessageSquare className="h-10 w-10 text-neutral-400 dark:text-neutral-600 mb-3" />
                 <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400 mb-1">
@@ -392,7 +1183,30 @@ export function ChatHistorySidebar({
         </ScrollArea>
 
         {/* Footer - Adjust button size for consistency */} 
-        <div className={cn("flex-shrink-0 mt-auto flex justify-center", isCollapsed ? "py-2" : "p-2 border-t border-neutral-200 dark:border-neutral-800")}> 
+        <div className={cn("flex-shrink-0 mt-auto flex flex-col items-center gap-2", isCollapsed ? "py-2" : "p-2 border-t border-neutral-200 dark:border-neutral-800")}> 
+          {/* Storage usage indicator */}
+          {!isCollapsed && storageUsage && (
+            <div
+              className="w-full px-1"
+              title={storageUsage.backend === 'indexedDB' ? "Chats are stored in IndexedDB" : "Chats are stored in localStorage"}
+            >
+              <div className="flex justify-between text-[11px] text-neutral-500 dark:text-neutral-400 mb-1">
+                <span>Storage</span>
+                <span>
+                  {formatBytes(storageUsage.usedBytes)}
+                  {storageUsage.quotaBytes !== null && ` of ${formatBytes(storageUsage.quotaBytes)}`}
+                </span>
+              </div>
+              {storageRatio !== null && (
+                <div className="h-1 w-full rounded-full bg-neutral-200 dark:bg-neutral-800 overflow-hidden">
+                  <div
+                    className={cn("h-full rounded-full", storageRatio >= STORAGE_WARNING_RATIO ? "bg-red-500" : "bg-indigo-500")}
+                    style={{ width: `${Math.max(storageRatio * 100, 1)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
           <TooltipProvider delayDuration={100}>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -454,13 +1268,89 @@ export function ChatHistorySidebar({
         </DialogContent>
       </Dialog>
 
+      {/* --- Folder Name Dialog --- */}
+      <Dialog open={folderDialog !== null} onOpenChange={(open) => !open && setFolderDialog(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{folderDialog?.mode === 'rename' ? 'Rename Folder' : 'New Folder'}</DialogTitle>
+            <DialogDescription>
+              {folderDialog?.mode === 'rename'
+                ? <>Enter a new name for the folder &quot;{folderDialog.folder.name}&quot;.</>
+                : folderDialog?.parentId
+                  ? <>Create a folder inside &quot;{folders.find(folder => folder.id === folderDialog.parentId)?.name}&quot;.</>
+                  : <>Create a folder in &quot;{activeWorkspace?.name}&quot;. Drag chats and folders onto it to move them.</>}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="folder-name" className="text-right">
+                Name
+              </Label>
+              <Input
+                id="folder-name"
+                value={folderNameInput}
+                onChange={(e) => setFolderNameInput(e.target.value)}
+                className="col-span-3"
+                placeholder="Folder name..."
+                maxLength={FOLDER_NAME_MAX_LENGTH}
+                onKeyDown={(e) => e.key === 'Enter' && confirmFolderDialog()}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="secondary">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button type="button" onClick={confirmFolderDialog} disabled={!folderNameInput.trim()}>
+              {folderDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* --- Tags Dialog (remounted per chat so it starts from that chat's tags) --- */}
+      <EditTagsDialog
+        key={tagsChatId ?? 'closed'}
+        chat={chats.find(chat => chat.id === tagsChatId) ?? null}
+        onOpenChange={(open) => !open && setTagsChatId(null)}
+        allTags={allTags}
+        tagColors={organization.tagColors}
+        onSave={onSetChatTags}
+        onSetTagColor={onSetTagColor}
+      />
+
+      {/* --- Workspace Dialog --- */}
+      <WorkspaceDialog
+        key={workspaceDialog === null || workspaceDialog === 'new' ? String(workspaceDialog) : workspaceDialog.id}
+        open={workspaceDialog !== null}
+        onOpenChange={(open) => !open && setWorkspaceDialog(null)}
+        workspace={workspaceDialog === 'new' ? null : workspaceDialog}
+        onSave={(settings) => (workspaceDialog === 'new' || workspaceDialog === null
+          ? onCreateWorkspace(settings)
+          : onUpdateWorkspace({ id: workspaceDialog.id, ...settings }))}
+        onDelete={onDeleteWorkspace}
+      />
+
+      {/* --- Export Dialog --- */}
+      <ExportChatsDialog
+        open={exportChatIds !== null}
+        onOpenChange={(open) => !open && setExportChatIds(null)}
+        chats={chats}
+        initialSelectedIds={exportChatIds ?? []}
+        onExport={onExportChats}
+      />
+
       {/* --- Delete Dialog --- */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Delete Chat</DialogTitle>
+            <DialogTitle>{chatsToDelete.length > 1 ? `Delete ${chatsToDelete.length} Chats` : 'Delete Chat'}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the chat &quot;{chatToDelete?.title}&quot;? This action cannot be undone.
+              {chatsToDelete.length > 1
+                ? `Are you sure you want to delete ${chatsToDelete.length} chats? You can undo this for a few seconds afterwards.`
+                : <>Are you sure you want to delete the chat &quot;{chatsToDelete[0]?.title}&quot;? You can undo this for a few seconds afterwards.</>}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="mt-4"> {/* Added margin top */} 
@@ -474,7 +1364,7 @@ export function ChatHistorySidebar({
                 variant="destructive" 
                 onClick={confirmDelete}
             >
-              Delete Chat
+              {chatsToDelete.length > 1 ? 'Delete Chats' : 'Delete Chat'}
             </Button>
           </DialogFooter>
         </DialogContent>
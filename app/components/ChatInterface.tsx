@@ -1,9 +1,16 @@
 'use client';
 
-import React, { useRef } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { type UseChatHelpers } from 'ai/react';
 import { MessageList } from './MessageList';
 import { ChatInput } from './chat-input/ChatInput';
+import { ChatHeader } from './ChatHeader';
+import type { ModelSettings } from '@/ai/models';
+import type { MentionItem, MentionProvider } from '@/lib/mentions';
+import type { ArtifactFile, ArtifactHistory, ArtifactScreenshot, ArtifactVersion } from '@/lib/artifacts';
+import type { CommandContext } from '@/lib/commands';
+import type { PromptLibrary } from '@/lib/prompt-library';
+import { estimateTokens, type AttachedFileState } from '@/lib/attachments';
 
 // Make sure AttachedFileState is defined or imported if needed elsewhere
 // If only used here, defining locally is fine.
@@ -20,48 +27,104 @@ interface PyExecutionResult {
 }
 
 // Define the props expected by ChatInterface
-interface ChatInterfaceProps extends Pick<UseChatHelpers, 'messages' | 'input' | 'handleInputChange' | 'handleSubmit' | 'isLoading' | 'stop' | 'append'> {
+interface ChatInterfaceProps extends Pick<UseChatHelpers, 'messages' | 'input' | 'handleInputChange' | 'isLoading' | 'stop' | 'append'> {
+  handleSubmit: (event?: React.FormEvent<HTMLFormElement> | { preventDefault?: () => void }, mentions?: MentionItem[]) => void;
+  mentionProviders: MentionProvider[];
   currentChatId: string | null;
   agentMode: 'normal' | 'think' | 'research';
   setAgentMode: React.Dispatch<React.SetStateAction<'normal' | 'think' | 'research'>>;
-  onClear: () => void;
-  onNewChat: () => void;
-  attachedFiles: { file: File; previewUrl: string | null }[];
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
+  // Persona picked in the header, built from the prompt library
+  personaId: string | undefined;
+  onPersonaChange: (personaId: string) => void;
+  promptLibrary: PromptLibrary;
+  onPromptLibraryChange: (library: PromptLibrary) => void;
+  // Message branching (edit / regenerate / switch between siblings)
+  branchSiblingIds: Map<string, string[]>;
+  onSwitchBranch: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  // Messages always kept when the chat is trimmed to the context window
+  pinnedMessageIds: string[];
+  onTogglePinMessage: (messageId: string) => void;
+  // What slash commands can read and do (new chat, clear, rename, model, ...)
+  commandContext: Omit<CommandContext, 'showHelp'>;
+  attachedFiles: AttachedFileState[];
   onAttachFiles: (files: FileList | File[]) => void;
   onRemoveFile: (index: number) => void;
   onRunPython?: (code: string, messageId: string) => void;
   pyExecutionResults?: Record<string, PyExecutionResult>;
+  highlightedMessageId?: string | null;
+  onHighlightHandled?: () => void;
+  // Posts an earlier version of an artifact again as its current one
+  onRestoreArtifactVersion?: (history: ArtifactHistory, version: ArtifactVersion) => void;
+  // Posts the files edited in an artifact viewer as its next version
+  onSaveArtifactEdits?: (history: ArtifactHistory, files: ArtifactFile[]) => void;
+  // Sends an artifact's files and errors to the model to repair it
+  onRequestArtifactFix?: (history: ArtifactHistory, files: ArtifactFile[], errors: string[]) => void;
+  // Attaches a screenshot of an artifact's preview to the next message
+  onArtifactScreenshot?: (screenshot: ArtifactScreenshot) => void;
 }
 
 export function ChatInterface({
   currentChatId,
   agentMode,
   setAgentMode,
+  modelSettings,
+  onModelSettingsChange,
+  personaId,
+  onPersonaChange,
+  promptLibrary,
+  onPromptLibraryChange,
   messages,
   input,
   handleInputChange,
   handleSubmit,
+  mentionProviders,
   isLoading,
   stop,
   append,
-  onClear,
-  onNewChat,
+  branchSiblingIds,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerateMessage,
+  pinnedMessageIds,
+  onTogglePinMessage,
+  commandContext,
   attachedFiles,
   onAttachFiles,
   onRemoveFile,
   onRunPython,
   pyExecutionResults,
+  highlightedMessageId,
+  onHighlightHandled,
+  onRestoreArtifactVersion,
+  onSaveArtifactEdits,
+  onRequestArtifactFix,
+  onArtifactScreenshot,
 }: ChatInterfaceProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Not sent yet, but counted in the token meter
+  const pendingTokens = useMemo(
+    () => estimateTokens(input) + attachedFiles.reduce((total, item) => total + (item.processed?.estimatedTokens ?? 0), 0),
+    [input, attachedFiles]
+  );
 
   return (
     <div className="flex flex-col h-full bg-neutral-100 dark:bg-neutral-800">
-      {/* ChatHeader component removed */}
-      {/* 
       <ChatHeader
-        onClear={onClear}
-      /> 
-      */}
+        messages={messages}
+        pendingTokens={pendingTokens}
+        pinnedMessageIds={pinnedMessageIds}
+        modelSettings={modelSettings}
+        onModelSettingsChange={onModelSettingsChange}
+        personaId={personaId}
+        onPersonaChange={onPersonaChange}
+        promptLibrary={promptLibrary}
+        onPromptLibraryChange={onPromptLibraryChange}
+        onClear={commandContext.clearChat}
+      />
 
       {/* Wrapper for MessageList */}
       <div className="flex-1 overflow-y-auto w-full">
@@ -71,9 +134,21 @@ export function ChatInterface({
             messages={messages}
             isLoading={isLoading}
             append={append}
+            branchSiblingIds={branchSiblingIds}
+            onSwitchBranch={onSwitchBranch}
+            onEditMessage={onEditMessage}
+            onRegenerateMessage={onRegenerateMessage}
+            pinnedMessageIds={pinnedMessageIds}
+            onTogglePinMessage={onTogglePinMessage}
             onRunPython={onRunPython}
             pyExecutionResults={pyExecutionResults}
             messagesEndRef={messagesEndRef}
+            highlightedMessageId={highlightedMessageId}
+            onHighlightHandled={onHighlightHandled}
+            onRestoreArtifactVersion={onRestoreArtifactVersion}
+            onSaveArtifactEdits={onSaveArtifactEdits}
+            onRequestArtifactFix={onRequestArtifactFix}
+            onArtifactScreenshot={onArtifactScreenshot}
           />
         </div>
       </div>
@@ -85,16 +160,18 @@ export function ChatInterface({
               currentChatId,
               agentMode,
               setAgentMode,
+              modelSettings,
+              onModelSettingsChange,
               value: input,
               onChange: handleInputChange,
               onSend: handleSubmit,
               isLoading,
               stop,
-              onClear,
-              onNewChat,
+              commandContext,
               attachedFiles,
               onAttachFiles,
-              onRemoveFile
+              onRemoveFile,
+              mentionProviders
             }}
         />
       </div>
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { normalizeTag } from '@/ai/chat-metadata';
+import { TAG_COLORS, getTagColor, type ChatHistoryItem, type TagColor } from '@/lib/storage';
+import { TagBadge, TAG_COLOR_CLASSES } from './TagBadge';
+
+interface EditTagsDialogProps {
+  // Chat whose tags are edited (null while the dialog is closed)
+  chat: ChatHistoryItem | null;
+  onOpenChange: (open: boolean) => void;
+  // Tags used by other chats, offered as suggestions
+  allTags: string[];
+  tagColors: Record<string, TagColor>;
+  onSave: (chatId: string, tags: string[]) => void;
+  onSetTagColor: (tag: string, color: TagColor) => void;
+}
+
+export function EditTagsDialog({ chat, onOpenChange, allTags, tagColors, onSave, onSetTagColor }: EditTagsDialogProps) {
+  // Starts from the chat's tags; the sidebar remounts the dialog for each chat
+  const [tags, setTags] = useState<string[]>(chat?.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) setTags(prev => [...prev, tag]);
+    setTagInput('');
+  };
+
+  const suggestions = allTags.filter(tag => !tags.includes(tag));
+
+  const handleSave = () => {
+    if (!chat) return;
+    // A tag still in the input counts too
+    const pending = normalizeTag(tagInput);
+    onSave(chat.id, pending && !tags.includes(pending) ? [...tags, pending] : tags);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={chat !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Tags</DialogTitle>
+          <DialogDescription>
+            Tags for &quot;{chat?.title}&quot;. Colors apply to the tag in every chat.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="tag-input">Add tag</Label>
+            <Input
+              id="tag-input"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="e.g. design-system"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {suggestions.map(tag => (
+                  <button key={tag} type="button" onClick={() => addTag(tag)} title={`Add "${tag}"`}>
+                    <TagBadge tag={tag} tagColors={tagColors} className="opacity-60 hover:opacity-100" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tags yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {tags.map(tag => (
+                <li key={tag} className="flex items-center justify-between gap-2">
+                  <TagBadge tag={tag} tagColors={tagColors} onRemove={() => setTags(prev => prev.filter(t => t !== tag))} />
+                  <div className="flex gap-1" role="radiogroup" aria-label={`Color of "${tag}"`}>
+                    {TAG_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        role="radio"
+                        aria-checked={getTagColor(tag, tagColors) === color}
+                        aria-label={color}
+                        title={color}
+                        className={cn(
+                          "h-3.5 w-3.5 rounded-full",
+                          TAG_COLOR_CLASSES[color].swatch,
+                          getTagColor(tag, tagColors) === color && "ring-2 ring-offset-1 ring-neutral-500 dark:ring-offset-neutral-950"
+                        )}
+                        onClick={() => onSetTagColor(tag, color)}
+                      />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CHAT_EXPORT_FORMATS, type ChatExportFormat } from '@/lib/chat-export';
+import type { ChatHistoryItem } from '@/lib/storage';
+
+interface ExportChatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chats: ChatHistoryItem[];
+  // Chats checked when the dialog opens
+  initialSelectedIds: string[];
+  onExport: (chatIds: string[], format: ChatExportFormat) => Promise<void>;
+}
+
+export function ExportChatsDialog({ open, onOpenChange, chats, initialSelectedIds, onExport }: ExportChatsDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<ChatExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Reset the selection each time the dialog opens
+  useEffect(() => {
+    if (open) setSelectedIds(new Set(initialSelectedIds));
+  }, [open, initialSelectedIds]);
+
+  const toggleChat = (chatId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = chats.length > 0 && selectedIds.size === chats.length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Keep the sidebar order in the exported file
+      await onExport(chats.filter(chat => selectedIds.has(chat.id)).map(chat => chat.id), format);
+      onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export Chats</DialogTitle>
+          <DialogDescription>
+            Choose the chats to export and a format. JSON exports can be imported again later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Chats ({selectedIds.size} selected)</Label>
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => setSelectedIds(allSelected ? new Set() : new Set(chats.map(chat => chat.id)))}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </Button>
+          </div>
+          <ScrollArea className="h-48 rounded-md border border-neutral-200 dark:border-neutral-800">
+            <div className="p-2 space-y-1">
+              {chats.map(chat => (
+                <label
+                  key={chat.id}
+                  className="flex items-center gap-2 px-2 py-1 rounded text-sm cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-indigo-500"
+                    checked={selectedIds.has(chat.id)}
+                    onChange={() => toggleChat(chat.id)}
+                  />
+                  <span className="truncate">{chat.title || `Chat ${chat.id.substring(0, 4)}...`}</span>
+                  {chat.isArchived && <span className="ml-auto text-[10px] text-neutral-500">Archived</span>}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="export-format" className="text-xs">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ChatExportFormat)}>
+              <SelectTrigger id="export-format" className="h-9 w-full text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CHAT_EXPORT_FORMATS) as ChatExportFormat[]).map(key => (
+                  <SelectItem key={key} value={key}>{CHAT_EXPORT_FORMATS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {CHAT_EXPORT_FORMATS[format].note && (
+              <p className="text-xs text-muted-foreground">{CHAT_EXPORT_FORMATS[format].note}</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-2">
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleExport} disabled={selectedIds.size === 0 || isExporting}>
+            {isExporting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,20 @@
 "use client";
-import React from 'react';
+import React, { useState } from 'react';
 import { type Message, type UseChatHelpers } from 'ai/react';
 import { MessageBubble } from './MessageBubble';
 import type { AppMessage, ContentType } from '../../lib/types';
-import { DateConfirmationComponent } from './workflows/date-confirmation';
-import { FlightOptionsComponent } from './workflows/flight-options';
-import { BookingConfirmationComponent } from './workflows/booking-confirmation';
+import { getWorkflowStepComponent } from './workflows';
+import { ReasoningSection } from './renderers/ReasoningSection';
+import { SourceCitations } from './renderers/SourceCitations';
+import { MessageAttachments } from './renderers/MessageAttachments';
 import { Skeleton } from './ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { Terminal, AlertCircle, Check, Loader, Clock } from 'lucide-react';
-import type { 
-  ConfirmDateResult, 
-  SelectFlightResult, 
-  ConfirmationResult 
-} from '@/chat/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Terminal, AlertCircle, Check, Loader, Clock, ChevronLeft, ChevronRight, Pencil, RefreshCw, Pin, PinOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { isWorkflowToolInvocationResult } from '@/chat/types';
+import { getAttachmentsFromMessageData } from '@/ai/attachments';
 
 // Re-add PyExecutionResult definition (or import if shared)
 interface PyExecutionResult {
@@ -28,6 +29,18 @@ interface MessageItemProps {
   onRunPython?: (code: string, messageId: string) => void;
   // Add the results prop
   pyExecutionResults?: Record<string, PyExecutionResult>;
+  // --- Branching: position among sibling versions and the actions that create new ones ---
+  branchIndex?: number;
+  branchCount?: number;
+  previousBranchId?: string;
+  nextBranchId?: string;
+  canModify?: boolean; // false while a response is streaming
+  onSwitchBranch?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  // Pinned messages are always sent, even when older messages no longer fit the context window
+  isPinned?: boolean;
+  onTogglePin?: (messageId: string) => void;
 }
 
 // Helper function to convert Message content to AppMessage ContentType
@@ -47,83 +60,6 @@ function WorkflowWrapper({ children }: { children: React.ReactNode }) {
   );
 }
 
-// --- Specific Prop Interfaces for Internal Step Components ---
-
-interface ConfirmDateStepProps {
-  key: string; 
-  workflowData: ConfirmDateResult; // Use specific type
-  toolCallId: string;
-  append: UseChatHelpers['append'];
-}
-
-interface SelectFlightStepProps {
-  key: string; 
-  workflowData: SelectFlightResult; // Use specific type
-  toolCallId: string;
-  append: UseChatHelpers['append'];
-}
-
-interface ConfirmationStepProps {
-   key: string;
-   workflowData: ConfirmationResult; // Use specific type
-}
-
-// --- Internal Step Components using Specific Props ---
-
-function ConfirmDateStep({ key, workflowData, toolCallId, append }: ConfirmDateStepProps) {
-  // Now workflowData is known to be ConfirmDateResult
-  return (
-    <WorkflowWrapper key={key}>
-      <DateConfirmationComponent
-        departureCity={workflowData.departureCity} // No need for ??
-        arrivalCity={workflowData.arrivalCity}     // No need for ??
-        targetDateString={workflowData.targetDateString} // No need for ??
-        toolCallId={toolCallId}
-        append={append}
-      />
-    </WorkflowWrapper>
-  );
-}
-ConfirmDateStep.displayName = 'ConfirmDateStep';
-
-function SelectFlightStep({ key, workflowData, toolCallId, append }: SelectFlightStepProps) {
-  // Now workflowData is known to be SelectFlightResult
-  return (
-    <WorkflowWrapper key={key}>
-      <FlightOptionsComponent
-        availableFlights={workflowData.availableFlights} // No need for ??
-        departureCity={workflowData.departureCity}      // No need for ??
-        arrivalCity={workflowData.arrivalCity}        // No need for ??
-        confirmedDate={workflowData.confirmedDate}      // No need for ??
-        toolCallId={toolCallId}
-        append={append}
-      />
-    </WorkflowWrapper>
-  );
-}
-SelectFlightStep.displayName = 'SelectFlightStep';
-
-// ConfirmationStep already had its own props, just ensure type is specific
-function ConfirmationStep({ key, workflowData }: ConfirmationStepProps) {
-  // Now workflowData is known to be ConfirmationResult
-  return (
-    <WorkflowWrapper key={key}>
-      {/* Check for properties directly */} 
-      {workflowData.bookingRef && workflowData.flightDetails ? (
-        <BookingConfirmationComponent
-          bookingRef={workflowData.bookingRef} // No need for ??
-          flightDetails={workflowData.flightDetails} // No need for ??
-        />
-      ) : (
-        <p className="text-sm text-red-600 dark:text-red-400">
-          Error displaying confirmation details.
-        </p>
-      )}
-    </WorkflowWrapper>
-  );
-}
-ConfirmationStep.displayName = 'ConfirmationStep';
-
 function UnknownStep({ key }: { key: string }) {
     return (
         <WorkflowWrapper key={key}>
@@ -135,17 +71,86 @@ function UnknownStep({ key }: { key: string }) {
 }
 UnknownStep.displayName = 'UnknownStep';
 
+// "< 2 / 3 >" switcher between edits of a user message or regenerations of a reply
+function BranchSwitcher({
+  branchIndex,
+  branchCount,
+  previousBranchId,
+  nextBranchId,
+  disabled,
+  onSwitchBranch,
+}: {
+  branchIndex: number;
+  branchCount: number;
+  previousBranchId?: string;
+  nextBranchId?: string;
+  disabled: boolean;
+  onSwitchBranch: (messageId: string) => void;
+}) {
+  return (
+    <div className="flex items-center text-xs text-neutral-500 dark:text-neutral-400">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || !previousBranchId}
+        onClick={() => previousBranchId && onSwitchBranch(previousBranchId)}
+        aria-label="Previous version"
+        title="Previous version"
+      >
+        <ChevronLeft size={14} />
+      </Button>
+      <span className="tabular-nums px-0.5">{branchIndex + 1} / {branchCount}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || !nextBranchId}
+        onClick={() => nextBranchId && onSwitchBranch(nextBranchId)}
+        aria-label="Next version"
+        title="Next version"
+      >
+        <ChevronRight size={14} />
+      </Button>
+    </div>
+  );
+}
+BranchSwitcher.displayName = 'BranchSwitcher';
+
 export function MessageItem({ 
   message, 
   append, 
   onRunPython, 
-  pyExecutionResults 
+  pyExecutionResults,
+  branchIndex = 0,
+  branchCount = 1,
+  previousBranchId,
+  nextBranchId,
+  canModify = true,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+  isPinned = false,
+  onTogglePin,
 }: MessageItemProps) {
   // Destructure only used properties
   const { id, role, content, createdAt } = message;
+  // Draft text while the user edits this message (null when not editing)
+  const [editDraft, setEditDraft] = useState<string | null>(null);
   
   if (role !== 'user' && role !== 'assistant') return null;
 
+  const submitEdit = () => {
+    if (editDraft === null || !editDraft.trim()) return;
+    if (editDraft.trim() !== content.trim()) onEdit?.(id, editDraft.trim());
+    setEditDraft(null);
+  };
+
+  const showBranchSwitcher = branchCount > 1 && !!onSwitchBranch;
+  const canEdit = role === 'user' && !!onEdit;
+  const canRegenerate = role === 'assistant' && !!onRegenerate;
+  const canPin = !!onTogglePin;
+
   // Create the AppMessage structure required by MessageBubble
   const appMessage: AppMessage = {
     id: id,
@@ -157,6 +162,14 @@ export function MessageItem({
   // Get execution results for this specific message
   const executionResult = pyExecutionResults?.[id];
 
+  // Reasoning (think mode) and cited sources (research mode) streamed as message parts
+  const reasoningText = message.parts
+    ?.map(part => (part.type === 'reasoning' ? part.reasoning : ''))
+    .join('') ?? '';
+  const sources = message.parts?.flatMap(part => (part.type === 'source' ? [part.source] : [])) ?? [];
+  // Files sent with a user message (their text isn't part of the content)
+  const attachments = role === 'user' ? getAttachmentsFromMessageData(message.data) : [];
+
   // Determine icon based on status
   let StatusIconComponent: React.FC | null = null; // Store the component type
   let statusColor: "destructive" | "default" = "default"; // Initialize with correct type
@@ -199,7 +212,98 @@ export function MessageItem({
       {/* ... (Avatar rendering remains the same) ... */}
 
       <div className="flex flex-col flex-1 space-y-1 min-w-0"> {/* Ensure flex-col and min-w-0 */}
-        <MessageBubble message={appMessage} onRunPython={onRunPython}/>
+        {role === 'assistant' && <ReasoningSection reasoning={reasoningText} messageId={id} />}
+
+        {editDraft !== null ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editDraft}
+              onChange={(e) => setEditDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === 'Escape') {
+                  setEditDraft(null);
+                }
+              }}
+              className="min-h-[80px] text-sm bg-white dark:bg-neutral-900"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setEditDraft(null)}>Cancel</Button>
+              <Button size="sm" onClick={submitEdit} disabled={!editDraft.trim() || !canModify}>Send</Button>
+            </div>
+          </div>
+        ) : (
+          // File-only messages have no text to show
+          (content.trim() || attachments.length === 0) && <MessageBubble message={appMessage} onRunPython={onRunPython}/>
+        )}
+
+        {role === 'user' && <MessageAttachments attachments={attachments} images={message.experimental_attachments} />}
+
+        {/* Branch switcher and edit / regenerate / pin actions (shown on hover unless there are branches or a pin) */}
+        {editDraft === null && (showBranchSwitcher || canEdit || canRegenerate || canPin) && (
+          <div
+            className={cn(
+              "flex items-center gap-0.5 transition-opacity",
+              role === 'assistant' && "ml-10 md:ml-11",
+              !showBranchSwitcher && !isPinned && "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+            )}
+          >
+            {showBranchSwitcher && (
+              <BranchSwitcher
+                branchIndex={branchIndex}
+                branchCount={branchCount}
+                previousBranchId={previousBranchId}
+                nextBranchId={nextBranchId}
+                disabled={!canModify}
+                onSwitchBranch={onSwitchBranch}
+              />
+            )}
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-neutral-500 dark:text-neutral-400"
+                disabled={!canModify}
+                onClick={() => setEditDraft(content)}
+                aria-label="Edit message"
+                title="Edit message"
+              >
+                <Pencil size={13} />
+              </Button>
+            )}
+            {canRegenerate && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-neutral-500 dark:text-neutral-400"
+                disabled={!canModify}
+                onClick={() => onRegenerate(id)}
+                aria-label="Regenerate response"
+                title="Regenerate response"
+              >
+                <RefreshCw size={13} />
+              </Button>
+            )}
+            {canPin && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("h-6 w-6", isPinned ? "text-amber-600 dark:text-amber-400" : "text-neutral-500 dark:text-neutral-400")}
+                onClick={() => onTogglePin(id)}
+                aria-label={isPinned ? "Unpin message" : "Pin message"}
+                aria-pressed={isPinned}
+                title={isPinned ? "Unpin message" : "Pin message (always keep it in the context)"}
+              >
+                {isPinned ? <PinOff size={13} /> : <Pin size={13} />}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {role === 'assistant' && <SourceCitations sources={sources} />}
 
         {/* Render Python Execution Results using Alert */}
         {executionResult && executionResult.status !== 'idle' && (
@@ -245,52 +349,21 @@ export function MessageItem({
           if (part.type === 'tool-invocation' && part.toolInvocation.state === 'result') {
             const { toolCallId, result: workflowData /*, toolName*/ } = part.toolInvocation;
             
-            // Ensure workflowData is an object and has workflowStep before proceeding
-            if (typeof workflowData === 'object' && workflowData !== null && 'workflowStep' in workflowData && typeof workflowData.workflowStep === 'string') {
-                
-                const uniqueKey = `${id}-part-${toolCallId}-${idx}`; 
-                
-                // Cast workflowData initially to access workflowStep safely
-                const potentialWorkflowData = workflowData as { workflowStep: string, [key: string]: unknown };
+            // Ensure workflowData is a workflow step result before proceeding
+            if (isWorkflowToolInvocationResult(workflowData)) {
+                const uniqueKey = `${id}-part-${toolCallId}-${idx}`;
 
-                // Use if/else if with explicit type assertions on the workflowData object
-                if (potentialWorkflowData.workflowStep === 'confirmDate') {
-                  // Assert workflowData is ConfirmDateResult with fallbacks
-                  const confirmedData = workflowData as ConfirmDateResult;
-                  return <ConfirmDateStep 
-                            key={uniqueKey} 
-                            workflowData={confirmedData}
-                            toolCallId={toolCallId} 
-                            append={append} 
-                         />;
-                } else if (potentialWorkflowData.workflowStep === 'selectFlight') {
-                  // Assert workflowData is SelectFlightResult with fallbacks
-                  const flightData = workflowData as SelectFlightResult;
-                  return <SelectFlightStep 
-                            key={uniqueKey} 
-                            workflowData={flightData}
-                            toolCallId={toolCallId} 
-                            append={append} 
-                         />;
-                } else if (potentialWorkflowData.workflowStep === 'confirmation') {
-                  // Assert workflowData is ConfirmationResult with fallbacks
-                  const bookingData = workflowData as ConfirmationResult;
-                  // Define the default structure for flightDetails
-                  const defaultFlightDetails = { id: '', departureCity: '', arrivalCity: '', confirmedDate: '', price: 0, airline: '' };
-                  return <ConfirmationStep 
-                            key={uniqueKey} 
-                            workflowData={{
-                              ...bookingData,
-                              bookingRef: bookingData.bookingRef ?? '',
-                              // Reinstate nullish coalescing with the default object
-                              flightDetails: bookingData.flightDetails ?? defaultFlightDetails
-                            }}
-                         />;
-                } else {
-                  // Handle unknown workflow steps if necessary
-                  console.warn("Unknown workflow step:", potentialWorkflowData.workflowStep);
+                // Step UI comes from the workflow registry (app/components/workflows)
+                const StepComponent = getWorkflowStepComponent(workflowData);
+                if (!StepComponent) {
+                  console.warn("Unknown workflow step:", workflowData.workflowId, workflowData.workflowStep);
                   return <UnknownStep key={uniqueKey} />;
                 }
+                return (
+                  <WorkflowWrapper key={uniqueKey}>
+                    <StepComponent data={workflowData} toolCallId={toolCallId} append={append} />
+                  </WorkflowWrapper>
+                );
             } else {
                  // Render a placeholder or log if workflowData is not the expected shape
                 console.warn("Tool invocation result is not a valid workflow object:", workflowData);
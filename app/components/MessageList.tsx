@@ -1,16 +1,15 @@
 "use client";
-import React, { RefObject, useRef, useEffect } from 'react';
+import React, { RefObject, useRef, useEffect, useMemo, useState } from 'react';
 import { Message, type UseChatHelpers } from 'ai/react';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Skeleton } from './ui/skeleton';
 import { MemoizedMessageItem } from './MessageItem';
 import { isUserActionData } from '../chat/types';
 import { ArtifactViewer } from './renderers/ArtifactViewer';
+import { cn } from '@/lib/utils';
+import { buildArtifactHistories, type ArtifactFile, type ArtifactHistory, type ArtifactScreenshot, type ArtifactVersion } from '@/lib/artifacts';
 
-function extractArtifactCode(content: string): string | null {
-  const match = content.match(/```artifact\s*\n([\s\S]*?)\s*\n```/i);
-  return match ? match[1].trim() : null;
-}
+const HIGHLIGHT_DURATION_MS = 2500; // How long a message jumped to from search stays highlighted
 
 interface PyExecutionResult {
   status: 'idle' | 'loading' | 'queued' | 'executing' | 'executed' | 'error';
@@ -22,48 +21,130 @@ interface MessageListProps {
   messages: Message[];
   isLoading: boolean;
   append: UseChatHelpers['append'];
+  // Ids of each message's siblings (itself included); more than one means it has other branches
+  branchSiblingIds: Map<string, string[]>;
+  onSwitchBranch: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  pinnedMessageIds: string[];
+  onTogglePinMessage: (messageId: string) => void;
   onRunPython?: (code: string, messageId: string) => void;
   pyExecutionResults?: Record<string, PyExecutionResult>;
   messagesEndRef: RefObject<HTMLDivElement | null>;
+  // Message selected from the sidebar search; cleared via onHighlightHandled once scrolled to
+  highlightedMessageId?: string | null;
+  onHighlightHandled?: () => void;
+  onRestoreArtifactVersion?: (history: ArtifactHistory, version: ArtifactVersion) => void;
+  onSaveArtifactEdits?: (history: ArtifactHistory, files: ArtifactFile[]) => void;
+  onRequestArtifactFix?: (history: ArtifactHistory, files: ArtifactFile[], errors: string[]) => void;
+  onArtifactScreenshot?: (screenshot: ArtifactScreenshot) => void;
 }
 
-export function MessageList({ messages, isLoading, append, onRunPython, pyExecutionResults, messagesEndRef }: MessageListProps) {
+export function MessageList({
+  messages,
+  isLoading,
+  append,
+  branchSiblingIds,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerateMessage,
+  pinnedMessageIds,
+  onTogglePinMessage,
+  onRunPython,
+  pyExecutionResults,
+  messagesEndRef,
+  highlightedMessageId,
+  onHighlightHandled,
+  onRestoreArtifactVersion,
+  onSaveArtifactEdits,
+  onRequestArtifactFix,
+  onArtifactScreenshot,
+}: MessageListProps) {
   const nonActionMessages = messages.filter(
     m => !(m.role === 'user' && isUserActionData(m.data))
   );
 
+  // Each artifact's viewer goes below the message with its latest version (not the one still streaming)
+  const latestArtifactHistories = useMemo(() => {
+    const histories = buildArtifactHistories(isLoading ? messages.slice(0, -1) : messages);
+    return new Map([...histories.values()].map(history => [history.versions[history.versions.length - 1].messageId, history]));
+  }, [messages, isLoading]);
+
   const messagesEndRefInternal = useRef<HTMLDivElement>(null);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+
+  // Jump to the searched message once it is rendered (a newly selected chat may still be loading)
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const element = document.getElementById(`message-${highlightedMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashMessageId(highlightedMessageId);
+    onHighlightHandled?.();
+  }, [highlightedMessageId, messages, onHighlightHandled]);
+
+  useEffect(() => {
+    if (!flashMessageId) return;
+    const timer = setTimeout(() => setFlashMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [flashMessageId]);
 
   useEffect(() => {
+    // Don't override a jump to a searched message (clearing the highlight must not re-run this)
+    if (highlightedMessageId) return;
     // Restore original scrollIntoView logic
     const targetRef = messagesEndRef?.current ? messagesEndRef : messagesEndRefInternal;
     targetRef.current?.scrollIntoView({ behavior: 'smooth' });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [messages, messagesEndRef]); // Add messagesEndRef here
 
   return (
     <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4 md:space-y-6 scrollbar-thin scrollbar-thumb-neutral-300 dark:scrollbar-thumb-neutral-600 scrollbar-track-transparent">
       {/* Revert to single map structure */}
-      {nonActionMessages.map((m, index) => {
+      {nonActionMessages.map((m) => {
         // Calculate conditions first
-        const isLastMessage = index === nonActionMessages.length - 1;
-        const isAssistant = m.role === 'assistant';
-        const extractedCode = extractArtifactCode(m.content); // Extract only once
+        const artifactHistory = latestArtifactHistories.get(m.id);
 
-        // Determine if artifact should be rendered
-        const shouldRenderArtifact = isAssistant && !isLoading && isLastMessage && !!extractedCode;
+        // Position among alternative versions of this message
+        const siblingIds = branchSiblingIds.get(m.id) ?? [m.id];
+        const branchIndex = Math.max(0, siblingIds.indexOf(m.id));
 
         return (
           <React.Fragment key={m.id}>
-            <MemoizedMessageItem
-              message={m}
-              append={append}
-              onRunPython={onRunPython}
-              pyExecutionResults={pyExecutionResults}
-            />
-            {/* Render ArtifactViewer conditionally based on calculated artifactCode and the restored condition */}
-            {shouldRenderArtifact && extractedCode && (
+            <div
+              id={`message-${m.id}`}
+              className={cn(
+                "rounded-lg transition-shadow duration-500",
+                flashMessageId === m.id && "ring-2 ring-yellow-400 dark:ring-yellow-500 ring-offset-4 ring-offset-neutral-100 dark:ring-offset-neutral-800"
+              )}
+            >
+              <MemoizedMessageItem
+                message={m}
+                append={append}
+                onRunPython={onRunPython}
+                pyExecutionResults={pyExecutionResults}
+                branchIndex={branchIndex}
+                branchCount={siblingIds.length}
+                previousBranchId={siblingIds[branchIndex - 1]}
+                nextBranchId={siblingIds[branchIndex + 1]}
+                canModify={!isLoading}
+                onSwitchBranch={onSwitchBranch}
+                onEdit={onEditMessage}
+                onRegenerate={onRegenerateMessage}
+                isPinned={pinnedMessageIds.includes(m.id)}
+                onTogglePin={onTogglePinMessage}
+              />
+            </div>
+            {artifactHistory && (
               <div className="ml-10 md:ml-11 mt-2 mb-2">
-                <ArtifactViewer code={extractedCode} />
+                <ArtifactViewer
+                  files={artifactHistory.versions[artifactHistory.versions.length - 1].files}
+                  history={artifactHistory}
+                  onRestoreVersion={isLoading ? undefined : onRestoreArtifactVersion}
+                  onSaveEdits={isLoading ? undefined : onSaveArtifactEdits}
+                  onRequestFix={isLoading ? undefined : onRequestArtifactFix}
+                  onCaptureScreenshot={onArtifactScreenshot}
+                />
               </div>
             )}
           </React.Fragment>
@@ -0,0 +1,442 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Copy, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { estimateTokens } from '@/ai/context';
+import {
+  MAX_PERSONA_FRAGMENTS,
+  MAX_PROMPT_FRAGMENT_LENGTH,
+  PROMPT_FRAGMENT_KINDS,
+  PROMPT_FRAGMENT_KIND_LABELS,
+  assembleSystemPrompt,
+  isBuiltInPromptItem,
+  type PromptFragment,
+  type PromptFragmentKind,
+  type PromptPersona,
+} from '@/ai/prompt-library';
+import {
+  deleteFragment,
+  deletePersona,
+  getAllPersonas,
+  getAllPromptFragments,
+  getFragmentUsers,
+  restoreFragmentVersion,
+  restorePersonaVersion,
+  saveFragment,
+  savePersona,
+  type PromptLibrary,
+} from '@/lib/prompt-library';
+
+type LibraryTab = 'personas' | 'fragments';
+
+// Selected list entry; null while a new item is being written
+type Selection = { tab: LibraryTab; id: string | null };
+
+interface PromptLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  library: PromptLibrary;
+  onLibraryChange: (library: PromptLibrary) => void;
+  // Persona of the current chat
+  activePersonaId: string;
+  onSelectPersona: (personaId: string) => void;
+}
+
+function formatSavedAt(timestamp: number): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'built-in';
+}
+
+// Version label plus a select for restoring one of the kept versions
+function VersionHistory({ version, updatedAt, history, onRestore }: {
+  version: number;
+  updatedAt: number;
+  history: { version: number; updatedAt: number }[];
+  onRestore: (version: number) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+      <span>Version {version} · saved {formatSavedAt(updatedAt)}</span>
+      {history.length > 0 && (
+        <Select value="" onValueChange={(value) => onRestore(Number(value))}>
+          <SelectTrigger className="h-7 w-44 text-xs">
+            <SelectValue placeholder="Restore a version..." />
+          </SelectTrigger>
+          <SelectContent>
+            {history.map(entry => (
+              <SelectItem key={entry.version} value={String(entry.version)} className="text-xs">
+                v{entry.version} · {formatSavedAt(entry.updatedAt)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+function PersonaEditor({ persona, library, isActive, onSave, onDuplicate, onDelete, onRestore, onSelect }: {
+  persona: PromptPersona | null;
+  library: PromptLibrary;
+  isActive: boolean;
+  onSave: (draft: Pick<PromptPersona, 'name' | 'description' | 'fragmentIds'>) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onRestore: (version: number) => void;
+  onSelect: () => void;
+}) {
+  const readOnly = !!persona && isBuiltInPromptItem(persona.id);
+  const [name, setName] = useState(persona?.name ?? '');
+  const [description, setDescription] = useState(persona?.description ?? '');
+  const [fragmentIds, setFragmentIds] = useState<string[]>(persona?.fragmentIds ?? []);
+
+  const fragments = getAllPromptFragments(library);
+  const available = fragments.filter(fragment => !fragmentIds.includes(fragment.id));
+  const preview = assembleSystemPrompt({ id: '', name, description, fragmentIds, version: 1, updatedAt: 0 }, fragments);
+  const isDirty = !persona || name !== persona.name || description !== persona.description || fragmentIds.join() !== persona.fragmentIds.join();
+
+  const moveFragment = (index: number, offset: number) => {
+    setFragmentIds(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {persona && (
+        <VersionHistory
+          version={persona.version}
+          updatedAt={persona.updatedAt}
+          history={library.personaHistory[persona.id] ?? []}
+          onRestore={onRestore}
+        />
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="persona-name">Name</Label>
+          <Input id="persona-name" value={name} onChange={(e) => setName(e.target.value)} disabled={readOnly} placeholder="e.g. Vue Reviewer" />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="persona-description">Description</Label>
+          <Input id="persona-description" value={description} onChange={(e) => setDescription(e.target.value)} disabled={readOnly} />
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label>Fragments (joined in this order)</Label>
+        {fragmentIds.length === 0 && <p className="text-xs text-muted-foreground">No fragments yet.</p>}
+        <ul className="space-y-1">
+          {fragmentIds.map((id, index) => {
+            const fragment = fragments.find(f => f.id === id);
+            return (
+              <li key={id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+                <span className="flex-1 truncate">{fragment?.name ?? `Missing fragment (${id})`}</span>
+                {fragment && <span className="text-xs text-muted-foreground">{PROMPT_FRAGMENT_KIND_LABELS[fragment.kind]}</span>}
+                {!readOnly && (
+                  <>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => moveFragment(index, -1)} aria-label="Move up">
+                      <ArrowUp size={12} />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === fragmentIds.length - 1} onClick={() => moveFragment(index, 1)} aria-label="Move down">
+                      <ArrowDown size={12} />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setFragmentIds(prev => prev.filter(f => f !== id))} aria-label="Remove fragment">
+                      <X size={12} />
+                    </Button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {!readOnly && available.length > 0 && fragmentIds.length < MAX_PERSONA_FRAGMENTS && (
+          <Select value="" onValueChange={(id) => setFragmentIds(prev => [...prev, id])}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Add a fragment..." />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(fragment => (
+                <SelectItem key={fragment.id} value={fragment.id} className="text-xs">
+                  {fragment.name} <span className="text-muted-foreground">· {PROMPT_FRAGMENT_KIND_LABELS[fragment.kind]}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        <Label>System prompt preview (~{estimateTokens(preview).toLocaleString()} tokens)</Label>
+        <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">{preview || '(empty)'}</pre>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {persona && (
+            <Button type="button" variant="outline" size="sm" onClick={onDuplicate}>
+              <Copy className="mr-1.5 h-3.5 w-3.5" /> Duplicate
+            </Button>
+          )}
+          {persona && !readOnly && (
+            <Button type="button" variant="ghost" size="sm" className="text-red-600 hover:text-red-700 dark:text-red-500" onClick={onDelete}>
+              <Trash2 className="mr-1.5 h-3.5 w-3.5" /> Delete
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {persona && (
+            <Button type="button" variant="outline" size="sm" onClick={onSelect} disabled={isActive}>
+              {isActive ? <><Check className="mr-1.5 h-3.5 w-3.5" /> Used in this chat</> : 'Use in this chat'}
+            </Button>
+          )}
+          {!readOnly && (
+            <Button type="button" size="sm" disabled={!name.trim() || !isDirty} onClick={() => onSave({ name: name.trim(), description: description.trim(), fragmentIds })}>
+              {persona ? 'Save new version' : 'Create persona'}
+            </Button>
+          )}
+        </div>
+      </div>
+      {readOnly && <p className="text-xs text-muted-foreground">Built-in personas are read-only. Duplicate one to customize it.</p>}
+    </div>
+  );
+}
+
+function FragmentEditor({ fragment, library, onSave, onDuplicate, onDelete, onRestore }: {
+  fragment: PromptFragment | null;
+  library: PromptLibrary;
+  onSave: (draft: Pick<PromptFragment, 'name' | 'kind' | 'content'>) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onRestore: (version: number) => void;
+}) {
+  const readOnly = !!fragment && isBuiltInPromptItem(fragment.id);
+  const [name, setName] = useState(fragment?.name ?? '');
+  const [kind, setKind] = useState<PromptFragmentKind>(fragment?.kind ?? 'custom');
+  const [content, setContent] = useState(fragment?.content ?? '');
+
+  const users = fragment ? getFragmentUsers(library, fragment.id) : [];
+  const isDirty = !fragment || name !== fragment.name || kind !== fragment.kind || content !== fragment.content;
+
+  return (
+    <div className="space-y-4">
+      {fragment && (
+        <VersionHistory
+          version={fragment.version}
+          updatedAt={fragment.updatedAt}
+          history={library.fragmentHistory[fragment.id] ?? []}
+          onRestore={onRestore}
+        />
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="fragment-name">Name</Label>
+          <Input id="fragment-name" value={name} onChange={(e) => setName(e.target.value)} disabled={readOnly} placeholder="e.g. Vue conventions" />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="fragment-kind">Kind</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as PromptFragmentKind)} disabled={readOnly}>
+            <SelectTrigger id="fragment-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROMPT_FRAGMENT_KINDS.map(option => (
+                <SelectItem key={option} value={option}>{PROMPT_FRAGMENT_KIND_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="fragment-content">
+          Content (~{estimateTokens(content).toLocaleString()} tokens)
+        </Label>
+        <Textarea
+          id="fragment-content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          readOnly={readOnly}
+          maxLength={MAX_PROMPT_FRAGMENT_LENGTH}
+          rows={12}
+          className="font-mono text-xs"
+        />
+      </div>
+      {users.length > 0 && (
+        <p className="text-xs text-muted-foreground">Used by: {users.map(persona => persona.name).join(', ')}</p>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {fragment && (
+            <Button type="button" variant="outline" size="sm" onClick={onDuplicate}>
+              <Copy className="mr-1.5 h-3.5 w-3.5" /> Duplicate
+            </Button>
+          )}
+          {fragment && !readOnly && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-700 dark:text-red-500"
+              onClick={onDelete}
+              disabled={users.length > 0}
+              title={users.length > 0 ? 'Remove it from the personas that use it first' : undefined}
+            >
+              <Trash2 className="mr-1.5 h-3.5 w-3.5" /> Delete
+            </Button>
+          )}
+        </div>
+        {!readOnly && (
+          <Button type="button" size="sm" disabled={!name.trim() || !content.trim() || !isDirty} onClick={() => onSave({ name: name.trim(), kind, content })}>
+            {fragment ? 'Save new version' : 'Create fragment'}
+          </Button>
+        )}
+      </div>
+      {readOnly && <p className="text-xs text-muted-foreground">Built-in fragments are read-only. Duplicate one to customize it.</p>}
+    </div>
+  );
+}
+
+// Settings dialog for the prompt library: personas and the fragments they are built from
+export function PromptLibraryDialog({ open, onOpenChange, library, onLibraryChange, activePersonaId, onSelectPersona }: PromptLibraryDialogProps) {
+  const [selection, setSelection] = useState<Selection>({ tab: 'personas', id: activePersonaId });
+
+  const personas = getAllPersonas(library);
+  const fragments = getAllPromptFragments(library);
+  const items: (PromptPersona | PromptFragment)[] = selection.tab === 'personas' ? personas : fragments;
+  const selectedPersona = selection.tab === 'personas' ? personas.find(persona => persona.id === selection.id) ?? null : null;
+  const selectedFragment = selection.tab === 'fragments' ? fragments.find(fragment => fragment.id === selection.id) ?? null : null;
+  const selected = selectedPersona ?? selectedFragment;
+
+  const handleSavePersona = (draft: Pick<PromptPersona, 'name' | 'description' | 'fragmentIds'>) => {
+    const result = savePersona(library, { ...draft, id: selectedPersona?.id });
+    onLibraryChange(result.library);
+    setSelection({ tab: 'personas', id: result.persona.id });
+  };
+
+  const handleSaveFragment = (draft: Pick<PromptFragment, 'name' | 'kind' | 'content'>) => {
+    const result = saveFragment(library, { ...draft, id: selectedFragment?.id });
+    onLibraryChange(result.library);
+    setSelection({ tab: 'fragments', id: result.fragment.id });
+  };
+
+  // Copies start at version 1 with their own history
+  const handleDuplicatePersona = (persona: PromptPersona) => {
+    const result = savePersona(library, { name: `${persona.name} (copy)`, description: persona.description, fragmentIds: persona.fragmentIds });
+    onLibraryChange(result.library);
+    setSelection({ tab: 'personas', id: result.persona.id });
+  };
+
+  const handleDuplicateFragment = (fragment: PromptFragment) => {
+    const result = saveFragment(library, { name: `${fragment.name} (copy)`, kind: fragment.kind, content: fragment.content });
+    onLibraryChange(result.library);
+    setSelection({ tab: 'fragments', id: result.fragment.id });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Prompt Library</DialogTitle>
+          <DialogDescription>
+            Personas are built from reusable fragments and picked per chat. Saving keeps the previous version, so it can be restored.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-4 min-h-[420px]">
+          <div className="w-52 flex-shrink-0 flex flex-col gap-2">
+            <div className="flex rounded-md bg-muted p-0.5 text-xs">
+              {(['personas', 'fragments'] as const).map(tab => (
+                <button
+                  key={tab}
+                  type="button"
+                  className={cn(
+                    "flex-1 rounded px-2 py-1 font-medium capitalize transition-colors",
+                    selection.tab === tab ? "bg-background shadow-sm" : "text-muted-foreground hover:text-foreground"
+                  )}
+                  onClick={() => setSelection({ tab, id: tab === 'personas' ? activePersonaId : fragments[0]?.id ?? null })}
+                >
+                  {tab}
+                </button>
+              ))}
+            </div>
+            <ScrollArea className="flex-1 max-h-[360px]">
+              <ul className="space-y-0.5 pr-2">
+                {items.map(item => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      className={cn(
+                        "w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                        selection.id === item.id && "bg-muted font-medium"
+                      )}
+                      onClick={() => setSelection({ tab: selection.tab, id: item.id })}
+                    >
+                      <span className="block truncate">{item.name}</span>
+                      <span className="block text-[11px] text-muted-foreground">
+                        {isBuiltInPromptItem(item.id) ? 'Built-in' : `v${item.version}`}
+                        {item.id === activePersonaId && ' · this chat'}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <Button type="button" variant="outline" size="sm" onClick={() => setSelection({ tab: selection.tab, id: null })}>
+              <Plus className="mr-1.5 h-3.5 w-3.5" /> New {selection.tab === 'personas' ? 'persona' : 'fragment'}
+            </Button>
+          </div>
+          <div className="flex-1 min-w-0">
+            {/* Editors are keyed by item and version, so they reset after selecting, saving or restoring */}
+            {selection.tab === 'personas' ? (
+              <PersonaEditor
+                key={selected ? `${selected.id}@${selected.version}` : 'new'}
+                persona={selectedPersona}
+                library={library}
+                isActive={selectedPersona?.id === activePersonaId}
+                onSave={handleSavePersona}
+                onDuplicate={() => selectedPersona && handleDuplicatePersona(selectedPersona)}
+                onDelete={() => {
+                  if (!selectedPersona) return;
+                  onLibraryChange(deletePersona(library, selectedPersona.id));
+                  setSelection({ tab: 'personas', id: activePersonaId === selectedPersona.id ? null : activePersonaId });
+                }}
+                onRestore={(version) => selectedPersona && onLibraryChange(restorePersonaVersion(library, selectedPersona.id, version))}
+                onSelect={() => selectedPersona && onSelectPersona(selectedPersona.id)}
+              />
+            ) : (
+              <FragmentEditor
+                key={selected ? `${selected.id}@${selected.version}` : 'new'}
+                fragment={selectedFragment}
+                library={library}
+                onSave={handleSaveFragment}
+                onDuplicate={() => selectedFragment && handleDuplicateFragment(selectedFragment)}
+                onDelete={() => {
+                  if (!selectedFragment) return;
+                  onLibraryChange(deleteFragment(library, selectedFragment.id));
+                  setSelection({ tab: 'fragments', id: null });
+                }}
+                onRestore={(version) => selectedFragment && onLibraryChange(restoreFragmentVersion(library, selectedFragment.id, version))}
+              />
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getTagColor, type TagColor } from '@/lib/storage';
+
+// Full class names so Tailwind picks them up
+export const TAG_COLOR_CLASSES: Record<TagColor, { badge: string; swatch: string }> = {
+  gray: { badge: 'bg-neutral-200 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300', swatch: 'bg-neutral-400' },
+  red: { badge: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300', swatch: 'bg-red-500' },
+  orange: { badge: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300', swatch: 'bg-orange-500' },
+  amber: { badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300', swatch: 'bg-amber-500' },
+  green: { badge: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300', swatch: 'bg-green-500' },
+  teal: { badge: 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300', swatch: 'bg-teal-500' },
+  blue: { badge: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300', swatch: 'bg-blue-500' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300', swatch: 'bg-indigo-500' },
+  purple: { badge: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300', swatch: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-100 text-pink-700 dark:bg-pink-900/40 dark:text-pink-300', swatch: 'bg-pink-500' },
+};
+
+interface TagBadgeProps {
+  tag: string;
+  tagColors: Record<string, TagColor>;
+  className?: string;
+  // Shows a remove button when set
+  onRemove?: () => void;
+}
+
+export function TagBadge({ tag, tagColors, className, onRemove }: TagBadgeProps) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 rounded px-1.5 py-0.5 text-[11px] leading-none font-medium whitespace-nowrap",
+        TAG_COLOR_CLASSES[getTagColor(tag, tagColors)].badge,
+        className
+      )}
+    >
+      #{tag}
+      {onRemove && (
+        <button
+          type="button"
+          className="ml-0.5 opacity-60 hover:opacity-100"
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+          aria-label={`Remove tag "${tag}"`}
+        >
+          <X size={10} />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AGENT_MODES, type AgentMode } from '@/ai/agent-modes';
+import { DEFAULT_WORKSPACE_ID, type Workspace } from '@/lib/storage';
+
+const AGENT_MODE_LABELS: Record<AgentMode, string> = {
+  normal: 'Normal',
+  think: 'Think (plan, then answer)',
+  research: 'Research (docs & citations)',
+};
+
+// Select value for "keep whatever mode is selected"
+const KEEP_AGENT_MODE = 'keep';
+
+const WORKSPACE_NAME_MAX_LENGTH = 30;
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Workspace to edit, or null to create one
+  workspace: Workspace | null;
+  onSave: (settings: Omit<Workspace, 'id'>) => void;
+  onDelete: (workspaceId: string) => void;
+}
+
+// Name and defaults for new chats of a workspace. The sidebar remounts it each time it opens.
+export function WorkspaceDialog({ open, onOpenChange, workspace, onSave, onDelete }: WorkspaceDialogProps) {
+  const [name, setName] = useState(workspace?.name ?? '');
+  const [systemPrompt, setSystemPrompt] = useState(workspace?.systemPrompt ?? '');
+  const [agentMode, setAgentMode] = useState<AgentMode | typeof KEEP_AGENT_MODE>(workspace?.agentMode ?? KEEP_AGENT_MODE);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      name: name.trim(),
+      ...(systemPrompt.trim() && { systemPrompt: systemPrompt.trim() }),
+      ...(agentMode !== KEEP_AGENT_MODE && { agentMode }),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{workspace ? 'Workspace Settings' : 'New Workspace'}</DialogTitle>
+          <DialogDescription>
+            Each workspace has its own chats and folders. The defaults apply to chats started in it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Checkout redesign"
+              maxLength={WORKSPACE_NAME_MAX_LENGTH}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="workspace-system-prompt">Default custom instructions</Label>
+            <Textarea
+              id="workspace-system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="e.g. We use Vue 3 with the Composition API and Tailwind."
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">Copied into new chats; change it per chat with /system.</p>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="workspace-agent-mode">Default agent mode</Label>
+            <Select value={agentMode} onValueChange={(value) => setAgentMode(value as AgentMode | typeof KEEP_AGENT_MODE)}>
+              <SelectTrigger id="workspace-agent-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_AGENT_MODE}>Keep current mode</SelectItem>
+                {AGENT_MODES.map(mode => (
+                  <SelectItem key={mode} value={mode}>{AGENT_MODE_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter className="sm:justify-between">
+          {workspace && workspace.id !== DEFAULT_WORKSPACE_ID ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-red-600 hover:text-red-700 dark:text-red-500"
+              onClick={() => { onDelete(workspace.id); onOpenChange(false); }}
+              title="Chats of this workspace move to the default workspace"
+            >
+              Delete workspace
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <DialogClose asChild>
+              <Button type="button" variant="secondary">Cancel</Button>
+            </DialogClose>
+            <Button type="button" onClick={handleSave} disabled={!name.trim()}>
+              {workspace ? 'Save' : 'Create'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
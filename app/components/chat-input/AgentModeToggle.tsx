@@ -26,10 +26,10 @@ export function AgentModeToggle({ agentMode, setAgentMode, isLoading }: AgentMod
       <ToggleGroupItem value="normal" aria-label="Normal Mode" title="Normal Mode" className="h-full px-2 data-[state=on]:bg-neutral-100 dark:data-[state=on]:bg-neutral-800 rounded-md text-neutral-600 dark:text-neutral-400 data-[state=on]:text-neutral-900 dark:data-[state=on]:text-neutral-100 transition-colors duration-150">
         <Bot size={16} />
       </ToggleGroupItem>
-      <ToggleGroupItem value="think" aria-label="Think Mode" title="Think Mode (Detailed)" className="h-full px-2 data-[state=on]:bg-indigo-100 dark:data-[state=on]:bg-indigo-900/50 rounded-md text-neutral-600 dark:text-neutral-400 data-[state=on]:text-indigo-700 dark:data-[state=on]:text-indigo-300 transition-colors duration-150">
+      <ToggleGroupItem value="think" aria-label="Think Mode" title="Think Mode (Plan, then Answer)" className="h-full px-2 data-[state=on]:bg-indigo-100 dark:data-[state=on]:bg-indigo-900/50 rounded-md text-neutral-600 dark:text-neutral-400 data-[state=on]:text-indigo-700 dark:data-[state=on]:text-indigo-300 transition-colors duration-150">
         <BrainCircuit size={16} />
       </ToggleGroupItem>
-      <ToggleGroupItem value="research" aria-label="Research Mode" title="Research Mode (Web Search)" className="h-full px-2 data-[state=on]:bg-green-100 dark:data-[state=on]:bg-green-900/50 rounded-md text-neutral-600 dark:text-neutral-400 data-[state=on]:text-green-700 dark:data-[state=on]:text-green-300 transition-colors duration-150">
+      <ToggleGroupItem value="research" aria-label="Research Mode" title="Research Mode (Docs & Citations)" className="h-full px-2 data-[state=on]:bg-green-100 dark:data-[state=on]:bg-green-900/50 rounded-md text-neutral-600 dark:text-neutral-400 data-[state=on]:text-green-700 dark:data-[state=on]:text-green-300 transition-colors duration-150">
         <Globe size={16} />
       </ToggleGroupItem>
     </ToggleGroup>
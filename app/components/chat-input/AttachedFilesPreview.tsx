@@ -1,6 +1,8 @@
 import React from 'react';
 import Image from 'next/image';
-import { X } from 'lucide-react';
+import { AlertCircle, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_TOTAL_ATTACHMENT_TOKENS } from '@/lib/attachments';
 import { formatFileSize, getFileIconComponent } from './utils'; // Import utilities
 import { AttachedFileState } from './types'; // Import shared type
 
@@ -9,26 +11,48 @@ interface AttachedFilesPreviewProps {
   onRemoveFile: (index: number) => void;
 }
 
+// Second line of a file chip: progress, the error, or what will be sent
+function getFileStatusText(item: AttachedFileState): string {
+  if (item.status === 'processing') return `${formatFileSize(item.file.size)} · Reading...`;
+  if (item.status === 'error') return item.error ?? 'Could not read this file.';
+  const details = [
+    formatFileSize(item.file.size),
+    item.processed?.summary,
+    item.processed && `~${item.processed.estimatedTokens.toLocaleString()} tokens`,
+    item.processed?.truncated && 'truncated',
+  ];
+  return details.filter(Boolean).join(' · ');
+}
+
 export function AttachedFilesPreview({ attachedFiles, onRemoveFile }: AttachedFilesPreviewProps) {
   if (attachedFiles.length === 0) {
     return null; // Don't render anything if no files
   }
 
+  const totalTokens = attachedFiles.reduce((total, item) => total + (item.processed?.estimatedTokens ?? 0), 0);
+
   return (
     <div className="px-3 pt-2 md:px-4 md:pt-2">
       <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-1.5 font-medium">Attached Files:</p>
       <div className="flex flex-wrap gap-2 pb-2">
         {attachedFiles.map((item, index) => (
-          <div 
-            key={index} 
-            className="relative group flex items-center gap-2 bg-neutral-100 dark:bg-neutral-800/80 border border-neutral-200 dark:border-neutral-700 rounded-lg px-2 py-1 text-xs overflow-hidden shadow-sm"
+          <div
+            key={index}
+            className={cn(
+              "relative group flex items-center gap-2 bg-neutral-100 dark:bg-neutral-800/80 border border-neutral-200 dark:border-neutral-700 rounded-lg px-2 py-1 text-xs overflow-hidden shadow-sm max-w-xs",
+              item.status === 'error' && "border-red-300 bg-red-50 dark:border-red-900 dark:bg-red-950/40"
+            )}
           >
-            {item.previewUrl ? (
-              <Image 
-                src={item.previewUrl} 
-                alt={`Preview of ${item.file.name}`} 
-                width={24} 
-                height={24} 
+            {item.status === 'processing' ? (
+              <Loader2 className="h-5 w-5 animate-spin text-neutral-500 dark:text-neutral-400 flex-shrink-0" />
+            ) : item.status === 'error' ? (
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+            ) : item.previewUrl ? (
+              <Image
+                src={item.previewUrl}
+                alt={`Preview of ${item.file.name}`}
+                width={24}
+                height={24}
                 className="object-cover rounded-sm flex-shrink-0"
               />
             ) : (
@@ -38,7 +62,15 @@ export function AttachedFilesPreview({ attachedFiles, onRemoveFile }: AttachedFi
             )}
             <div className="flex flex-col overflow-hidden">
                 <span className="text-neutral-700 dark:text-neutral-200 truncate font-medium">{item.file.name}</span>
-                <span className="text-neutral-500 dark:text-neutral-400 text-[11px]">{formatFileSize(item.file.size)}</span>
+                <span
+                  className={cn(
+                    "text-[11px]",
+                    item.status === 'error' ? "text-red-600 dark:text-red-400" : "text-neutral-500 dark:text-neutral-400 truncate"
+                  )}
+                  title={getFileStatusText(item)}
+                >
+                  {getFileStatusText(item)}
+                </span>
             </div>
             <button
               type="button"
@@ -51,6 +83,11 @@ export function AttachedFilesPreview({ attachedFiles, onRemoveFile }: AttachedFi
           </div>
         ))}
       </div>
+      {totalTokens > MAX_TOTAL_ATTACHMENT_TOKENS && (
+        <p className="text-xs text-red-600 dark:text-red-400 pb-2">
+          The attached files use about {totalTokens.toLocaleString()} tokens; the limit per message is {MAX_TOTAL_ATTACHMENT_TOKENS.toLocaleString()}. Remove some files to send.
+        </p>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,19 +1,32 @@
-import React, { useRef, useEffect, useState, ChangeEvent, KeyboardEvent, DragEvent, ClipboardEvent, useMemo, useCallback } from 'react';
+import React, { useRef, useEffect, useState, ChangeEvent, KeyboardEvent, DragEvent, ClipboardEvent, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { 
-  Send, Square, Paperclip, FilePlus, Trash2, HelpCircle, Mic
+  Send, Square, Paperclip, Mic
 } from "lucide-react";
 import TextareaAutosize from 'react-textarea-autosize';
+import { toast } from 'sonner';
 import type { UseChatHelpers } from 'ai/react';
 import { cn } from '@/lib/utils';
 import { MAX_INPUT_HISTORY, getDraftKey } from './utils';
 import { AttachedFilesPreview } from './AttachedFilesPreview';
 import { MarkdownToolbar } from './MarkdownToolbar';
 import { AgentModeToggle } from './AgentModeToggle';
+import { ModelSelector } from './ModelSelector';
 import { HelpDialog } from './HelpDialog';
 import { CommandPopover } from './CommandPopover';
 import { MentionPopover } from './MentionPopover';
-import { MockUser, CommandItemDef, AttachedFileState } from './types';
+import { AttachedFileState } from './types';
+import type { ModelSettings } from '@/ai/models';
+import { getMentionToken, searchMentions, type MentionItem, type MentionProvider } from '@/lib/mentions';
+import {
+  applyCommandSuggestion,
+  getCommand,
+  getCommandSuggestions,
+  parseCommandArgs,
+  splitCommandInput,
+  type CommandContext,
+  type CommandSuggestion,
+} from '@/lib/commands';
 import { Popover, PopoverAnchor } from '@/components/ui/popover';
 import {
   Tooltip,
@@ -22,37 +35,31 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 
-// Mock User Data (Type imported from ./types)
-const MOCK_USERS: MockUser[] = [
-  { id: '1', name: 'Alice' },
-  { id: '2', name: 'Bob' },
-  { id: '3', name: 'Charlie' },
-  { id: '4', name: 'David' },
-  { id: '5', name: 'Eve' },
-];
-
 // Interface for attached file state (Type imported from ./types)
 
 interface ChatInputProps {
   currentChatId: string | null;
   agentMode: 'normal' | 'think' | 'research';
   setAgentMode: React.Dispatch<React.SetStateAction<'normal' | 'think' | 'research'>>;
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
   value: string;
   onChange: UseChatHelpers['handleInputChange'];
-  onSend: (event?: React.FormEvent<HTMLFormElement> | { preventDefault?: () => void }) => void;
+  // Mentions picked from the popover are passed along; the parent keeps those still in the text
+  onSend: (event?: React.FormEvent<HTMLFormElement> | { preventDefault?: () => void }, mentions?: MentionItem[]) => void;
   isLoading: boolean;
   stop: UseChatHelpers['stop'];
-  onNewChat: () => void; // Callback to create a new chat
-  onClear: () => void; // Callback to clear the current chat
   attachedFiles: AttachedFileState[];
   onAttachFiles: (files: FileList | File[]) => void;
   onRemoveFile: (index: number) => void;
+  mentionProviders: MentionProvider[]; // Sources for the @ popover
+  commandContext: Omit<CommandContext, 'showHelp'>; // Passed to slash commands (showHelp is added here)
 }
 
 export function ChatInput({ 
-  value, onChange, onSend, isLoading, stop, onNewChat, onClear, 
+  value, onChange, onSend, isLoading, stop,
   attachedFiles, onAttachFiles, onRemoveFile, currentChatId,
-  agentMode, setAgentMode
+  agentMode, setAgentMode, modelSettings, onModelSettingsChange, mentionProviders, commandContext
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -64,14 +71,15 @@ export function ChatInput({
   // --- Single State for Active Popover --- 
   const [activePopover, setActivePopover] = useState<'none' | 'command' | 'mention'>('none');
 
-  // --- Command State (Search term & selection) ---
-  const [commandSearch, setCommandSearch] = useState('');
+  // --- Command State (selection; suggestions are derived from the input) ---
   const [selectedCommandIndex, setSelectedCommandIndex] = useState(0); 
 
   // --- Mention State (Filtered list & selection) ---
-  const [filteredMentions, setFilteredMentions] = useState<MockUser[]>([]);
+  const [filteredMentions, setFilteredMentions] = useState<MentionItem[]>([]);
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
   const [mentionTriggerPosition, setMentionTriggerPosition] = useState<number | null>(null);
+  // Mentions inserted into the current message
+  const [selectedMentions, setSelectedMentions] = useState<MentionItem[]>([]);
 
   // --- Help Dialog State ---
   const [isHelpDialogOpen, setIsHelpDialogOpen] = useState(false);
@@ -83,47 +91,8 @@ export function ChatInput({
     }
   }, [currentChatId]); // Add currentChatId as dependency
 
-  // Define commands
-  const COMMANDS: CommandItemDef[] = useMemo(() => [
-    {
-      value: "/new",
-      label: "New Chat",
-      description: "Start a new conversation",
-      icon: FilePlus,
-      action: () => {
-        onNewChat();
-        clearDraft(); // Clear draft for previous chat
-      }
-    },
-    {
-      value: "/clear",
-      label: "Clear Chat",
-      description: "Clear messages in the current chat",
-      icon: Trash2,
-      action: () => {
-        onClear();
-        clearDraft(); // Clear draft for current chat
-        // Optionally clear input after action
-        onChange({ target: { value: '' } } as React.ChangeEvent<HTMLTextAreaElement>);
-      }
-    },
-    {
-      value: "/help",
-      label: "Help",
-      description: "Show available commands and tips",
-      icon: HelpCircle,
-      action: () => {
-        setIsHelpDialogOpen(true); // Open the help dialog
-        onChange({ target: { value: '' } } as React.ChangeEvent<HTMLTextAreaElement>); // Clear input
-      }
-    },
-    // Add more commands here
-  ], [onNewChat, onClear, onChange, clearDraft]); // Add clearDraft to dependencies
-
-  const filteredCommands = COMMANDS.filter(cmd => 
-    cmd.value.toLowerCase().includes(commandSearch.toLowerCase()) ||
-    cmd.label.toLowerCase().includes(commandSearch.toLowerCase())
-  );
+  // Commands or argument values matching the input (see @/lib/commands)
+  const commandSuggestions = activePopover === 'command' ? getCommandSuggestions(value) : [];
 
   // --- Handlers ---
 
@@ -133,38 +102,34 @@ export function ChatInput({
     onChange(event); // Call the original onChange
 
     let nextActivePopover: 'none' | 'command' | 'mention' = 'none';
-    let newCommandSearch = '';
     let newMentionTriggerPosition: number | null = null;
-    let newFilteredMentions: MockUser[] = [];
+    let newFilteredMentions: MentionItem[] = [];
 
     if (newValue.startsWith('/')) {
         // Command case
         nextActivePopover = 'command';
-        newCommandSearch = newValue.substring(1);
     } else {
         // Not a command case, check for mention
         const cursorPosition = event.target.selectionStart;
         const textBeforeCursor = newValue.substring(0, cursorPosition);
-        const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
+        // "@", optionally followed by a kind prefix and search text, e.g. "@chat:flight"
+        const mentionMatch = textBeforeCursor.match(/(?:^|\s)@([\w:.-]*)$/);
 
         if (mentionMatch) {
             const currentSearch = mentionMatch[1] || '';
-            const matches = MOCK_USERS.filter(user =>
-                user.name.toLowerCase().startsWith(currentSearch.toLowerCase())
-            );
+            const matches = searchMentions(mentionProviders, currentSearch);
 
             if (matches.length > 0) {
                 // Mention case
                 nextActivePopover = 'mention';
                 newFilteredMentions = matches;
-                newMentionTriggerPosition = mentionMatch.index ?? null;
+                newMentionTriggerPosition = textBeforeCursor.length - currentSearch.length - 1; // Position of the "@"
             }
         }
     }
 
     // Update states
     setActivePopover(nextActivePopover);
-    setCommandSearch(newCommandSearch);
     setFilteredMentions(newFilteredMentions);
     setMentionTriggerPosition(newMentionTriggerPosition);
 
@@ -183,20 +148,49 @@ export function ChatInput({
     }
   };
 
-  const handleCommandSelect = (command: CommandItemDef) => {
-    setActivePopover('none'); // Close popover after selection
-    setCommandSearch(''); 
-    
-    if (command.action) {
-      command.action(); 
-    } else {
-      onChange({ target: { value: command.value + ' ' } } as React.ChangeEvent<HTMLTextAreaElement>);
-      setTimeout(() => { 
-        textareaRef.current?.focus();
-        textareaRef.current?.setSelectionRange(command.value.length + 1, command.value.length + 1);
-      }, 0);
+  const setInputValue = (newValue: string) => {
+    onChange({ target: { value: newValue } } as React.ChangeEvent<HTMLTextAreaElement>);
+  };
+
+  // Parses and runs "/name args..."; errors are shown as toasts and keep the input for fixing
+  const runCommand = async (input: string) => {
+    const { name, argText } = splitCommandInput(input.trim());
+    const command = getCommand(name);
+    if (!command) {
+      toast.error("Unknown Command", { description: `/${name} is not a command. Type / to see all commands.` });
+      return;
+    }
+    const parsed = parseCommandArgs(command, argText ?? '');
+    if ('error' in parsed) {
+      toast.error("Invalid Command", { description: parsed.error });
+      return;
+    }
+
+    setActivePopover('none');
+    setInputValue('');
+    clearDraft();
+    addToHistory(input);
+    try {
+      await command.run(parsed.args, { ...commandContext, showHelp: () => setIsHelpDialogOpen(true) });
+    } catch (error) {
+      console.error(`[Commands] /${command.name} failed:`, error);
+      toast.error("Command Failed", { description: error instanceof Error ? error.message : `Could not run /${command.name}.` });
+    }
+  };
+
+  // Picking a command without arguments runs it; otherwise the suggestion is completed in the input
+  const handleCommandSelect = (suggestion: CommandSuggestion) => {
+    if (suggestion.type === 'command' && !suggestion.command.args?.length) {
+      runCommand(`/${suggestion.command.name}`);
+      return;
     }
-    textareaRef.current?.focus(); 
+    const newValue = applyCommandSuggestion(value, suggestion);
+    setInputValue(newValue);
+    setSelectedCommandIndex(0);
+    setTimeout(() => { 
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(newValue.length, newValue.length);
+    }, 0);
   };
 
   // Function to add to history (ensuring no duplicates and limit)
@@ -210,23 +204,28 @@ export function ChatInput({
 
   const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
     // --- Popover navigation ---
-    if (activePopover === 'command' && filteredCommands.length > 0) {
-      if (event.key === 'ArrowDown') {
+    if (activePopover === 'command') {
+      if (event.key === 'ArrowDown' && commandSuggestions.length > 0) {
         event.preventDefault();
         setSelectedCommandIndex(prevIndex => 
-          prevIndex >= filteredCommands.length - 1 ? 0 : prevIndex + 1
+          prevIndex >= commandSuggestions.length - 1 ? 0 : prevIndex + 1
         );
         return; // Prevent cursor move in textarea
-      } else if (event.key === 'ArrowUp') {
+      } else if (event.key === 'ArrowUp' && commandSuggestions.length > 0) {
         event.preventDefault();
         setSelectedCommandIndex(prevIndex => 
-          prevIndex <= 0 ? filteredCommands.length - 1 : prevIndex - 1
+          prevIndex <= 0 ? commandSuggestions.length - 1 : prevIndex - 1
         );
         return; // Prevent cursor move in textarea
-      } else if (event.key === 'Enter') {
+      } else if ((event.key === 'Enter' || event.key === 'Tab') && commandSuggestions.length > 0) {
         event.preventDefault();
-        handleCommandSelect(filteredCommands[selectedCommandIndex]);
+        handleCommandSelect(commandSuggestions[Math.min(selectedCommandIndex, commandSuggestions.length - 1)]);
         return; // Prevent form submission/newline
+      } else if (event.key === 'Enter' && !event.shiftKey) {
+        // Nothing left to complete: run the command as typed
+        event.preventDefault();
+        runCommand(value);
+        return;
       } else if (event.key === 'Escape') {
         event.preventDefault(); 
         setActivePopover('none'); // Close with Escape
@@ -339,10 +338,16 @@ export function ChatInput({
 
   const handleFormSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    // Input starting with "/" is a command (e.g. submitted after closing the popover with Escape)
+    if (!isLoading && value.startsWith('/') && attachedFiles.length === 0) {
+      runCommand(value);
+      return;
+    }
     // Don't submit if a command/mention is potentially being selected or input is empty
     if (!isLoading && (value.trim() || attachedFiles.length > 0) && activePopover === 'none') { 
       const currentValue = value; 
-      onSend(event);
+      onSend(event, selectedMentions);
+      setSelectedMentions([]);
       clearDraft(); 
       addToHistory(currentValue);
     }
@@ -492,7 +497,7 @@ export function ChatInput({
   };
 
   // --- Mention Selection Handler ---
-  const handleMentionSelect = (user: MockUser) => {
+  const handleMentionSelect = (mention: MentionItem) => {
     setActivePopover('none'); // Close popover
     setFilteredMentions([]);
 
@@ -502,10 +507,13 @@ export function ChatInput({
     const textBefore = currentVal.substring(0, mentionTriggerPosition);
     // Find the end of the mention trigger (e.g., includes the search term)
     const textAfterTrigger = currentVal.substring(mentionTriggerPosition);
-    const spaceAfterMatch = textAfterTrigger.search(/s|$/); // Find next space or end of string
+    const spaceAfterMatch = textAfterTrigger.search(/\s|$/); // Find next space or end of string
     const endOfTrigger = mentionTriggerPosition + (spaceAfterMatch > -1 ? spaceAfterMatch : textAfterTrigger.length);
 
-    const mentionText = `@${user.name} `;
+    const mentionText = `${getMentionToken(mention)} `;
+    setSelectedMentions(prev =>
+      prev.some(item => item.kind === mention.kind && item.id === mention.id) ? prev : [...prev, mention]
+    );
     const newValue = 
       textBefore + 
       mentionText + 
@@ -523,6 +531,11 @@ export function ChatInput({
     setMentionTriggerPosition(null);
   };
 
+  // Mentions belong to the chat they were typed in
+  useEffect(() => {
+    setSelectedMentions([]);
+  }, [currentChatId]);
+
   // --- Draft Saving/Loading ---
   // Uses getDraftKey from utils
 
@@ -617,6 +630,11 @@ export function ChatInput({
                     setAgentMode={setAgentMode}
                     isLoading={isLoading}
                   />
+                  <ModelSelector
+                    modelSettings={modelSettings}
+                    onModelSettingsChange={onModelSettingsChange}
+                    isLoading={isLoading}
+                  />
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button 
@@ -702,9 +720,10 @@ export function ChatInput({
                   <CommandPopover 
                     isOpen={true} 
                     onOpenChange={(open) => !open && setActivePopover('none')} 
-                    commands={filteredCommands} 
-                    selectedIndex={selectedCommandIndex} 
-                    onSelectCommand={handleCommandSelect} 
+                    input={value}
+                    suggestions={commandSuggestions} 
+                    selectedIndex={Math.min(selectedCommandIndex, Math.max(commandSuggestions.length - 1, 0))} 
+                    onSelectSuggestion={handleCommandSelect} 
                   />
                 )}
                 {activePopover === 'mention' && (
@@ -1,62 +1,100 @@
 import React from 'react';
 import {
   // Popover, // Remove Popover import - It's no longer used here
-  PopoverContent, 
+  PopoverContent,
 } from "@/components/ui/popover";
-import { 
-  Command, 
-  CommandEmpty, 
-  CommandGroup, 
-  CommandItem, 
-  CommandList 
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+  CommandList
 } from "@/components/ui/command";
-import { CommandItemDef } from './types'; // Import shared type
-
-// Command definition (Type imported from ./types)
+import {
+  getCommand,
+  getCommandUsage,
+  splitCommandInput,
+  type CommandSuggestion,
+} from '@/lib/commands';
 
 interface CommandPopoverProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  commands: CommandItemDef[];
+  input: string; // Current input, for the usage hint of the command being typed
+  suggestions: CommandSuggestion[];
   selectedIndex: number;
-  onSelectCommand: (command: CommandItemDef) => void;
+  onSelectSuggestion: (suggestion: CommandSuggestion) => void;
   // anchorElement?: HTMLElement | null; // Optional if PopoverAnchor in parent works
 }
 
+function getSuggestionKey(suggestion: CommandSuggestion): string {
+  return suggestion.type === 'command' ? `/${suggestion.command.name}` : `${suggestion.arg.name}:${suggestion.value}`;
+}
+
 export function CommandPopover({
-  commands,
+  input,
+  suggestions,
   selectedIndex,
-  onSelectCommand,
+  onSelectSuggestion,
 }: CommandPopoverProps) {
+  // Once the name is followed by a space, show how to use the command
+  const { name, argText } = splitCommandInput(input);
+  const activeCommand = argText !== null ? getCommand(name) : undefined;
+  // Suggestions are either all commands or all values of one argument
+  const heading = suggestions[0]?.type === 'argument' ? suggestions[0].arg.name : "Commands";
+
   // Directly return the PopoverContent element
   return (
-    <PopoverContent 
+    <PopoverContent
       className="w-[--radix-popover-trigger-width] p-0 shadow-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950"
-      style={{ marginBottom: '8px' }} 
-      side="top" 
-      align="start" 
+      style={{ marginBottom: '8px' }}
+      side="top"
+      align="start"
       sideOffset={5}
-      onOpenAutoFocus={(e) => e.preventDefault()} 
-      onCloseAutoFocus={(e) => e.preventDefault()} 
+      onOpenAutoFocus={(e) => e.preventDefault()}
+      onCloseAutoFocus={(e) => e.preventDefault()}
     >
+        {activeCommand && (
+          <div className="flex items-start gap-2 border-b border-neutral-200 dark:border-neutral-800 px-4 py-2 text-xs text-neutral-500 dark:text-neutral-400">
+            <activeCommand.icon className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <div className="flex flex-col gap-0.5">
+              <code className="font-medium text-neutral-900 dark:text-neutral-100">{getCommandUsage(activeCommand)}</code>
+              <span>{activeCommand.description}</span>
+              {activeCommand.args?.map(arg => (
+                <span key={arg.name}>
+                  <code>{arg.name}</code> &ndash; {arg.description}{arg.required ? '' : ' (optional)'}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
         <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-neutral-500 dark:[&_[cmdk-group-heading]]:text-neutral-400 [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5">
           <CommandList>
-            <CommandEmpty>No commands found.</CommandEmpty>
-            {commands.length > 0 && (
-              <CommandGroup heading="Commands">
-                {commands.map((command, index) => (
+            {!activeCommand && <CommandEmpty>No commands found.</CommandEmpty>}
+            {suggestions.length > 0 && (
+              <CommandGroup heading={heading}>
+                {suggestions.map((suggestion, index) => (
                   <CommandItem
-                    key={command.value}
-                    value={command.value}
-                    onSelect={() => onSelectCommand(command)}
+                    key={getSuggestionKey(suggestion)}
+                    value={getSuggestionKey(suggestion)}
+                    onSelect={() => onSelectSuggestion(suggestion)}
                     className="cursor-pointer aria-selected:bg-neutral-100 dark:aria-selected:bg-neutral-800"
                     data-selected={index === selectedIndex}
                   >
-                    <command.icon className="mr-2 h-4 w-4" />
-                    <div className="flex flex-col">
-                      <span className="font-medium text-sm text-neutral-900 dark:text-neutral-100">{command.label}</span>
-                      <span className="text-xs text-neutral-500 dark:text-neutral-400">{command.description}</span>
-                    </div>
+                    {suggestion.type === 'command' ? (
+                      <>
+                        <suggestion.command.icon className="mr-2 h-4 w-4" />
+                        <div className="flex flex-col">
+                          <span className="font-medium text-sm text-neutral-900 dark:text-neutral-100">
+                            {suggestion.command.label}{' '}
+                            <code className="font-normal text-xs text-neutral-500 dark:text-neutral-400">{getCommandUsage(suggestion.command)}</code>
+                          </span>
+                          <span className="text-xs text-neutral-500 dark:text-neutral-400">{suggestion.command.description}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <code className="text-sm text-neutral-900 dark:text-neutral-100">{suggestion.value}</code>
+                    )}
                   </CommandItem>
                 ))}
               </CommandGroup>
@@ -65,4 +103,4 @@ export function CommandPopover({
         </Command>
     </PopoverContent>
   );
-} 
\ No newline at end of file
+}
\ No newline at end of file
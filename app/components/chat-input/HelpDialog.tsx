@@ -9,6 +9,7 @@ import {
   DialogFooter,
   DialogClose,
 } from "@/components/ui/dialog";
+import { getCommands, getCommandUsage } from '@/lib/commands';
 
 interface HelpDialogProps {
   isOpen: boolean;
@@ -28,14 +29,17 @@ export function HelpDialog({ isOpen, onOpenChange }: HelpDialogProps) {
         <div className="prose prose-sm dark:prose-invert max-w-none py-2 text-sm">
           <p className="font-semibold">Slash Commands:</p>
           <ul>
-            <li><code>/new</code> - Start a new conversation.</li>
-            <li><code>/clear</code> - Delete all messages in the current chat.</li>
-            <li><code>/help</code> - Show this help dialog.</li>
-            {/* Add more commands as they are implemented */} 
+            {/* Everything in the command registry, including commands added by other modules */}
+            {getCommands().map(command => (
+              <li key={command.name}><code>{getCommandUsage(command)}</code> - {command.description}.</li>
+            ))}
           </ul>
-          <p className="font-semibold mt-3">Mention Users:</p>
+          <p className="font-semibold mt-3">Mentions:</p>
           <ul>
-            <li>Type <code>@</code> followed by a name (e.g., <code>@Alice</code>) to mention a user.</li>
+            <li><code>@chat:</code> - Include another chat&apos;s conversation as context.</li>
+            <li><code>@file:</code> - Include a file attached earlier in this chat.</li>
+            <li><code>@artifact:</code> - Include the code of an artifact from this chat.</li>
+            <li><code>@persona:</code> - Answer as a persona (e.g., <code>@persona:Code-Reviewer</code>).</li>
           </ul>
           <p className="font-semibold mt-3">Markdown Formatting:</p>
           <ul>
@@ -10,17 +10,24 @@ import {
   CommandItem, 
   CommandList 
 } from "@/components/ui/command";
+import { MessageSquare, FileText, Code2, UserRound } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { MockUser } from './types'; // Import shared type
+import type { MentionItem, MentionKind } from '@/lib/mentions';
 
-// Mock User Data structure (Type imported from ./types)
+const MENTION_ICONS: Record<MentionKind, React.ElementType> = {
+  chat: MessageSquare,
+  file: FileText,
+  artifact: Code2,
+  persona: UserRound,
+};
 
 interface MentionPopoverProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  mentions: MockUser[];
+  // Results from the mention providers (chats, files, artifacts, personas)
+  mentions: MentionItem[];
   selectedIndex: number;
-  onSelectMention: (user: MockUser) => void;
+  onSelectMention: (mention: MentionItem) => void;
 }
 
 export function MentionPopover({
@@ -42,23 +49,30 @@ export function MentionPopover({
           {mentions.length > 0 ? (
             <Command shouldFilter={false} className="[&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-1.5 [&_[cmdk-item]]:cursor-pointer [&_[cmdk-item]_svg]:h-4 [&_[cmdk-item]_svg]:w-4">
                 <CommandList>
-                {mentions.map((user, index) => (
-                  <CommandItem
-                    key={user.id}
-                    value={user.name} 
-                    onSelect={() => onSelectMention(user)} 
-                    className={cn(
-                      "aria-selected:bg-neutral-100 dark:aria-selected:bg-neutral-800",
-                      index === selectedIndex && "bg-neutral-100 dark:bg-neutral-800" 
-                    )}
-                  >
-                    <span className="text-sm text-neutral-900 dark:text-neutral-100">{user.name}</span>
-                  </CommandItem>
-                ))}
+                {mentions.map((mention, index) => {
+                  const Icon = MENTION_ICONS[mention.kind];
+                  return (
+                    <CommandItem
+                      key={`${mention.kind}-${mention.id}`}
+                      value={`${mention.kind}-${mention.id}`}
+                      onSelect={() => onSelectMention(mention)} 
+                      className={cn(
+                        "aria-selected:bg-neutral-100 dark:aria-selected:bg-neutral-800",
+                        index === selectedIndex && "bg-neutral-100 dark:bg-neutral-800" 
+                      )}
+                    >
+                      <Icon className="mr-2 flex-shrink-0 text-neutral-500 dark:text-neutral-400" />
+                      <span className="truncate text-sm text-neutral-900 dark:text-neutral-100">{mention.label}</span>
+                      {mention.description && (
+                        <span className="ml-auto pl-2 truncate text-xs text-neutral-500 dark:text-neutral-400">{mention.description}</span>
+                      )}
+                    </CommandItem>
+                  );
+                })}
               </CommandList>
             </Command>
           ) : (
-            <div className="p-2 text-center text-xs text-neutral-500 dark:text-neutral-400">No users found</div>
+            <div className="p-2 text-center text-xs text-neutral-500 dark:text-neutral-400">No matches. Try @chat:, @file:, @artifact: or @persona:</div>
           )}
       </PopoverContent>
   );
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Cpu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LLM_PROVIDERS,
+  LLM_PROVIDER_IDS,
+  MAX_TOKENS_LIMIT,
+  type LLMProviderId,
+  type ModelSettings,
+} from '@/ai/models';
+
+interface ModelSelectorProps {
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
+  isLoading: boolean;
+}
+
+export function ModelSelector({ modelSettings, onModelSettingsChange, isLoading }: ModelSelectorProps) {
+  const provider = LLM_PROVIDERS[modelSettings.providerId];
+
+  const handleProviderChange = (value: string) => {
+    const providerId = value as LLMProviderId;
+    // Switching providers resets the model id to that provider's default
+    onModelSettingsChange({ ...modelSettings, providerId, modelId: LLM_PROVIDERS[providerId].defaultModelId });
+  };
+
+  const handleNumberChange = (field: 'temperature' | 'maxTokens', raw: string, min: number, max: number) => {
+    const parsed = field === 'maxTokens' ? parseInt(raw, 10) : parseFloat(raw);
+    if (Number.isNaN(parsed)) return;
+    onModelSettingsChange({ ...modelSettings, [field]: Math.min(max, Math.max(min, parsed)) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 gap-1.5 text-xs text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg max-w-[140px]"
+          disabled={isLoading}
+          aria-label="Model settings"
+          title={`${provider.label} · ${modelSettings.modelId}`}
+        >
+          <Cpu className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">{modelSettings.modelId}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-72 space-y-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="model-provider" className="text-xs">Provider</Label>
+          <Select value={modelSettings.providerId} onValueChange={handleProviderChange}>
+            <SelectTrigger id="model-provider" className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LLM_PROVIDER_IDS.map(id => (
+                <SelectItem key={id} value={id} className="text-xs">
+                  {LLM_PROVIDERS[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[11px] text-muted-foreground">{provider.description}</p>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="model-id" className="text-xs">Model</Label>
+          <Input
+            id="model-id"
+            list="model-id-suggestions"
+            className="h-8 text-xs"
+            value={modelSettings.modelId}
+            onChange={(e) => onModelSettingsChange({ ...modelSettings, modelId: e.target.value })}
+            onBlur={(e) => !e.target.value.trim() && onModelSettingsChange({ ...modelSettings, modelId: provider.defaultModelId })}
+          />
+          <datalist id="model-id-suggestions">
+            {provider.suggestedModelIds.map(modelId => <option key={modelId} value={modelId} />)}
+          </datalist>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="model-temperature" className="text-xs">Temperature</Label>
+            <Input
+              id="model-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              className="h-8 text-xs"
+              value={modelSettings.temperature}
+              onChange={(e) => handleNumberChange('temperature', e.target.value, 0, 2)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="model-max-tokens" className="text-xs">Max tokens</Label>
+            <Input
+              id="model-max-tokens"
+              type="number"
+              min={1}
+              max={MAX_TOKENS_LIMIT}
+              step={256}
+              className="h-8 text-xs"
+              value={modelSettings.maxTokens}
+              onChange={(e) => handleNumberChange('maxTokens', e.target.value, 1, MAX_TOKENS_LIMIT)}
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
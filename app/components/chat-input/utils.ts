@@ -16,7 +16,7 @@ export function formatFileSize(bytes: number): string {
 }
 
 // Helper to get file icon component
-export function getFileIconComponent(file: File): React.ElementType {
+export function getFileIconComponent(file: Pick<File, 'name' | 'type'>): React.ElementType {
   const extension = file.name.split('.').pop()?.toLowerCase();
   const mimeType = file.type;
 
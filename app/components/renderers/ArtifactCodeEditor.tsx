@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useMemo, useRef } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import vscDarkPlus from 'react-syntax-highlighter/dist/esm/styles/prism/vsc-dark-plus';
+import oneLight from 'react-syntax-highlighter/dist/esm/styles/prism/one-light';
+import { useTheme } from 'next-themes';
+import { cn } from '@/lib/utils';
+
+export interface CodeEditorMarker {
+  line: number; // 1-based
+  column: number;
+  message: string;
+}
+
+interface ArtifactCodeEditorProps {
+  value: string;
+  language: string;
+  onChange: (value: string) => void;
+  markers?: CodeEditorMarker[];
+  className?: string;
+}
+
+// Shared by the textarea and the highlighted code, so the typed text sits exactly on the colored one
+const LINE_HEIGHT_REM = 1.25;
+const PADDING_REM = 0.75;
+const INDENT = '  ';
+
+const layerStyle: React.CSSProperties = {
+  margin: 0,
+  padding: `${PADDING_REM}rem`,
+  background: 'transparent',
+  fontFamily: 'inherit',
+  fontSize: 'inherit',
+  lineHeight: 'inherit',
+  tabSize: INDENT.length,
+  whiteSpace: 'pre',
+  overflow: 'visible',
+};
+
+// A transparent textarea over the highlighted source: the textarea takes the input, selection and
+// caret, the highlighter draws the text. Markers highlight their line and underline their column.
+export function ArtifactCodeEditor({ value, language, onChange, markers = [], className }: ArtifactCodeEditorProps) {
+  const { resolvedTheme } = useTheme();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const markersByLine = useMemo(() => new Map(markers.map(marker => [marker.line, marker])), [markers]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey || event.metaKey || event.ctrlKey || event.altKey) return;
+    event.preventDefault();
+    // insertText keeps the browser's undo history (and fires onChange); setRangeText where it's not supported
+    if (!document.execCommand('insertText', false, INDENT)) {
+      const textarea = event.currentTarget;
+      textarea.setRangeText(INDENT, textarea.selectionStart, textarea.selectionEnd, 'end');
+      onChange(textarea.value);
+    }
+  };
+
+  const moveCaretTo = (marker: CodeEditorMarker) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = lines.slice(0, marker.line - 1).reduce((total, line) => total + line.length + 1, 0)
+      + Math.min(marker.column - 1, lines[marker.line - 1]?.length ?? 0);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  return (
+    <div
+      className={cn("overflow-auto bg-slate-50 dark:bg-slate-900/70 font-mono text-xs", className)}
+      style={{ lineHeight: `${LINE_HEIGHT_REM}rem` }}
+    >
+      <div className="flex min-h-full min-w-fit">
+        <div
+          className="sticky left-0 z-10 flex-shrink-0 select-none border-r bg-slate-50 dark:bg-slate-900 text-right text-muted-foreground/70 tabular-nums"
+          style={{ paddingBlock: `${PADDING_REM}rem` }}
+        >
+          {lines.map((_, index) => {
+            const marker = markersByLine.get(index + 1);
+            return marker ? (
+              <button
+                key={index}
+                type="button"
+                className="block w-full bg-red-500/20 px-2 text-right text-red-600 dark:text-red-400"
+                title={marker.message}
+                onClick={() => moveCaretTo(marker)}
+              >
+                {index + 1}
+              </button>
+            ) : (
+              <div key={index} className="px-2">{index + 1}</div>
+            );
+          })}
+        </div>
+        <div className="relative flex-1">
+          {markers.map(marker => (
+            <div
+              key={`${marker.line}:${marker.column}`}
+              className="pointer-events-none absolute inset-x-0 bg-red-500/10"
+              style={{ top: `${PADDING_REM + (marker.line - 1) * LINE_HEIGHT_REM}rem`, height: `${LINE_HEIGHT_REM}rem` }}
+            >
+              <span
+                className="absolute bottom-0 h-0.5 w-[1ch] bg-red-500"
+                style={{ left: `calc(${PADDING_REM}rem + ${marker.column - 1}ch)` }}
+              />
+            </div>
+          ))}
+          {/* The trailing newline keeps a last empty line as tall as the textarea's */}
+          <SyntaxHighlighter
+            language={language}
+            style={resolvedTheme === 'dark' ? vscDarkPlus : oneLight}
+            customStyle={layerStyle}
+            codeTagProps={{ style: { fontFamily: 'inherit', fontSize: 'inherit', lineHeight: 'inherit' } }}
+          >
+            {`${value}\n`}
+          </SyntaxHighlighter>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            onKeyDown={handleKeyDown}
+            aria-label="Artifact source"
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            autoCorrect="off"
+            wrap="off"
+            className="absolute inset-0 h-full w-full resize-none overflow-hidden bg-transparent text-transparent caret-foreground outline-none selection:bg-sky-400/30"
+            style={layerStyle}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { diffLines, toSideBySide, type DiffLine, type SideBySideRow } from '@/lib/diff';
+import type { ArtifactFile } from '@/lib/artifacts';
+
+interface ArtifactDiffProps {
+  oldFiles: ArtifactFile[];
+  newFiles: ArtifactFile[];
+}
+
+type FileStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+interface FileChange {
+  path: string;
+  status: FileStatus;
+  rows: SideBySideRow[];
+}
+
+// Unchanged lines kept around each change; longer unchanged stretches are folded
+const CONTEXT_LINES = 3;
+
+type DisplayRow = SideBySideRow | { folded: number };
+
+// Folds runs of unchanged rows down to their context
+function foldUnchanged(rows: SideBySideRow[]): DisplayRow[] {
+  const result: DisplayRow[] = [];
+  let index = 0;
+  while (index < rows.length) {
+    if (rows[index].left?.type !== 'same') {
+      result.push(rows[index++]);
+      continue;
+    }
+    let end = index;
+    while (end < rows.length && rows[end].left?.type === 'same') end++;
+    const keepBefore = index === 0 ? 0 : CONTEXT_LINES; // Context after the previous change
+    const keepAfter = end === rows.length ? 0 : CONTEXT_LINES; // Context before the next change
+    if (end - index > keepBefore + keepAfter + 1) {
+      result.push(...rows.slice(index, index + keepBefore), { folded: end - index - keepBefore - keepAfter }, ...rows.slice(end - keepAfter, end));
+    } else {
+      result.push(...rows.slice(index, end));
+    }
+    index = end;
+  }
+  return result;
+}
+
+function DiffCell({ line, side }: { line: DiffLine | null; side: 'left' | 'right' }) {
+  const number = side === 'left' ? line?.oldNumber : line?.newNumber;
+  return (
+    <>
+      <td className={cn(
+        "w-10 select-none px-1.5 text-right align-top text-muted-foreground/70 tabular-nums",
+        side === 'right' && "border-l"
+      )}>
+        {number}
+      </td>
+      <td className={cn(
+        "whitespace-pre-wrap break-all px-2 align-top",
+        !line && "bg-muted/40",
+        line?.type === 'removed' && "bg-red-500/10 text-red-800 dark:text-red-300",
+        line?.type === 'added' && "bg-emerald-500/10 text-emerald-800 dark:text-emerald-300"
+      )}>
+        {line?.text}
+      </td>
+    </>
+  );
+}
+
+// Side-by-side source diff of two versions of an artifact, file by file
+export function ArtifactDiff({ oldFiles, newFiles }: ArtifactDiffProps) {
+  const changes = useMemo<FileChange[]>(() => {
+    const paths = [...new Set([...newFiles.map(file => file.path), ...oldFiles.map(file => file.path)])];
+    return paths.map(path => {
+      const before = oldFiles.find(file => file.path === path)?.content;
+      const after = newFiles.find(file => file.path === path)?.content;
+      const status: FileStatus = before === undefined ? 'added' : after === undefined ? 'removed' : before === after ? 'unchanged' : 'modified';
+      return { path, status, rows: status === 'unchanged' ? [] : toSideBySide(diffLines(before ?? '', after ?? '')) };
+    });
+  }, [oldFiles, newFiles]);
+
+  const changed = changes.filter(change => change.status !== 'unchanged');
+  const unchanged = changes.filter(change => change.status === 'unchanged');
+
+  if (changed.length === 0) {
+    return <p className="p-3 text-muted-foreground">The two versions have the same files.</p>;
+  }
+
+  return (
+    <div className="space-y-3 p-2">
+      {changed.map(change => (
+        <div key={change.path} className="overflow-hidden rounded border">
+          <div className="flex items-center gap-2 border-b bg-muted/50 px-2 py-1 font-medium">
+            <span className="truncate">{change.path}</span>
+            <span className={cn(
+              "ml-auto text-[10px] uppercase tracking-wide",
+              change.status === 'added' && "text-emerald-600 dark:text-emerald-400",
+              change.status === 'removed' && "text-red-600 dark:text-red-400",
+              change.status === 'modified' && "text-muted-foreground"
+            )}>
+              {change.status}
+            </span>
+          </div>
+          <table className="w-full table-fixed border-collapse font-mono text-[11px] leading-5">
+            <colgroup>
+              <col className="w-10" />
+              <col />
+              <col className="w-10" />
+              <col />
+            </colgroup>
+            <tbody>
+              {foldUnchanged(change.rows).map((row, index) => 'folded' in row ? (
+                <tr key={index} className="bg-muted/30 text-muted-foreground">
+                  <td colSpan={4} className="px-2 text-center">⋯ {row.folded} unchanged line{row.folded === 1 ? '' : 's'}</td>
+                </tr>
+              ) : (
+                <tr key={index}>
+                  <DiffCell line={row.left} side="left" />
+                  <DiffCell line={row.right} side="right" />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+      {unchanged.length > 0 && (
+        <p className="px-1 text-muted-foreground">
+          Unchanged: {unchanged.map(change => change.path).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,139 +1,378 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import vscDarkPlus from 'react-syntax-highlighter/dist/esm/styles/prism/vsc-dark-plus';
+import { Camera, ChevronDown, ChevronRight, Crop, FileCode2, Folder, RotateCcw, SendHorizontal, Sparkles, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import {
+  areArtifactFilesEqual,
+  getArtifactEntry,
+  type ArtifactFile,
+  type ArtifactHistory,
+  type ArtifactScreenshot,
+  type ArtifactVersion,
+} from '@/lib/artifacts';
+import { ArtifactDiff } from './ArtifactDiff';
+import { ArtifactCodeEditor } from './ArtifactCodeEditor';
+import { ArtifactBuildError, buildArtifact } from '@/artifact-renderer/_lib/build';
+import type { ArtifactErrorLocation } from '@/artifact-renderer/_lib/artifact.worker';
+import {
+  ARTIFACT_PROTOCOL,
+  ARTIFACT_PROTOCOL_VERSION,
+  isHandshakeMessage,
+  type HostConnectMessage,
+  type ArtifactConsoleEntry,
+  type CaptureTarget,
+  type HostMessage,
+  type RendererMessage,
+  type RendererReadyMessage,
+} from '@/artifact-renderer/_lib/protocol';
 
-// Define message types received from iframe
-interface InitCompleteMessage {
-    type: 'INIT_COMPLETE';
+interface ArtifactViewerProps {
+  files: ArtifactFile[];
+  // Versions of this artifact in the chat, the last one being `files`
+  history?: ArtifactHistory;
+  // Makes an earlier version the current one (posted again in the chat)
+  onRestoreVersion?: (history: ArtifactHistory, version: ArtifactVersion) => void;
+  // Posts the files edited in the code tab to the chat as the artifact's next version
+  onSaveEdits?: (history: ArtifactHistory, files: ArtifactFile[]) => void;
+  // Asks the model to repair the rendered files, given the errors they ran into
+  onRequestFix?: (history: ArtifactHistory, files: ArtifactFile[], errors: string[]) => void;
+  // Attaches a screenshot of the preview to the next message
+  onCaptureScreenshot?: (screenshot: ArtifactScreenshot) => void;
+  className?: string;
 }
 
-// REMOVE SelectionDataMessage
-/*
-interface SelectionDataMessage {
-    type: 'SELECTION_DATA';
-    payload: {
-        imageDataUrl: string | null;
-        error?: string;
-    };
+type ArtifactTab = 'preview' | 'code' | 'files' | 'history';
+
+const TAB_LABELS: Record<ArtifactTab, string> = { preview: 'Preview', code: 'Code', files: 'Files', history: 'History' };
+
+// Pause in typing before edited files are built and rendered
+const EDIT_RENDER_DELAY_MS = 400;
+
+interface BuildErrorState {
+  message: string;
+  location?: ArtifactErrorLocation;
 }
-*/
 
-// Adjust IframeMessage type
-type IframeMessage = InitCompleteMessage; // Only InitComplete now
+// Kept per render; repeated identical entries are counted instead
+const MAX_CONSOLE_ENTRIES = 200;
 
-// Define message types sent to iframe
-interface UpdateComponentMessage {
-  type: 'UPDATE_COMPONENT';
-  payload: {
-    code: string;
-  };
+interface ConsoleEntry extends ArtifactConsoleEntry {
+  repeat: number;
 }
 
-// REMOVE CaptureSelectionMessage
-/*
-interface CaptureSelectionMessage {
-    type: 'CAPTURE_SELECTION';
-    payload?: {
-        selector?: string;
-    };
+// Rendering the capture can take a while on large artifacts
+const CAPTURE_TIMEOUT_MS = 20000;
+// Smaller drags are taken as clicks and cancel the region selection
+const MIN_REGION_SIZE = 8;
+
+type CaptureRegion = NonNullable<CaptureTarget['region']>;
+
+interface PendingCapture {
+  resolve: (imageDataUrl: string) => void;
+  reject: (error: Error) => void;
 }
-*/
 
-// Adjust ParentMessage type
-type ParentMessage = UpdateComponentMessage; // Only UpdateComponent now
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
 
-interface ArtifactViewerProps {
-  code: string;
-  className?: string;
+// The data URL comes from the artifact's window, so it's decoded here rather than fetched:
+// fetching would request whatever URL the artifact's code sends, with the app's origin and cookies
+function decodePngDataUrl(dataUrl: string): Blob {
+  if (!dataUrl.startsWith(PNG_DATA_URL_PREFIX)) {
+    throw new Error('The renderer did not return a PNG image.');
+  }
+  const binary = atob(dataUrl.slice(PNG_DATA_URL_PREFIX.length));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new Blob([bytes], { type: 'image/png' });
+}
+
+const CONSOLE_LEVEL_STYLES: Record<ArtifactConsoleEntry['level'], string> = {
+  log: '',
+  warn: 'bg-amber-500/10 text-amber-800 dark:text-amber-300',
+  error: 'bg-red-500/10 text-red-700 dark:text-red-400',
+};
+
+interface FileTreeNode {
+  name: string;
+  path: string; // Full path for files, directory path for folders
+  children: FileTreeNode[] | null; // null for files
+}
+
+// Nested tree of the artifact's paths, folders first
+function buildFileTree(files: ArtifactFile[]): FileTreeNode[] {
+  const root: FileTreeNode[] = [];
+  for (const file of files) {
+    let level = root;
+    const segments = file.path.split('/');
+    segments.forEach((segment, index) => {
+      const isFile = index === segments.length - 1;
+      const path = segments.slice(0, index + 1).join('/');
+      let node = level.find(item => item.name === segment && (item.children === null) === isFile);
+      if (!node) {
+        node = { name: segment, path, children: isFile ? null : [] };
+        level.push(node);
+      }
+      if (node.children) level = node.children;
+    });
+  }
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] => nodes
+    .sort((a, b) => Number(a.children === null) - Number(b.children === null) || a.name.localeCompare(b.name))
+    .map(node => (node.children ? { ...node, children: sort(node.children) } : node));
+  return sort(root);
+}
+
+const SOURCE_LANGUAGES: Record<string, string> = { tsx: 'tsx', ts: 'typescript', jsx: 'jsx', js: 'javascript', css: 'css', json: 'json' };
+
+function FileTree({ nodes, depth, selectedPath, entry, onSelect }: {
+  nodes: FileTreeNode[];
+  depth: number;
+  selectedPath: string;
+  entry: string | null;
+  onSelect: (path: string) => void;
+}) {
+  return (
+    <ul>
+      {nodes.map(node => (
+        <li key={node.path}>
+          {node.children ? (
+            <>
+              <div className="flex items-center gap-1.5 py-0.5 text-muted-foreground" style={{ paddingLeft: depth * 12 + 8 }}>
+                <Folder className="h-3.5 w-3.5 flex-shrink-0" />
+                <span className="truncate">{node.name}</span>
+              </div>
+              <FileTree nodes={node.children} depth={depth + 1} selectedPath={selectedPath} entry={entry} onSelect={onSelect} />
+            </>
+          ) : (
+            <button
+              type="button"
+              className={cn(
+                "flex w-full items-center gap-1.5 py-0.5 pr-2 text-left hover:bg-muted",
+                node.path === selectedPath && "bg-muted font-medium"
+              )}
+              style={{ paddingLeft: depth * 12 + 8 }}
+              onClick={() => onSelect(node.path)}
+              title={node.path === entry ? `${node.path} (entry)` : node.path}
+            >
+              <FileCode2 className="h-3.5 w-3.5 flex-shrink-0" />
+              <span className="truncate">{node.name}</span>
+              {node.path === entry && <span className="ml-auto text-[10px] text-muted-foreground">entry</span>}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatVersionTime(createdAt: Date | undefined): string | null {
+  return createdAt ? new Date(createdAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : null;
 }
 
-const ArtifactViewerComponent = ({ code, className }: ArtifactViewerProps) => {
+function VersionSelect({ versions, value, onChange, label }: {
+  versions: ArtifactVersion[];
+  value: number;
+  onChange: (number: number) => void;
+  label: string;
+}) {
+  return (
+    <Select value={String(value)} onValueChange={(next) => onChange(Number(next))}>
+      <SelectTrigger className="h-6 w-20 px-2 text-xs" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.number} value={String(version.number)} className="text-xs">
+            v{version.number}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const ArtifactViewerComponent = ({
+  files: currentFiles,
+  history,
+  onRestoreVersion,
+  onSaveEdits,
+  onRequestFix,
+  onCaptureScreenshot,
+  className,
+}: ArtifactViewerProps) => {
+  const versions = useMemo(() => history?.versions ?? [], [history]);
+  const latestNumber = versions.length;
+  // Version shown in the preview and files tabs (null follows the current one)
+  const [previewNumber, setPreviewNumber] = useState<number | null>(null);
+  const previewVersion = previewNumber !== null && previewNumber !== latestNumber
+    ? versions.find(version => version.number === previewNumber)
+    : undefined;
+  const baseFiles = previewVersion?.files ?? currentFiles;
+  // Files edited in the code tab (null while unedited); they are rendered once typing pauses
+  const [draftFiles, setDraftFiles] = useState<ArtifactFile[] | null>(null);
+  const [renderedDraftFiles, setRenderedDraftFiles] = useState<ArtifactFile[] | null>(null);
+  const editorFiles = draftFiles ?? baseFiles;
+  const files = renderedDraftFiles ?? baseFiles;
+  const isEdited = draftFiles !== null && !areArtifactFilesEqual(draftFiles, baseFiles);
+  const [editorPath, setEditorPath] = useState<string | null>(null);
+  const editorFile = editorFiles.find(file => file.path === editorPath) ?? editorFiles.find(file => file.path === getArtifactEntry(editorFiles)) ?? editorFiles[0];
+  const [buildError, setBuildError] = useState<BuildErrorState | null>(null);
+  // Output of the current render, reported by the renderer
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+  const consoleErrors = useMemo(() => [
+    ...(buildError ? [buildError.message] : []),
+    ...consoleEntries.filter(entry => entry.level === 'error').map(entry => entry.message),
+  ], [buildError, consoleEntries]);
+  const consoleWarningCount = consoleEntries.filter(entry => entry.level === 'warn').length;
+  // Screenshots: the renderer answers CAPTURE_SELECTION with SELECTION_DATA
+  const pendingCapture = useRef<PendingCapture | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isCaptureMenuOpen, setIsCaptureMenuOpen] = useState(false);
+  const [captureSelector, setCaptureSelector] = useState('');
+  const [askAboutCapture, setAskAboutCapture] = useState(true);
+  // Region dragged over the preview, in the iframe's coordinates
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
+  const regionStart = useRef<{ x: number; y: number } | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<CaptureRegion | null>(null);
+  // Versions compared in the history tab, the previous and the current one by default
+  const [comparedNumbers, setComparedNumbers] = useState<[number, number] | null>(null);
+  const [compareFrom, compareTo] = comparedNumbers ?? [Math.max(latestNumber - 1, 1), latestNumber];
+  const compareFromVersion = versions.find(version => version.number === compareFrom);
+  const compareToVersion = versions.find(version => version.number === compareTo);
+
+  // Another version replaces the edits
+  const showVersion = (number: number | null) => {
+    setPreviewNumber(number);
+    setDraftFiles(null);
+  };
+
+  useEffect(() => {
+    if (!draftFiles) {
+      setRenderedDraftFiles(null);
+      return;
+    }
+    const timer = setTimeout(() => setRenderedDraftFiles(draftFiles), EDIT_RENDER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftFiles]);
+
+  const handleEditorChange = (content: string) => {
+    if (!editorFile) return;
+    setDraftFiles(editorFiles.map(file => (file.path === editorFile.path ? { ...file, content } : file)));
+  };
+
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Our end of the channel to the renderer, set up when it reports READY
+  const rendererPort = useRef<MessagePort | null>(null);
   const [iframeReady, setIframeReady] = useState(false);
   const [iframeError, setIframeError] = useState<string | null>(null);
-  const artifactCode = useRef<string>(code);
+  // Files and entry compared as one string, so a new array with the same files doesn't resend them
+  const entry = useMemo(() => getArtifactEntry(files), [files]);
+  const projectKey = useMemo(() => JSON.stringify({ files, entry }), [files, entry]);
+  const artifactCode = useRef<string>(projectKey);
   // const [isCapturing, setIsCapturing] = useState(false); // REMOVE isCapturing state
   const [initialCodeSent, setInitialCodeSent] = useState(false);
+  const [activeTab, setActiveTab] = useState<ArtifactTab>('preview');
+  const [selectedPath, setSelectedPath] = useState<string>(entry ?? files[0]?.path ?? '');
+  const fileTree = useMemo(() => buildFileTree(files), [files]);
+  const selectedFile = files.find(file => file.path === selectedPath) ?? files[0];
 
   // ---- START DEBUG LOG ----
-  console.log('[ArtifactViewer] Rendering component with code (start):', artifactCode.current.substring(0, 50) + '...');
+  console.log('[ArtifactViewer] Rendering component with files:', files.map(file => file.path).join(', '));
   // ---- END DEBUG LOG ----
 
   // --- Mount/Unmount Logging ---
+  // Changed files (e.g. another version) are sent by the effect below, the iframe stays connected
   useEffect(() => {
-    console.log(`[ArtifactViewer MOUNT] Component mounted with code length: ${code?.length}`);
-    setIframeReady(false);
-    setIframeError(null);
-    setInitialCodeSent(false);
-    artifactCode.current = code;
+    console.log(`[ArtifactViewer MOUNT] Component mounted with ${files.length} file(s)`);
     return () => {
       console.log(`[ArtifactViewer UNMOUNT] Component unmounting.`);
     };
-  }, [code]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // --- Post Message TO Iframe ---
-  const postMessageToIframe = useCallback((message: UpdateComponentMessage) => {
-    if (iframeRef.current?.contentWindow) {
-      console.log('[ArtifactViewer] Posting message to iframe:', message.type, message.payload);
-      iframeRef.current.contentWindow.postMessage(message, '*');
+  const postMessageToIframe = useCallback((message: HostMessage) => {
+    if (rendererPort.current) {
+      console.log('[ArtifactViewer] Posting message to iframe:', message.type);
+      rendererPort.current.postMessage(message);
     } else {
-      console.warn('[ArtifactViewer] Cannot post message, iframe content window not available.');
+      console.warn('[ArtifactViewer] Cannot post message, not connected to the renderer.');
       toast.error("Artifact Communication Error", { description: "Could not send data to the artifact renderer." });
-      // setIsCapturing(false); // REMOVE this line
     }
   }, []);
 
-  // --- Message Handler FROM Iframe ---
+  // --- Handshake with the Iframe ---
   useEffect(() => {
     console.log('[ArtifactViewer] Adding message listener for iframe communication.');
 
-    const handleMessage = (event: MessageEvent<InitCompleteMessage>) => {
-      const iframeSrc = iframeRef.current?.src;
-      if (!iframeSrc) {
-         console.warn('[ArtifactViewer] Received message but iframe src is not set. Ignoring.');
-         return;
+    const handleRendererMessage = (event: MessageEvent<RendererMessage>) => {
+      console.log('[ArtifactViewer] Received message from iframe:', event.data.type);
+      switch (event.data.type) {
+        case 'SELECTION_DATA': {
+          const { imageDataUrl, error } = event.data.payload;
+          if (error) {
+            console.warn('[ArtifactViewer] Capture failed in the renderer:', error);
+          }
+          const pending = pendingCapture.current;
+          pendingCapture.current = null;
+          if (imageDataUrl) {
+            pending?.resolve(imageDataUrl);
+          } else {
+            pending?.reject(new Error(error ?? 'The renderer returned no image.'));
+          }
+          break;
+        }
+        case 'CONSOLE': {
+          const entry = event.data.payload;
+          setConsoleEntries(prev => {
+            const last = prev[prev.length - 1];
+            if (last && last.level === entry.level && last.message === entry.message) {
+              return [...prev.slice(0, -1), { ...last, repeat: last.repeat + 1 }];
+            }
+            return [...prev, { ...entry, repeat: 1 }].slice(-MAX_CONSOLE_ENTRIES);
+          });
+          break;
+        }
+        default:
+          console.warn('[ArtifactViewer] Received unknown message type from iframe:', (event.data as { type?: string })?.type);
       }
+    };
 
-      try {
-        void new URL(iframeSrc).origin; // Use void to indicate result is intentionally unused
-      } catch /* e */ {
-        console.error("[ArtifactViewer] Invalid iframe src URL:", iframeSrc);
+    // The sandboxed iframe has an opaque origin ('null'), so the sender is checked by window instead
+    const handleMessage = (event: MessageEvent) => {
+      const contentWindow = iframeRef.current?.contentWindow;
+      if (!contentWindow || event.source !== contentWindow || !isHandshakeMessage<RendererReadyMessage>(event.data, 'READY')) {
         return;
       }
-
-      // Relaxed origin check for simplicity during debugging, tighten later
-      // if (event.origin !== allowedOrigin) {
-      //   return;
-      // }
-      if (event.source !== iframeRef.current?.contentWindow) {
-          // Ensure message is actually from our iframe's content window
-          return;
+      if (event.data.version !== ARTIFACT_PROTOCOL_VERSION) {
+        console.error(`[ArtifactViewer] Renderer speaks protocol version ${event.data.version}, expected ${ARTIFACT_PROTOCOL_VERSION}.`);
+        setIframeError("The artifact renderer is out of date. Reload the page.");
+        setIframeReady(false);
+        return;
       }
 
-      console.log('[ArtifactViewer] Received message from iframe:', event.data.type, event.data);
-
-      switch (event.data.type) {
-        case 'INIT_COMPLETE':
-          console.log('[ArtifactViewer] Iframe reported INIT_COMPLETE. Setting ready state.');
-          setIframeReady(true);
-          setIframeError(null);
-          break;
-        // REMOVE SELECTION_DATA case
-        /*
-        case 'SELECTION_DATA':
-          console.log('[ArtifactViewer] Received SELECTION_DATA from iframe.', event.data.payload);
-          // setIsCapturing(false);
-          // ... toast/download logic ...
-          break;
-        */
-        default:
-          // Handle potentially unknown message types if necessary, or assert never
-          // const _exhaustiveCheck: never = event.data;
-          console.warn('[ArtifactViewer] Received unknown message type from iframe:', (event.data as any)?.type);
-      }
+      // READY after a reload of the iframe replaces the old channel, and the files are sent again
+      console.log('[ArtifactViewer] Iframe reported READY. Opening a channel.');
+      rendererPort.current?.close();
+      const channel = new MessageChannel();
+      channel.port1.onmessage = handleRendererMessage;
+      rendererPort.current = channel.port1;
+      contentWindow.postMessage(
+        { protocol: ARTIFACT_PROTOCOL, version: ARTIFACT_PROTOCOL_VERSION, type: 'CONNECT' } satisfies HostConnectMessage,
+        '*',
+        [channel.port2]
+      );
+      setInitialCodeSent(false);
+      setIframeReady(true);
+      setIframeError(null);
     };
 
     window.addEventListener('message', handleMessage);
@@ -141,25 +380,43 @@ const ArtifactViewerComponent = ({ code, className }: ArtifactViewerProps) => {
     return () => {
        console.log('[ArtifactViewer] Removing message listener.');
       window.removeEventListener('message', handleMessage);
+      rendererPort.current?.close();
+      rendererPort.current = null;
     };
   }, []); // Run only once on mount
 
-  // Effect to send code update if the code prop changes OR if iframe just became ready
+  // Effect to send code update if the files change OR if iframe just became ready
   useEffect(() => {
-    console.log(`[ArtifactViewer] Code prop effect triggered. iframeReady: ${iframeReady}, initialCodeSent: ${initialCodeSent}, Code prop length: ${code?.length}, Current ref code length: ${artifactCode.current?.length}`);
+    console.log(`[ArtifactViewer] Code prop effect triggered. iframeReady: ${iframeReady}, initialCodeSent: ${initialCodeSent}, Files: ${files.length}, Entry: ${entry}`);
 
-    if (iframeReady && code) {
+    if (iframeReady && entry) {
       // Send code if:
       // 1. iframe is ready AND initial code hasn't been sent yet
       // OR
       // 2. The code prop has actually changed from what's currently in the ref
-      const shouldSendCode = !initialCodeSent || code !== artifactCode.current;
+      const shouldSendCode = !initialCodeSent || projectKey !== artifactCode.current;
 
       if (shouldSendCode) {
-         console.log(`[ArtifactViewer] Sending UPDATE_COMPONENT (${!initialCodeSent ? 'Initial' : 'Changed'}).`);
-         artifactCode.current = code; // Update the ref *now* to reflect sent code
+         console.log(`[ArtifactViewer] Building and sending the artifact (${!initialCodeSent ? 'Initial' : 'Changed'}).`);
+         artifactCode.current = projectKey; // Update the ref *now* to reflect sent code
          setIframeError(null); // Clear any previous error
-         postMessageToIframe({ type: 'UPDATE_COMPONENT', payload: { code } });
+         postMessageToIframe({ type: 'BUILD_STARTED' });
+         setConsoleEntries([]);
+         // Built here, the iframe can't run the app's worker; a result for older files is dropped
+         buildArtifact(files, entry).then(
+           (build) => {
+             if (artifactCode.current !== projectKey) return;
+             setBuildError(null);
+             postMessageToIframe({ type: 'RENDER', payload: build });
+           },
+           (error: unknown) => {
+             if (artifactCode.current !== projectKey) return;
+             const message = error instanceof Error ? error.message : String(error);
+             // Kept for the code tab, which marks the error's position
+             setBuildError({ message, location: error instanceof ArtifactBuildError ? error.location : undefined });
+             postMessageToIframe({ type: 'BUILD_ERROR', payload: { error: message } });
+           }
+         );
          if (!initialCodeSent) {
            setInitialCodeSent(true); // Mark initial code as sent *after* successful post attempt
          }
@@ -168,15 +425,111 @@ const ArtifactViewerComponent = ({ code, className }: ArtifactViewerProps) => {
       }
     } else if (!iframeReady) {
         console.log('[ArtifactViewer] Code prop effect triggered but iframe NOT ready. No update sent.');
-    } else if (!code) {
-         console.log('[ArtifactViewer] Code prop effect triggered but code is empty. No update sent.');
+    } else if (!entry) {
+         console.log('[ArtifactViewer] Code prop effect triggered but there is no script to render. No update sent.');
+    }
+    // files and entry are covered by projectKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectKey, iframeReady, postMessageToIframe, initialCodeSent]);
+
+  // --- Screenshots ---
+  const captureScreenshot = async (target: CaptureTarget, description: string) => {
+    if (!onCaptureScreenshot) return;
+    setIsCaptureMenuOpen(false);
+    if (!rendererPort.current || !iframeReady) {
+      toast.error("Capture Failed", { description: "The artifact renderer isn't ready yet." });
+      return;
+    }
+    setIsCapturing(true);
+    try {
+      const imageDataUrl = await new Promise<string>((resolve, reject) => {
+        pendingCapture.current?.reject(new Error('Replaced by a newer capture.'));
+        const timer = setTimeout(() => {
+          if (pendingCapture.current === pending) pendingCapture.current = null;
+          reject(new Error('The artifact renderer did not answer in time.'));
+        }, CAPTURE_TIMEOUT_MS);
+        const pending: PendingCapture = {
+          resolve: (dataUrl) => { clearTimeout(timer); resolve(dataUrl); },
+          reject: (error) => { clearTimeout(timer); reject(error); },
+        };
+        pendingCapture.current = pending;
+        postMessageToIframe({ type: 'CAPTURE_SELECTION', payload: target });
+      });
+      const image = decodePngDataUrl(imageDataUrl);
+      onCaptureScreenshot({
+        file: new File([image], `${history?.id ?? 'artifact'}-screenshot.png`, { type: 'image/png' }),
+        artifactId: history?.id ?? null,
+        target: description,
+        ask: askAboutCapture,
+      });
+    } catch (error) {
+      console.error('[ArtifactViewer] Capture failed:', error);
+      toast.error("Capture Failed", { description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const startRegionSelection = () => {
+    setIsCaptureMenuOpen(false);
+    if (activeTab !== 'preview' && activeTab !== 'code') setActiveTab('preview');
+    setSelectedRegion(null);
+    setIsSelectingRegion(true);
+  };
+
+  useEffect(() => {
+    if (!isSelectingRegion) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      regionStart.current = null;
+      setSelectedRegion(null);
+      setIsSelectingRegion(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelectingRegion]);
+
+  const getRegionPoint = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  };
+
+  const handleRegionPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    regionStart.current = getRegionPoint(event);
+    setSelectedRegion({ ...regionStart.current, width: 0, height: 0 });
+  };
+
+  const getRegion = (event: React.PointerEvent<HTMLDivElement>, start: { x: number; y: number }): CaptureRegion => {
+    const point = getRegionPoint(event);
+    return {
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    };
+  };
+
+  const handleRegionPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (regionStart.current) setSelectedRegion(getRegion(event, regionStart.current));
+  };
+
+  // The region comes from this event, not from state, which may not have caught up with the last move
+  const handleRegionPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = regionStart.current;
+    regionStart.current = null;
+    setSelectedRegion(null);
+    setIsSelectingRegion(false);
+    const region = start && getRegion(event, start);
+    if (region && region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      void captureScreenshot({ region }, 'the selected region');
     }
-  }, [code, iframeReady, postMessageToIframe, initialCodeSent]);
+  };
 
   // --- Iframe onLoad and onError handlers ---
   const handleIframeLoad = () => {
      console.log('[ArtifactViewer] Iframe onLoad event triggered.');
-     // The INIT_COMPLETE message is the true indicator of readiness
+     // The READY message is the true indicator of readiness
   };
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -189,37 +542,352 @@ const ArtifactViewerComponent = ({ code, className }: ArtifactViewerProps) => {
   };
 
   return (
-    <div className={cn("artifact-viewer-container border rounded-md overflow-hidden relative bg-muted/20", className)}>
-      {!iframeReady && !iframeError && (
-         <div className="absolute inset-0 flex items-center justify-center p-4 pointer-events-none">
-            <Skeleton className="h-full w-full" />
-            <p className="absolute text-muted-foreground text-sm">Loading Artifact Renderer...</p>
-         </div>
+    <div className={cn("artifact-viewer-container border rounded-md overflow-hidden bg-muted/20", className)}>
+      <div className="flex items-center gap-1 border-b px-2 py-1 text-xs bg-background">
+        {(['preview', 'code', 'files', ...(versions.length > 1 ? ['history' as const] : [])] as const).map(tab => (
+          <button
+            key={tab}
+            type="button"
+            className={cn(
+              "rounded px-2 py-0.5 font-medium transition-colors",
+              activeTab === tab ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground"
+            )}
+            onClick={() => setActiveTab(tab)}
+          >
+            {TAB_LABELS[tab]}
+            {tab === 'files' && ` (${files.length})`}
+            {tab === 'history' && ` (${versions.length})`}
+            {tab === 'code' && isEdited && ' •'}
+          </button>
+        ))}
+        {entry && <span className="ml-auto truncate text-muted-foreground" title="Rendered file">{entry}</span>}
+        {onCaptureScreenshot && entry && (
+          <Popover open={isCaptureMenuOpen} onOpenChange={setIsCaptureMenuOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 flex-shrink-0 px-2 text-xs"
+                disabled={isCapturing || !iframeReady}
+                title="Attach a screenshot of the preview to your next message"
+              >
+                <Camera className="h-3 w-3" />
+                {isCapturing ? 'Capturing...' : 'Capture'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 space-y-2 p-3 text-xs">
+              <p className="font-medium">Attach a screenshot of the preview</p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={() => void captureScreenshot({}, 'the whole artifact')}>
+                  <Camera className="h-3 w-3" />
+                  Whole artifact
+                </Button>
+                <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={startRegionSelection}>
+                  <Crop className="h-3 w-3" />
+                  Select region
+                </Button>
+              </div>
+              <form
+                className="flex gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  const selector = captureSelector.trim();
+                  if (selector) void captureScreenshot({ selector }, `the element \`${selector}\``);
+                }}
+              >
+                <Input
+                  value={captureSelector}
+                  onChange={(event) => setCaptureSelector(event.target.value)}
+                  placeholder="CSS selector, e.g. .card"
+                  className="h-7 text-xs"
+                  aria-label="CSS selector of the element to capture"
+                />
+                <Button type="submit" variant="outline" size="sm" className="h-7 text-xs" disabled={!captureSelector.trim()}>
+                  Element
+                </Button>
+              </form>
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="accent-indigo-500"
+                  checked={askAboutCapture}
+                  onChange={(event) => setAskAboutCapture(event.target.checked)}
+                />
+                Ask the assistant about it
+              </label>
+            </PopoverContent>
+          </Popover>
+        )}
+        {previewVersion && (
+          <span className="flex flex-shrink-0 items-center gap-1 rounded bg-amber-100 dark:bg-amber-950/60 px-1.5 text-amber-800 dark:text-amber-300">
+            v{previewVersion.number} of {latestNumber}
+            <button type="button" className="underline underline-offset-2" onClick={() => showVersion(null)}>
+              Show current
+            </button>
+          </span>
+        )}
+      </div>
+      <div className={cn(activeTab === 'code' && "flex h-[400px]")}>
+        {activeTab === 'code' && editorFile && (
+          <div className="flex w-1/2 min-w-0 flex-col text-xs bg-background">
+            <div className="flex flex-shrink-0 items-center gap-1 overflow-x-auto border-b px-1 py-1">
+              {editorFiles.map(file => (
+                <button
+                  key={file.path}
+                  type="button"
+                  className={cn(
+                    "flex-shrink-0 rounded px-1.5 py-0.5",
+                    file.path === editorFile.path ? "bg-muted font-medium" : "text-muted-foreground hover:text-foreground",
+                    buildError?.location?.path === file.path && "text-red-600 dark:text-red-400"
+                  )}
+                  onClick={() => setEditorPath(file.path)}
+                >
+                  {file.path}
+                </button>
+              ))}
+            </div>
+            <ArtifactCodeEditor
+              className="flex-1 min-h-0"
+              value={editorFile.content}
+              language={SOURCE_LANGUAGES[editorFile.path.split('.').pop() ?? ''] ?? 'text'}
+              onChange={handleEditorChange}
+              markers={buildError?.location?.path === editorFile.path
+                ? [{ line: buildError.location.line, column: buildError.location.column, message: buildError.message }]
+                : []}
+            />
+            {buildError && (
+              <button
+                type="button"
+                className="flex-shrink-0 truncate border-t bg-destructive/10 px-2 py-1 text-left text-destructive"
+                title={buildError.message}
+                onClick={() => buildError.location && setEditorPath(buildError.location.path)}
+              >
+                {buildError.message.split('\n')[0]}
+              </button>
+            )}
+            <div className="flex flex-shrink-0 items-center gap-1 border-t px-2 py-1">
+              <span className="text-muted-foreground">
+                {isEdited ? 'Edited, the preview updates as you type' : 'Edit the source to update the preview'}
+              </span>
+              {isEdited && (
+                <>
+                  <Button variant="ghost" size="sm" className="ml-auto h-6 px-2 text-xs" onClick={() => setDraftFiles(null)}>
+                    <Undo2 className="h-3 w-3" />
+                    Revert
+                  </Button>
+                  {history && onSaveEdits && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      title="Post the edited files in the chat as the new version"
+                      onClick={() => onSaveEdits(history, draftFiles)}
+                    >
+                      <SendHorizontal className="h-3 w-3" />
+                      Send to chat
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+        {/* The iframe stays mounted while other tabs are shown, so the preview keeps its state */}
+        <div className={cn(
+          "relative",
+          activeTab === 'code' && "w-1/2 min-w-0 border-l",
+          activeTab !== 'preview' && activeTab !== 'code' && "hidden"
+        )}>
+          {isSelectingRegion && (
+            <div
+              className="absolute inset-0 z-10 cursor-crosshair touch-none bg-black/5"
+              onPointerDown={handleRegionPointerDown}
+              onPointerMove={handleRegionPointerMove}
+              onPointerUp={handleRegionPointerUp}
+            >
+              {selectedRegion ? (
+                <div
+                  className="absolute border-2 border-primary bg-primary/10"
+                  style={{ left: selectedRegion.x, top: selectedRegion.y, width: selectedRegion.width, height: selectedRegion.height }}
+                />
+              ) : (
+                <p className="pointer-events-none absolute left-1/2 top-2 -translate-x-1/2 rounded bg-background/90 px-2 py-1 text-xs text-muted-foreground shadow">
+                  Drag over the part to capture · Esc to cancel
+                </p>
+              )}
+            </div>
+          )}
+          {!iframeReady && !iframeError && (
+             <div className="absolute inset-0 flex items-center justify-center p-4 pointer-events-none">
+                <Skeleton className="h-full w-full" />
+                <p className="absolute text-muted-foreground text-sm">Loading Artifact Renderer...</p>
+             </div>
+          )}
+          {iframeError && (
+               <div className="absolute inset-0 flex items-center justify-center p-4 bg-destructive/10">
+                  <p className="text-destructive text-sm font-medium text-center">Error:<br />{iframeError}</p>
+               </div>
+          )}
+          <iframe
+            ref={iframeRef}
+            src="/artifact-renderer"
+            title="Artifact Renderer"
+            className={cn(
+                "block w-full h-[400px] border-0 transition-opacity duration-300",
+                iframeReady ? "opacity-100" : "opacity-0",
+                iframeError ? "opacity-0" : ""
+            )}
+            // No allow-same-origin: artifact code gets an opaque origin, so it can't reach the app's
+            // storage or cookies. Network access is blocked by the renderer's CSP (next.config.mjs).
+            sandbox="allow-scripts"
+            onLoad={handleIframeLoad}
+            onError={handleIframeError}
+          />
+        </div>
+      </div>
+      {activeTab === 'files' && (
+        <div className="flex h-[400px] text-xs bg-background">
+          <div className="w-48 flex-shrink-0 overflow-y-auto border-r py-1">
+            <FileTree nodes={fileTree} depth={0} selectedPath={selectedFile?.path ?? ''} entry={entry} onSelect={setSelectedPath} />
+          </div>
+          <div className="flex-1 min-w-0 overflow-auto">
+            {selectedFile && (
+              <SyntaxHighlighter
+                language={SOURCE_LANGUAGES[selectedFile.path.split('.').pop() ?? ''] ?? 'text'}
+                style={vscDarkPlus}
+                customStyle={{ background: 'transparent', padding: '0.75rem', margin: 0, fontSize: '0.75rem' }}
+                className="!bg-slate-50 dark:!bg-slate-900/70 min-h-full"
+                PreTag="div"
+                showLineNumbers
+              >
+                {selectedFile.content}
+              </SyntaxHighlighter>
+            )}
+          </div>
+        </div>
       )}
-      {iframeError && (
-           <div className="absolute inset-0 flex items-center justify-center p-4 bg-destructive/10">
-              <p className="text-destructive text-sm font-medium text-center">Error:<br />{iframeError}</p>
-           </div>
+      {activeTab === 'history' && history && (
+        <div className="flex h-[400px] flex-col text-xs bg-background">
+          <ol className="max-h-36 flex-shrink-0 overflow-y-auto divide-y border-b">
+            {[...versions].reverse().map(version => (
+              <li key={version.number} className={cn("flex items-center gap-2 px-2 py-1", version === previewVersion && "bg-muted")}>
+                <span className="w-6 font-medium">v{version.number}</span>
+                {version.number === latestNumber && <span className="rounded bg-muted px-1 text-[10px] text-muted-foreground">current</span>}
+                {version.sameAs && <span className="text-muted-foreground">same as v{version.sameAs}</span>}
+                <span className="truncate text-muted-foreground">
+                  {[formatVersionTime(version.createdAt), `${version.files.length} file${version.files.length === 1 ? '' : 's'}`].filter(Boolean).join(' · ')}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 px-2 text-xs"
+                  onClick={() => {
+                    showVersion(version.number === latestNumber ? null : version.number);
+                    setActiveTab('preview');
+                  }}
+                >
+                  Preview
+                </Button>
+                {onRestoreVersion && version.number !== latestNumber && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    title={`Post v${version.number} again as the current version`}
+                    onClick={() => {
+                      showVersion(null);
+                      onRestoreVersion(history, version);
+                    }}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-shrink-0 items-center gap-2 border-b px-2 py-1 text-muted-foreground">
+            Compare
+            <VersionSelect versions={versions} value={compareFrom} onChange={(number) => setComparedNumbers([number, compareTo])} label="Older version" />
+            with
+            <VersionSelect versions={versions} value={compareTo} onChange={(number) => setComparedNumbers([compareFrom, number])} label="Newer version" />
+          </div>
+          <div className="flex-1 min-h-0 overflow-auto">
+            {compareFromVersion && compareToVersion && (
+              <ArtifactDiff oldFiles={compareFromVersion.files} newFiles={compareToVersion.files} />
+            )}
+          </div>
+        </div>
+      )}
+      {(consoleEntries.length > 0 || buildError) && (
+        <div className="border-t text-xs bg-background">
+          <div className="flex items-center gap-2 px-2 py-1">
+            <button
+              type="button"
+              className="flex items-center gap-1 font-medium text-muted-foreground hover:text-foreground"
+              onClick={() => setIsConsoleOpen(open => !open)}
+              aria-expanded={isConsoleOpen}
+            >
+              {isConsoleOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              Console
+            </button>
+            {consoleErrors.length > 0 && (
+              <span className="text-red-600 dark:text-red-400">{consoleErrors.length} error{consoleErrors.length === 1 ? '' : 's'}</span>
+            )}
+            {consoleWarningCount > 0 && (
+              <span className="text-amber-700 dark:text-amber-400">{consoleWarningCount} warning{consoleWarningCount === 1 ? '' : 's'}</span>
+            )}
+            {history && onRequestFix && consoleErrors.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6 px-2 text-xs"
+                title="Send the files and errors to the assistant to repair the artifact"
+                onClick={() => onRequestFix(history, files, consoleErrors)}
+              >
+                <Sparkles className="h-3 w-3" />
+                Fix with AI
+              </Button>
+            )}
+          </div>
+          {isConsoleOpen && (
+            <ol className="max-h-40 overflow-y-auto border-t font-mono divide-y">
+              {buildError && (
+                <li className={cn("whitespace-pre-wrap break-words px-2 py-0.5", CONSOLE_LEVEL_STYLES.error)}>{buildError.message}</li>
+              )}
+              {consoleEntries.map((entry, index) => (
+                <li key={index} className={cn("flex gap-2 px-2 py-0.5", CONSOLE_LEVEL_STYLES[entry.level])}>
+                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{entry.message}</span>
+                  {entry.repeat > 1 && <span className="flex-shrink-0 rounded-full bg-muted px-1.5 text-muted-foreground">{entry.repeat}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
       )}
-      <iframe
-        ref={iframeRef}
-        src="/artifact-renderer.html"
-        title="Artifact Renderer"
-        className={cn(
-            "w-full h-[400px] border-0 transition-opacity duration-300",
-            iframeReady ? "opacity-100" : "opacity-0",
-            iframeError ? "opacity-0" : ""
-        )}
-        sandbox="allow-scripts allow-same-origin"
-        onLoad={handleIframeLoad}
-        onError={handleIframeError}
-      />
     </div>
   );
 }
 
 // --- Export the memoized version --- 
-export const ArtifactViewer = React.memo(ArtifactViewerComponent);
+// Messages re-extract their files on every render, so compare them by content
+function areHistoriesEqual(a: ArtifactHistory | undefined, b: ArtifactHistory | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.id === b.id && a.versions.length === b.versions.length && a.versions.every((version, index) =>
+    version.messageId === b.versions[index].messageId && areArtifactFilesEqual(version.files, b.versions[index].files)
+  );
+}
+
+export const ArtifactViewer = React.memo(
+  ArtifactViewerComponent,
+  (prev, next) => prev.className === next.className
+    && prev.onRestoreVersion === next.onRestoreVersion
+    && prev.onSaveEdits === next.onSaveEdits
+    && prev.onRequestFix === next.onRequestFix
+    && prev.onCaptureScreenshot === next.onCaptureScreenshot
+    && areArtifactFilesEqual(prev.files, next.files)
+    && areHistoriesEqual(prev.history, next.history)
+);
 
 // Add display name for easier debugging
 ArtifactViewer.displayName = 'ArtifactViewer'; 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import React from 'react';
+import Image from 'next/image';
+import type { Attachment } from 'ai';
+import type { MessageAttachment } from '@/ai/attachments';
+import { formatFileSize, getFileIconComponent } from '../chat-input/utils';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  // Image data sent with the message, used as thumbnails
+  images?: Attachment[];
+}
+
+// Chips for the files sent with a user message
+export function MessageAttachments({ attachments, images = [] }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => {
+        const imageUrl = attachment.kind === 'image' ? images.find(image => image.name === attachment.name)?.url : undefined;
+        const details = [formatFileSize(attachment.size), attachment.summary, attachment.truncated && 'truncated'];
+        return (
+          <div
+            key={attachment.id}
+            className="flex items-center gap-2 bg-neutral-100 dark:bg-neutral-800/80 border border-neutral-200 dark:border-neutral-700 rounded-lg px-2 py-1 text-xs max-w-xs"
+            title={attachment.name}
+          >
+            {imageUrl ? (
+              <Image
+                src={imageUrl}
+                alt={attachment.name}
+                width={32}
+                height={32}
+                className="object-cover rounded-sm flex-shrink-0"
+              />
+            ) : (
+              React.createElement(getFileIconComponent({ name: attachment.name, type: attachment.mimeType }), {
+                className: "h-5 w-5 text-neutral-500 dark:text-neutral-400 flex-shrink-0"
+              })
+            )}
+            <div className="flex flex-col overflow-hidden">
+              <span className="text-neutral-700 dark:text-neutral-200 truncate font-medium">{attachment.name}</span>
+              <span className="text-[11px] text-neutral-500 dark:text-neutral-400 truncate">
+                {details.filter(Boolean).join(' · ')}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
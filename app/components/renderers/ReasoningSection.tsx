@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useState } from 'react';
+import { BrainCircuit, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+interface ReasoningSectionProps {
+  reasoning: string;
+  messageId: string;
+}
+
+// Collapsible view of the plan/reasoning produced in 'think' mode
+export function ReasoningSection({ reasoning, messageId }: ReasoningSectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!reasoning.trim()) return null;
+
+  return (
+    <div className="ml-10 md:ml-11 mb-1 rounded-lg border border-indigo-200 dark:border-indigo-900/60 bg-indigo-50/50 dark:bg-indigo-950/20 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex w-full items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100/60 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <BrainCircuit className="h-3.5 w-3.5" />
+        <span>Reasoning</span>
+      </button>
+      <div className={cn("px-3 pb-2 text-neutral-700 dark:text-neutral-300", !isOpen && "hidden")}>
+        <MarkdownRenderer content={reasoning} messageId={`${messageId}-reasoning`} />
+      </div>
+    </div>
+  );
+}
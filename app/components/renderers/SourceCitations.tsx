@@ -0,0 +1,42 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+
+interface CitationSource {
+  id: string;
+  url: string;
+  title?: string;
+}
+
+interface SourceCitationsProps {
+  sources: CitationSource[];
+}
+
+// Numbered list of the pages read in 'research' mode; numbers match the [n] markers in the answer
+export function SourceCitations({ sources }: SourceCitationsProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="ml-10 md:ml-11 mt-1 rounded-lg border border-green-200 dark:border-green-900/60 bg-green-50/50 dark:bg-green-950/20 px-3 py-2">
+      <p className="flex items-center gap-1.5 text-xs font-medium text-green-700 dark:text-green-300 mb-1">
+        <Link2 className="h-3.5 w-3.5" />
+        Sources
+      </p>
+      <ol className="space-y-0.5 text-xs">
+        {sources.map((source, index) => (
+          <li key={source.id} className="flex gap-1.5 min-w-0">
+            <span className="text-muted-foreground flex-shrink-0">[{index + 1}]</span>
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate text-green-800 dark:text-green-200 hover:underline"
+              title={source.url}
+            >
+              {source.title || source.url}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import type {
+  ConfirmDateStepData,
+  SelectFlightStepData,
+  ConfirmationStepData,
+} from '@/ai/workflows/flight-booking';
+import { DateConfirmationComponent } from './date-confirmation';
+import { FlightOptionsComponent } from './flight-options';
+import { BookingConfirmationComponent } from './booking-confirmation';
+import type { WorkflowStepComponentProps, WorkflowStepComponents } from './types';
+
+// UI for each step of the flight booking workflow (app/ai/workflows/flight-booking.ts)
+
+function ConfirmDateStep({ data, toolCallId, append }: WorkflowStepComponentProps<ConfirmDateStepData>) {
+  return (
+    <DateConfirmationComponent
+      departureCity={data.departureCity}
+      arrivalCity={data.arrivalCity}
+      targetDateString={data.targetDateString}
+      toolCallId={toolCallId}
+      append={append}
+    />
+  );
+}
+
+function SelectFlightStep({ data, toolCallId, append }: WorkflowStepComponentProps<SelectFlightStepData>) {
+  return (
+    <FlightOptionsComponent
+      availableFlights={data.availableFlights ?? []}
+      departureCity={data.departureCity}
+      arrivalCity={data.arrivalCity}
+      confirmedDate={data.confirmedDate}
+      toolCallId={toolCallId}
+      append={append}
+    />
+  );
+}
+
+function ConfirmationStep({ data }: WorkflowStepComponentProps<ConfirmationStepData>) {
+  if (!data.bookingRef || !data.flightDetails) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        Error displaying confirmation details.
+      </p>
+    );
+  }
+  return <BookingConfirmationComponent bookingRef={data.bookingRef} flightDetails={data.flightDetails} />;
+}
+
+export const flightBookingStepComponents: WorkflowStepComponents = {
+  confirmDate: ConfirmDateStep,
+  selectFlight: SelectFlightStep,
+  confirmation: ConfirmationStep,
+};
@@ -0,0 +1,24 @@
+import type { WorkflowToolInvocationResult } from '@/chat/types';
+import { flightBookingStepComponents } from './flight-booking-steps';
+import type { WorkflowStepComponent, WorkflowStepComponents } from './types';
+
+// Workflow id -> step components. Keys must match the ids in app/ai/workflows.
+const workflowStepRegistry: Record<string, WorkflowStepComponents> = {
+  flightBooking: flightBookingStepComponents,
+};
+
+/**
+ * Looks up the UI component for a workflow tool result.
+ * Results without a `workflowId` (persisted before declarative workflows) are matched by step id.
+ */
+export function getWorkflowStepComponent(result: WorkflowToolInvocationResult): WorkflowStepComponent | null {
+  if (result.workflowId) {
+    return workflowStepRegistry[result.workflowId]?.[result.workflowStep] ?? null;
+  }
+  for (const stepComponents of Object.values(workflowStepRegistry)) {
+    if (stepComponents[result.workflowStep]) return stepComponents[result.workflowStep];
+  }
+  return null;
+}
+
+export type { WorkflowStepComponentProps, WorkflowStepComponent } from './types';
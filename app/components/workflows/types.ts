@@ -0,0 +1,16 @@
+import type React from 'react';
+import type { UseChatHelpers } from 'ai/react';
+import type { WorkflowToolInvocationResult } from '@/chat/types';
+
+// Props every workflow step component receives from MessageItem
+export interface WorkflowStepComponentProps<TData = Record<string, unknown>> {
+  data: WorkflowToolInvocationResult & TData;
+  toolCallId: string;
+  append: UseChatHelpers['append'];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type WorkflowStepComponent = React.ComponentType<WorkflowStepComponentProps<any>>;
+
+// Step id -> component, for one workflow
+export type WorkflowStepComponents = Record<string, WorkflowStepComponent>;
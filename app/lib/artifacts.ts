@@ -0,0 +1,219 @@
+import type { Message } from 'ai';
+
+// Helpers for ```artifact code fences (interactive React components in assistant messages).
+// An artifact can span several fences: each one is a file named by its info string
+// (```artifact components/Button.tsx), and together they form one project.
+// An id attribute (```artifact App.tsx id=todo-list) ties versions in later messages together.
+
+export interface ArtifactFile {
+  path: string; // Relative to the project root, e.g. 'components/Button.tsx'
+  content: string;
+}
+
+export interface ArtifactFenceInfo {
+  path: string | null;
+  id: string | null;
+}
+
+// One message's version of an artifact
+export interface ArtifactVersion {
+  number: number; // 1-based, in message order
+  messageId: string;
+  createdAt?: Date;
+  files: ArtifactFile[];
+  sameAs?: number; // Earlier version with the same files (e.g. a restored one)
+}
+
+export interface ArtifactHistory {
+  id: string;
+  versions: ArtifactVersion[]; // Oldest first; the last one is current
+}
+
+// Screenshot of a rendered artifact, attached to the next user message
+export interface ArtifactScreenshot {
+  file: File; // PNG
+  artifactId: string | null;
+  target: string; // What was captured, e.g. 'the selected region'
+  ask: boolean; // Also prefill a question about it
+}
+
+// Name of a fence without a path (single-file artifacts from before multi-file support)
+const DEFAULT_ARTIFACT_PATH = 'App.jsx';
+
+// Preferred entry files at the project root, in order; otherwise the first script with a default export
+const ENTRY_FILE_NAMES = ['App', 'index', 'main'];
+
+export const ARTIFACT_SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+// The import map: packages artifacts can import, vendored with the app (the renderer loads them
+// on demand). The descriptions are listed in the artifact rules of the system prompt. Each package
+// also needs a loader in artifact-renderer/_lib/import-map.ts and a URL for HTML exports
+// (EXPORT_PACKAGE_URLS in chat-export/html.tsx); both are keyed by ArtifactPackageName.
+export const ARTIFACT_PACKAGES = {
+  'react': 'React 19 and its hooks',
+  'react-dom': 'React DOM (createPortal, flushSync)',
+  'react-dom/client': 'React DOM client (createRoot)',
+  '@/components/ui/button': "the app's shadcn `Button`",
+  '@/components/ui/input': "the app's shadcn `Input`",
+  'lucide-react': "icons, e.g. `import { Check } from 'lucide-react'`",
+  'date-fns': 'date formatting and arithmetic (v3)',
+  'framer-motion': 'animations (`motion`, `AnimatePresence`; v12)',
+  'recharts': 'charts (`ResponsiveContainer`, `LineChart`, `BarChart`, ...; v3)',
+  'zod': 'schema validation (v3)',
+} as const satisfies Record<string, string>;
+
+export type ArtifactPackageName = keyof typeof ARTIFACT_PACKAGES;
+
+// Where the renderer puts the loaded packages for the artifact's bundle (window[...][name])
+export const ARTIFACT_MODULES_GLOBAL = '__artifactModules';
+// The console the artifact's bundle uses instead of the global one (reports to the viewer)
+export const ARTIFACT_CONSOLE_GLOBAL = '__artifactConsole';
+
+export function isArtifactPackage(specifier: string): specifier is ArtifactPackageName {
+  return Object.hasOwn(ARTIFACT_PACKAGES, specifier);
+}
+
+const ARTIFACT_FENCE_PATTERN = /```artifact(?:[ \t]+([^\n`]*?))?[ \t]*\n([\s\S]*?)\n[ \t]*```/gi;
+
+const FENCE_ID_PATTERN = /^id=["']?([^\s"'`]+?)["']?$/i;
+
+// 'components/Chart.tsx id=sales-dashboard' -> the path (not normalized yet) and the id
+export function parseArtifactFenceInfo(info: string | undefined): ArtifactFenceInfo {
+  const fence: ArtifactFenceInfo = { path: null, id: null };
+  for (const token of (info ?? '').trim().split(/\s+/)) {
+    if (!token) continue;
+    const id = token.match(FENCE_ID_PATTERN);
+    if (id) fence.id ??= id[1];
+    else fence.path ??= token;
+  }
+  return fence;
+}
+
+// 'src/./a/../App' -> 'src/App.tsx'; null when it leaves the project root
+export function normalizeArtifactPath(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.trim().replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  if (segments.length === 0) return null;
+  const normalized = segments.join('/');
+  // Extensionless names are components
+  return /\.[a-z]+$/i.test(normalized) ? normalized : `${normalized}.tsx`;
+}
+
+/**
+ * Files of the message's artifact, in fence order. A later fence with the same path replaces
+ * the earlier one, and fences without a (valid) path get a default name.
+ */
+export function extractArtifactFiles(content: string): ArtifactFile[] {
+  const files = new Map<string, string>();
+  let unnamed = 0;
+  for (const match of content.matchAll(ARTIFACT_FENCE_PATTERN)) {
+    const code = match[2].trim();
+    if (!code) continue;
+    const info = parseArtifactFenceInfo(match[1]);
+    let path = info.path ? normalizeArtifactPath(info.path) : null;
+    if (!path) {
+      unnamed++;
+      path = unnamed === 1 ? DEFAULT_ARTIFACT_PATH : `Artifact${unnamed}.jsx`;
+    }
+    files.delete(path); // Keep the latest version in the order it was written
+    files.set(path, code);
+  }
+  return [...files].map(([path, code]) => ({ path, content: code }));
+}
+
+export function isArtifactScript(path: string): boolean {
+  return ARTIFACT_SCRIPT_EXTENSIONS.some(extension => path.endsWith(extension));
+}
+
+// The file rendered by the viewer (its default export)
+export function getArtifactEntry(files: ArtifactFile[]): string | null {
+  const scripts = files.filter(file => isArtifactScript(file.path));
+  for (const name of ENTRY_FILE_NAMES) {
+    const entry = scripts.find(file => file.path.replace(/\.\w+$/, '') === name);
+    if (entry) return entry.path;
+  }
+  return (scripts.find(file => /export\s+default\b/.test(file.content)) ?? scripts[0])?.path ?? null;
+}
+
+// All files as one text (the code itself for single-file artifacts), e.g. for @artifact: mentions
+export function formatArtifactFiles(files: ArtifactFile[]): string {
+  if (files.length === 1) return files[0].content;
+  return files.map(file => `// File: ${file.path}\n${file.content}`).join('\n\n');
+}
+
+export function areArtifactFilesEqual(a: ArtifactFile[], b: ArtifactFile[]): boolean {
+  return a.length === b.length && a.every((file, index) => file.path === b[index].path && file.content === b[index].content);
+}
+
+// Name of the component an artifact exports by default (null for anonymous exports)
+export function getArtifactName(code: string): string | null {
+  const match = code.match(/export\s+default\s+(?:async\s+)?(?:function|class)\s+([A-Za-z_$][\w$]*)/)
+    ?? code.match(/export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/m);
+  return match ? match[1] : null;
+}
+
+/**
+ * Identifies the message's artifact across messages: the id attribute of its fences, else the
+ * name of the entry's component, else the entry path. Null without artifact files.
+ */
+export function getArtifactId(content: string, files: ArtifactFile[] = extractArtifactFiles(content)): string | null {
+  for (const match of content.matchAll(ARTIFACT_FENCE_PATTERN)) {
+    const { id } = parseArtifactFenceInfo(match[1]);
+    if (id) return id;
+  }
+  const entry = getArtifactEntry(files);
+  if (!entry) return null;
+  return getArtifactName(files.find(file => file.path === entry)?.content ?? '') ?? entry;
+}
+
+// Versions of the artifacts in the assistant messages, by artifact id
+export function buildArtifactHistories(messages: Message[]): Map<string, ArtifactHistory> {
+  const histories = new Map<string, ArtifactHistory>();
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+    const files = extractArtifactFiles(message.content);
+    const id = getArtifactId(message.content, files);
+    if (!id) continue;
+    const history = histories.get(id) ?? { id, versions: [] };
+    histories.set(id, history);
+    const sameAs = history.versions.find(version => areArtifactFilesEqual(version.files, files));
+    history.versions.push({
+      number: history.versions.length + 1,
+      messageId: message.id,
+      createdAt: message.createdAt,
+      files,
+      ...(sameAs && { sameAs: sameAs.sameAs ?? sameAs.number }),
+    });
+  }
+  return histories;
+}
+
+// Fences for the files, e.g. to post an earlier version again
+export function formatArtifactFences(files: ArtifactFile[], id: string): string {
+  return files.map(file => `\`\`\`artifact ${file.path} id=${id}\n${file.content}\n\`\`\``).join('\n\n');
+}
+
+// User turn asking the model to repair an artifact, with its files and the errors it ran into
+export function formatArtifactFixRequest(id: string, files: ArtifactFile[], errors: string[]): string {
+  return [
+    `The artifact **${id}** fails with ${errors.length === 1 ? 'this error' : 'these errors'}:`,
+    `\`\`\`text\n${errors.join('\n\n')}\n\`\`\``,
+    'Its files:',
+    formatArtifactFences(files, id),
+    'Please fix it and post all of its files again with the same id.',
+  ].join('\n\n');
+}
+
+// Prefilled question for an attached screenshot, so the assistant critiques the rendered UI
+export function formatArtifactScreenshotQuestion({ artifactId, target }: ArtifactScreenshot): string {
+  const artifact = artifactId ? `the **${artifactId}** artifact` : 'the artifact';
+  return `The attached screenshot shows ${target} of ${artifact} as it renders. What would you improve in its layout, styling or usability?`;
+}
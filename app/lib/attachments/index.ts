@@ -0,0 +1,214 @@
+import {
+  AttachmentError,
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENT_IDS_PER_REQUEST,
+  estimateTokens,
+  truncateToTokens,
+} from './limits';
+import { extractPdfText } from './pdf';
+import { countRows, formatTables, parseCsv, parseXlsx } from './table';
+import type { MessageAttachment } from '../../ai/attachments';
+import type { AttachedFileState, AttachmentKind, ProcessedAttachment } from './types';
+
+export type { AttachedFileState, AttachmentKind, ProcessedAttachment } from './types';
+export {
+  AttachmentError,
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENT_TOKENS,
+  MAX_TOTAL_ATTACHMENT_TOKENS,
+  estimateTokens,
+} from './limits';
+
+// Image formats accepted as vision input by the supported providers
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/html', 'text/css', 'application/javascript', 'application/json', 'application/xml', 'text/xml'];
+
+// Source and config files often have no (or a generic) MIME type
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'mdx', 'json', 'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'java', 'c', 'h', 'cpp', 'go', 'rs', 'rb',
+  'php', 'html', 'css', 'scss', 'less', 'sh', 'yml', 'yaml', 'toml', 'xml', 'sql', 'env', 'log',
+];
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  text: 'text files',
+  image: 'images',
+  pdf: 'PDFs',
+  table: 'spreadsheets',
+};
+
+function getExtension(file: File): string {
+  return file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+}
+
+// null when the file type can't be sent to the model
+export function getAttachmentKind(file: File): AttachmentKind | null {
+  const extension = getExtension(file);
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type === 'text/csv' || file.type === XLSX_MIME_TYPE || extension === 'csv' || extension === 'xlsx') return 'table';
+  if (TEXT_MIME_TYPES.includes(file.type) || file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+/**
+ * Reads an attached file into what is sent to the model.
+ * Throws AttachmentError with a user-facing message for unsupported, too large or unreadable files.
+ */
+export async function processAttachment(file: File): Promise<ProcessedAttachment> {
+  const kind = getAttachmentKind(file);
+  if (!kind) {
+    throw new AttachmentError(`Unsupported file type (${file.type || getExtension(file) || 'unknown'}). Attach text, images, PDFs, CSV or XLSX files.`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES[kind]) {
+    throw new AttachmentError(`File is too large (${formatMegabytes(file.size)}). The limit for ${KIND_LABELS[kind]} is ${formatMegabytes(MAX_ATTACHMENT_BYTES[kind])}.`);
+  }
+
+  switch (kind) {
+    case 'image': {
+      if (!IMAGE_MIME_TYPES.includes(file.type)) {
+        throw new AttachmentError('Unsupported image format. Use PNG, JPEG, GIF or WebP.');
+      }
+      return { kind, dataUrl: await readAsDataUrl(file), estimatedTokens: IMAGE_TOKEN_ESTIMATE, truncated: false };
+    }
+    case 'pdf': {
+      const { text: pdfText, pageCount, pagesRead } = await extractPdfText(file);
+      const { text, truncated } = truncateToTokens(pdfText);
+      return {
+        kind,
+        text,
+        estimatedTokens: estimateTokens(text),
+        truncated: truncated || pagesRead < pageCount,
+        summary: `${pageCount} page${pageCount === 1 ? '' : 's'}`,
+      };
+    }
+    case 'table': {
+      let tables;
+      try {
+        tables = getExtension(file) === 'xlsx' || file.type === XLSX_MIME_TYPE
+          ? await parseXlsx(file)
+          : [parseCsv(file.name, await file.text())];
+      } catch (error) {
+        console.error(`[Attachments] Could not parse ${file.name}:`, error);
+        throw new AttachmentError('Could not read this spreadsheet. Check that it is a valid CSV or XLSX file.');
+      }
+      const formatted = formatTables(tables);
+      const { text, truncated } = truncateToTokens(formatted.text);
+      const rowCount = countRows(tables).toLocaleString();
+      return {
+        kind,
+        text,
+        estimatedTokens: estimateTokens(text),
+        truncated: truncated || formatted.truncated,
+        summary: tables.length > 1 ? `${tables.length} sheets · ${rowCount} rows` : `${rowCount} rows`,
+      };
+    }
+    case 'text': {
+      const { text, truncated } = truncateToTokens(await file.text());
+      return { kind, text, estimatedTokens: estimateTokens(text), truncated };
+    }
+  }
+}
+
+/**
+ * Uploads the extracted text to the attachment store, where /api/chat reads it by attachment id.
+ * Throws AttachmentError when the upload fails.
+ */
+export async function uploadAttachmentText(id: string, text: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch('/api/attachments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, text }),
+    });
+  } catch (error) {
+    console.error(`[Attachments] Could not upload attachment ${id}:`, error);
+    throw new AttachmentError('Could not upload this file. Check your connection and attach it again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    console.error(`[Attachments] Upload of attachment ${id} failed (${response.status}):`, body?.error);
+    throw new AttachmentError(`Could not upload this file${body?.error ? `: ${body.error}` : '.'}`);
+  }
+}
+
+function toBatches(ids: string[]): string[][] {
+  const unique = [...new Set(ids)];
+  const batches: string[][] = [];
+  for (let i = 0; i < unique.length; i += MAX_ATTACHMENT_IDS_PER_REQUEST) {
+    batches.push(unique.slice(i, i + MAX_ATTACHMENT_IDS_PER_REQUEST));
+  }
+  return batches;
+}
+
+/**
+ * Reads stored texts back from the attachment store (for JSON exports); ids without a stored
+ * text are left out. Throws AttachmentError when the store can't be reached.
+ */
+export async function fetchAttachmentTexts(ids: string[]): Promise<Record<string, string>> {
+  const texts: Record<string, string> = {};
+  for (const batch of toBatches(ids)) {
+    let response: Response;
+    try {
+      response = await fetch(`/api/attachments?ids=${batch.map(encodeURIComponent).join(',')}`);
+    } catch (error) {
+      console.error('[Attachments] Could not read attachments:', error);
+      throw new AttachmentError('Could not read the attached files. Check your connection and try again.');
+    }
+    if (!response.ok) {
+      console.error(`[Attachments] Reading attachments failed (${response.status})`);
+      throw new AttachmentError('Could not read the attached files.');
+    }
+    Object.assign(texts, ((await response.json()) as { texts: Record<string, string> }).texts);
+  }
+  return texts;
+}
+
+// Best effort: a text that can't be deleted now stays in the store
+export async function deleteAttachmentTexts(ids: string[]): Promise<void> {
+  for (const batch of toBatches(ids)) {
+    try {
+      const response = await fetch('/api/attachments', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: batch }),
+      });
+      if (!response.ok) console.warn(`[Attachments] Deleting ${batch.length} attachment(s) failed (${response.status})`);
+    } catch (error) {
+      console.warn(`[Attachments] Could not delete ${batch.length} attachment(s):`, error);
+    }
+  }
+}
+
+// What a ready file is sent as in the message data: metadata only, the text is in the attachment
+// store and image data stays in experimental_attachments
+export function toMessageAttachment({ id, file, processed }: AttachedFileState & { processed: ProcessedAttachment }): MessageAttachment {
+  return {
+    id,
+    name: file.name,
+    mimeType: file.type,
+    size: file.size,
+    kind: processed.kind,
+    estimatedTokens: processed.estimatedTokens,
+    truncated: processed.truncated,
+    ...(processed.summary && { summary: processed.summary }),
+  };
+}
@@ -0,0 +1,41 @@
+import { CHARS_PER_TOKEN, IMAGE_TOKEN_ESTIMATE, estimateTokens } from '../../ai/context';
+import type { AttachmentKind } from './types';
+
+// Shared with the context budget of the chat history
+export { IMAGE_TOKEN_ESTIMATE, estimateTokens };
+
+// Larger files are rejected before they are read
+export const MAX_ATTACHMENT_BYTES: Record<AttachmentKind, number> = {
+  text: 1024 * 1024,
+  image: 5 * 1024 * 1024,
+  pdf: 20 * 1024 * 1024,
+  table: 10 * 1024 * 1024,
+};
+
+// Per file: longer text is truncated, larger tables are summarized
+export const MAX_ATTACHMENT_TOKENS = 25_000;
+export const MAX_ATTACHMENT_CHARS = MAX_ATTACHMENT_TOKENS * CHARS_PER_TOKEN;
+
+// Per message, across all attachments
+export const MAX_TOTAL_ATTACHMENT_TOKENS = 60_000;
+
+// Per /api/attachments read or delete; larger sets are sent in batches
+export const MAX_ATTACHMENT_IDS_PER_REQUEST = 100;
+
+// Cuts text to the token limit with a visible marker for the model
+export function truncateToTokens(text: string, maxTokens = MAX_ATTACHMENT_TOKENS): { text: string; truncated: boolean } {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return { text, truncated: false };
+  return {
+    text: `${text.slice(0, maxChars)}\n[... truncated: showing the first ${maxChars.toLocaleString()} of ${text.length.toLocaleString()} characters]`,
+    truncated: true,
+  };
+}
+
+// User-facing problem with a file (too large, unsupported, unreadable); shown in the attachment preview
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
@@ -0,0 +1,42 @@
+import { AttachmentError, MAX_ATTACHMENT_CHARS } from './limits';
+
+// Text layer of a PDF, page by page. pdf.js is loaded on first use so it stays out of the main bundle.
+export async function extractPdfText(file: File): Promise<{ text: string; pageCount: number; pagesRead: number }> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  let document;
+  try {
+    document = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new AttachmentError('This PDF is password protected.');
+    }
+    throw new AttachmentError('This file is not a valid PDF.');
+  }
+
+  try {
+    // Stop reading once there is more text than can be sent anyway (processAttachment truncates the rest)
+    const pages: string[] = [];
+    let length = 0;
+    for (let pageNumber = 1; pageNumber <= document.numPages && length <= MAX_ATTACHMENT_CHARS; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .trim();
+      pages.push(`[Page ${pageNumber}]\n${pageText}`);
+      length += pageText.length;
+    }
+
+    if (length === 0) {
+      throw new AttachmentError('No text found in this PDF (it may be a scanned document).');
+    }
+    return { text: pages.join('\n\n'), pageCount: document.numPages, pagesRead: pages.length };
+  } finally {
+    await document.destroy();
+  }
+}
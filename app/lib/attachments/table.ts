@@ -0,0 +1,100 @@
+import { parse } from 'csv-parse/browser/esm/sync';
+import { MAX_ATTACHMENT_TOKENS, estimateTokens } from './limits';
+
+type Cell = string | number | boolean | Date | null;
+
+export interface Table {
+  name: string; // Sheet name, or the file name for CSV
+  rows: Cell[][]; // First row is the header
+}
+
+// Rows shown from the start / end of a table that is too large to send in full
+const PREVIEW_HEAD_ROWS = 20;
+const PREVIEW_TAIL_ROWS = 5;
+
+export function parseCsv(name: string, text: string): Table {
+  const rows: Cell[][] = parse(text, {
+    bom: true,
+    cast: true,
+    delimiter: [',', ';', '\t'],
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+  });
+  return { name, rows };
+}
+
+export async function parseXlsx(file: File): Promise<Table[]> {
+  const { default: readXlsxFile } = await import('read-excel-file/browser');
+  const sheets = await readXlsxFile(file);
+  return sheets.map(({ sheet, data }) => ({ name: sheet, rows: data as Cell[][] }));
+}
+
+function formatCell(cell: Cell): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().replace('T00:00:00.000Z', '');
+  return String(cell).replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+}
+
+function toMarkdownTable(header: Cell[], rows: Cell[][]): string {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), header.length);
+  const line = (cells: Cell[]) => `| ${Array.from({ length: width }, (_, index) => formatCell(cells[index] ?? null)).join(' | ')} |`;
+  return [line(header), `|${' --- |'.repeat(width)}`, ...rows.map(line)].join('\n');
+}
+
+// Type and value range of each column, for tables that are only partially included
+function describeColumns(header: Cell[], rows: Cell[][]): string {
+  return header.map((title, index) => {
+    const values = rows.map(row => row[index]).filter(value => value !== null && value !== undefined && value !== '');
+    const label = formatCell(title) || `Column ${index + 1}`;
+    if (values.length === 0) return `- ${label}: empty`;
+
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    if (numbers.length === values.length) {
+      // reduce instead of Math.min(...numbers): spreading very large columns overflows the stack
+      const min = numbers.reduce((a, b) => Math.min(a, b));
+      const max = numbers.reduce((a, b) => Math.max(a, b));
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      return `- ${label}: number, min ${min}, max ${max}, mean ${Number(mean.toFixed(2))}, ${values.length} values`;
+    }
+    const distinct = new Set(values.map(formatCell));
+    const examples = [...distinct].slice(0, 3).map(value => `"${value}"`).join(', ');
+    return `- ${label}: text, ${distinct.size} distinct of ${values.length} values (e.g. ${examples})`;
+  }).join('\n');
+}
+
+/**
+ * Tables as Markdown. Tables that don't fit their share of the token limit are replaced by
+ * a column summary plus the first and last rows.
+ */
+export function formatTables(tables: Table[]): { text: string; truncated: boolean } {
+  const budget = Math.floor(MAX_ATTACHMENT_TOKENS / Math.max(tables.length, 1));
+  let truncated = false;
+
+  const sections = tables.map(({ name, rows }) => {
+    const [header = [], ...body] = rows;
+    const title = tables.length > 1 ? `### Sheet: ${name}\n` : '';
+    const size = `${body.length.toLocaleString()} rows × ${header.length} columns`;
+    if (body.length === 0 && header.length === 0) return `${title}(empty)`;
+
+    const full = toMarkdownTable(header, body);
+    if (estimateTokens(full) <= budget) return `${title}${size}\n\n${full}`;
+
+    truncated = true;
+    const omitted = body.length - PREVIEW_HEAD_ROWS - PREVIEW_TAIL_ROWS;
+    const preview = omitted > 0
+      ? [
+          toMarkdownTable(header, body.slice(0, PREVIEW_HEAD_ROWS)),
+          `(${omitted.toLocaleString()} rows omitted)`,
+          toMarkdownTable(header, body.slice(-PREVIEW_TAIL_ROWS)),
+        ].join('\n\n')
+      : toMarkdownTable(header, body.slice(0, PREVIEW_HEAD_ROWS));
+    return `${title}${size} (too large to include in full)\n\nColumns:\n${describeColumns(header, body)}\n\n${preview}`;
+  });
+
+  return { text: sections.join('\n\n'), truncated };
+}
+
+export function countRows(tables: Table[]): number {
+  return tables.reduce((total, table) => total + Math.max(table.rows.length - 1, 0), 0);
+}
@@ -0,0 +1,28 @@
+import type { AttachmentKind } from '../../ai/attachments';
+
+export type { AttachmentKind };
+
+// Result of reading an attached file once, before it is sent
+export interface ProcessedAttachment {
+  kind: AttachmentKind;
+  // Uploaded to the attachment store and expanded into the prompt by /api/chat (text files,
+  // extracted PDF text, spreadsheet tables / summaries)
+  text?: string;
+  // data: URL sent to the model as an image content part
+  dataUrl?: string;
+  estimatedTokens: number;
+  // The text was cut to fit MAX_ATTACHMENT_TOKENS (tables are summarized instead)
+  truncated: boolean;
+  // Shown in the preview, e.g. "3 pages" or "2 sheets · 1,204 rows"
+  summary?: string;
+}
+
+// A file staged in the chat input
+export interface AttachedFileState {
+  id: string; // Becomes the MessageAttachment id once sent
+  file: File;
+  previewUrl: string | null; // Object URL for image thumbnails
+  status: 'processing' | 'ready' | 'error';
+  processed?: ProcessedAttachment;
+  error: string | null;
+}
@@ -0,0 +1,274 @@
+import React from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { buildArtifact } from '../../artifact-renderer/_lib/build';
+import {
+  ARTIFACT_MODULES_GLOBAL,
+  extractArtifactFiles,
+  getArtifactEntry,
+  parseArtifactFenceInfo,
+  type ArtifactPackageName,
+} from '../artifacts';
+import type { ChatExportEntry } from './types';
+import {
+  describeModel,
+  formatExportDate,
+  getMessageExtras,
+  getRoleLabel,
+  getVisibleMessages,
+} from './utils';
+
+// Single-file HTML export. Markdown and Mermaid diagrams are rendered at export time; artifacts are
+// built at export time too (by the same worker as the viewer) and run in sandboxed iframes that
+// load their import-map packages from esm.sh when opened.
+
+const EXPORT_STYLES = `
+  body { margin: 0; background: #f5f5f5; color: #171717; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 800px; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  h1 { font-size: 1.6rem; margin: 2.5rem 0 0.25rem; }
+  .meta { color: #737373; font-size: 0.85rem; margin-bottom: 1.5rem; }
+  .message { background: #fff; border: 1px solid #e5e5e5; border-radius: 0.75rem; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+  .message.user { background: #eef2ff; border-color: #c7d2fe; }
+  .role { font-weight: 600; font-size: 0.8rem; color: #525252; }
+  .role time { font-weight: 400; color: #a3a3a3; margin-left: 0.5rem; }
+  pre { background: #171717; color: #f5f5f5; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { background: #f0f0f0; padding: 0.1rem 0.3rem; border-radius: 0.25rem; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #e5e5e5; padding: 0.25rem 0.5rem; }
+  details { margin: 0.5rem 0; } summary { cursor: pointer; color: #525252; font-size: 0.85rem; }
+  .reasoning { border-left: 3px solid #818cf8; padding-left: 0.75rem; color: #4338ca; white-space: pre-wrap; font-size: 0.85rem; }
+  .mermaid { background: #fff; text-align: center; overflow-x: auto; }
+  .artifact iframe { width: 100%; height: 360px; border: 1px solid #e5e5e5; border-radius: 0.5rem; background: #fff; }
+  .sources { font-size: 0.85rem; }
+  hr { border: none; border-top: 1px solid #d4d4d4; margin: 3rem 0; }
+`;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const ESM_CDN = 'https://esm.sh';
+const REACT_VERSION = '19.1.0';
+const REACT_DEPS = `deps=react@${REACT_VERSION},react-dom@${REACT_VERSION}`;
+
+// Module that only needs React, as a data: URL (for the stand-ins below)
+function reactModuleUrl(code: string): string {
+  return `data:text/javascript,${encodeURIComponent(`import { createElement } from '${ESM_CDN}/react@${REACT_VERSION}';\n${code}`)}`;
+}
+
+// Where the exported page loads each import-map package from (ARTIFACT_PACKAGES; the app's bundle
+// isn't there), pinned to the versions the app is built with. Packages that use React get the same React
+// build. The app's shadcn components can't be loaded outside the app, so plain elements stand in.
+const EXPORT_PACKAGE_URLS: Record<ArtifactPackageName, string> = {
+  'react': `${ESM_CDN}/react@${REACT_VERSION}`,
+  'react-dom': `${ESM_CDN}/react-dom@${REACT_VERSION}?${REACT_DEPS}`,
+  'react-dom/client': `${ESM_CDN}/react-dom@${REACT_VERSION}/client?${REACT_DEPS}`,
+  '@/components/ui/button': reactModuleUrl(`export const Button = (props) => createElement('button', props);`),
+  '@/components/ui/input': reactModuleUrl(`export const Input = (props) => createElement('input', props);`),
+  'lucide-react': `${ESM_CDN}/lucide-react@0.501.0?${REACT_DEPS}`,
+  'date-fns': `${ESM_CDN}/date-fns@3.6.0`,
+  'framer-motion': `${ESM_CDN}/framer-motion@12.7.4?${REACT_DEPS}`,
+  'recharts': `${ESM_CDN}/recharts@3.10.1?${REACT_DEPS}`,
+  'zod': `${ESM_CDN}/zod@3.24.3`,
+};
+
+type ExportedArtifact = { srcDoc: string } | { error: string };
+
+// Escape '<' so embedded code cannot close the script tag
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+// Standalone page that renders one built artifact, like the renderer page does in the app
+function buildArtifactDocument(code: string, css: string, packages: ArtifactPackageName[]): string {
+  const packageUrls = Object.fromEntries(
+    [...new Set<ArtifactPackageName>(['react', 'react-dom/client', ...packages])].map(name => [name, EXPORT_PACKAGE_URLS[name]])
+  );
+  return `<!DOCTYPE html><html><head><meta charset="utf-8">
+<style>body{margin:0;padding:1rem;font-family:system-ui,sans-serif}</style>
+<style>${css.replace(/<\/style/gi, '<\\/style')}</style>
+</head><body><div id="root"></div><script type="module">
+  const root = document.getElementById('root');
+  try {
+    const modules = window[${JSON.stringify(ARTIFACT_MODULES_GLOBAL)}] = {};
+    for (const [name, url] of Object.entries(${toScriptJson(packageUrls)})) {
+      try {
+        modules[name] = await import(url);
+      } catch (error) {
+        throw new Error('could not load the package ' + name + '. Artifacts in exported pages load their packages from esm.sh, so they need network access.');
+      }
+    }
+    const blobUrl = URL.createObjectURL(new Blob([${toScriptJson(code)}], { type: 'text/javascript' }));
+    const { default: Component } = await import(blobUrl);
+    URL.revokeObjectURL(blobUrl);
+    if (typeof Component !== 'function') throw new Error('the entry file has no default export component.');
+    const fail = (error) => { root.textContent = 'Artifact failed to render: ' + error.message; };
+    modules['react-dom/client'].createRoot(root, { onUncaughtError: fail }).render(modules.react.createElement(Component));
+  } catch (error) {
+    root.textContent = 'Artifact failed to render: ' + error.message;
+  }
+</script></body></html>`;
+}
+
+// Builds every message's artifact once, keyed by chat and message id
+async function buildExportedArtifacts(entries: ChatExportEntry[]): Promise<Map<string, ExportedArtifact>> {
+  const artifacts = new Map<string, ExportedArtifact>();
+  for (const { chat, messages } of entries) {
+    for (const message of messages) {
+      const files = message.role === 'assistant' ? extractArtifactFiles(message.content) : [];
+      const entry = getArtifactEntry(files);
+      if (!entry) continue;
+      try {
+        const { transformedCode, css, packages } = await buildArtifact(files, entry);
+        artifacts.set(`${chat.id}/${message.id}`, { srcDoc: buildArtifactDocument(transformedCode, css, packages) });
+      } catch (error) {
+        artifacts.set(`${chat.id}/${message.id}`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+  return artifacts;
+}
+
+async function renderMermaidDiagrams(entries: ChatExportEntry[]): Promise<Map<string, string>> {
+  const diagrams = new Set<string>();
+  for (const { messages } of entries) {
+    for (const message of messages) {
+      for (const match of message.content.matchAll(/```mermaid[ \t]*\n([\s\S]*?)```/gi)) {
+        diagrams.add(match[1].trim());
+      }
+    }
+  }
+  const svgByCode = new Map<string, string>();
+  if (diagrams.size === 0) return svgByCode;
+
+  const mermaid = (await import('mermaid')).default;
+  mermaid.initialize({ startOnLoad: false, theme: 'neutral' });
+  let index = 0;
+  for (const code of diagrams) {
+    try {
+      const { svg } = await mermaid.render(`export-mermaid-${index++}`, code);
+      svgByCode.set(code, svg);
+    } catch (error) {
+      // Leave it as a code block
+      console.warn('[Export] Could not render Mermaid diagram:', error);
+    }
+  }
+  return svgByCode;
+}
+
+function createMarkdownComponents(mermaidSvgs: Map<string, string>): Components {
+  return {
+    pre: ({ node, children }) => {
+      const codeNode = node?.children[0];
+      if (codeNode?.type === 'element' && codeNode.tagName === 'code') {
+        const classNames = Array.isArray(codeNode.properties.className) ? codeNode.properties.className.map(String) : [];
+        const language = classNames.find(name => name.startsWith('language-'))?.slice('language-'.length);
+        const code = codeNode.children.map(child => (child.type === 'text' ? child.value : '')).join('').trim();
+
+        if (language === 'mermaid' && mermaidSvgs.has(code)) {
+          return <div className="mermaid" dangerouslySetInnerHTML={{ __html: mermaidSvgs.get(code)! }} />;
+        }
+        // The artifact itself is rendered once per message (see ExportedChat); fences show its files
+        if (language === 'artifact') {
+          const { path } = parseArtifactFenceInfo(typeof codeNode.data?.meta === 'string' ? codeNode.data.meta : undefined);
+          return (
+            <details>
+              <summary>{path ? `Artifact file ${path}` : 'Artifact source'}</summary>
+              <pre><code>{code}</code></pre>
+            </details>
+          );
+        }
+      }
+      return <pre>{children}</pre>;
+    },
+    a: ({ href, children }) => <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>,
+  };
+}
+
+function ExportedChat({ entry, components, artifacts }: { entry: ChatExportEntry; components: Components; artifacts: Map<string, ExportedArtifact> }) {
+  const { chat, messages } = entry;
+  return (
+    <section>
+      <h1>{chat.title || 'Untitled chat'}</h1>
+      <div className="meta">Last updated {formatExportDate(chat.lastUpdated)} · {describeModel(chat)}</div>
+      {getVisibleMessages(messages).map(message => {
+        const { reasoning, sources, toolCalls, attachments } = getMessageExtras(message);
+        const artifact = artifacts.get(`${chat.id}/${message.id}`);
+        return (
+          <article key={message.id} className={`message ${message.role}`}>
+            <div className="role">
+              {getRoleLabel(message)}
+              {message.createdAt && <time>{formatExportDate(message.createdAt)}</time>}
+            </div>
+            {reasoning && (
+              <details>
+                <summary>Reasoning</summary>
+                <div className="reasoning">{reasoning}</div>
+              </details>
+            )}
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+              {message.content}
+            </ReactMarkdown>
+            {artifact && (
+              <div className="artifact">
+                {'srcDoc' in artifact
+                  ? <iframe sandbox="allow-scripts" srcDoc={artifact.srcDoc} title="Artifact" />
+                  : <div className="meta">Artifact could not be built: {artifact.error}</div>}
+              </div>
+            )}
+            {attachments.length > 0 && <div className="meta">Attached: {attachments.join(', ')}</div>}
+            {toolCalls.map((toolCall, index) => (
+              <details key={index}>
+                <summary>Tool: {toolCall.toolName}</summary>
+                <pre><code>{JSON.stringify({ args: toolCall.args, result: toolCall.result }, null, 2)}</code></pre>
+              </details>
+            ))}
+            {sources.length > 0 && (
+              <ol className="sources">
+                {sources.map(source => (
+                  <li key={source.url}><a href={source.url} target="_blank" rel="noopener noreferrer">{source.title || source.url}</a></li>
+                ))}
+              </ol>
+            )}
+          </article>
+        );
+      })}
+    </section>
+  );
+}
+ExportedChat.displayName = 'ExportedChat';
+
+export async function chatsToHtml(entries: ChatExportEntry[]): Promise<string> {
+  const [{ renderToStaticMarkup }, mermaidSvgs, artifacts] = await Promise.all([
+    import('react-dom/server'),
+    renderMermaidDiagrams(entries),
+    buildExportedArtifacts(entries),
+  ]);
+  const components = createMarkdownComponents(mermaidSvgs);
+
+  const body = renderToStaticMarkup(
+    <main>
+      {entries.map((entry, index) => (
+        <React.Fragment key={entry.chat.id}>
+          {index > 0 && <hr />}
+          <ExportedChat entry={entry} components={components} artifacts={artifacts} />
+        </React.Fragment>
+      ))}
+    </main>
+  );
+  const title = entries.length === 1 ? entries[0].chat.title : `${entries.length} chats`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title || 'Chat export')}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,63 @@
+import { chatsToJson } from './json';
+import { chatsToMarkdown } from './markdown';
+import { chatsToHtml } from './html';
+import { slugify } from './utils';
+import { getStoredAttachmentIds } from '../../ai/attachments';
+import { fetchAttachmentTexts } from '../attachments';
+import type { ChatExportEntry, ChatExportFormat } from './types';
+
+export type { ChatExportEntry, ChatExportFormat } from './types';
+export { CHAT_EXPORT_VERSION } from './schema';
+export { ChatImportError, parseChatExport, prepareImportedChats } from './json';
+
+export const CHAT_EXPORT_FORMATS: Record<ChatExportFormat, { label: string; extension: string; mimeType: string; note?: string }> = {
+  json: { label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: {
+    label: 'HTML (standalone page)',
+    extension: 'html',
+    mimeType: 'text/html',
+    note: 'Artifacts in the page load their packages (React, charts, icons, ...) from esm.sh, so they need network access to render. Their source is included either way.',
+  },
+};
+
+// JSON exports carry the attached file texts so an import elsewhere can upload them again
+async function withAttachmentTexts(entries: ChatExportEntry[]): Promise<ChatExportEntry[]> {
+  const texts = await fetchAttachmentTexts(entries.flatMap(entry => getStoredAttachmentIds(entry.messages)));
+  return entries.map(entry => ({
+    ...entry,
+    attachmentTexts: Object.fromEntries(
+      getStoredAttachmentIds(entry.messages).flatMap(id => (Object.hasOwn(texts, id) ? [[id, texts[id]]] : []))
+    ),
+  }));
+}
+
+export async function exportChats(
+  entries: ChatExportEntry[],
+  format: ChatExportFormat
+): Promise<{ filename: string; content: string; mimeType: string }> {
+  const { extension, mimeType } = CHAT_EXPORT_FORMATS[format];
+  const date = new Date().toISOString().slice(0, 10);
+  const name = entries.length === 1 ? slugify(entries[0].chat.title) : `chats-${entries.length}`;
+
+  let content: string;
+  if (format === 'json') {
+    content = chatsToJson(await withAttachmentTexts(entries));
+  } else if (format === 'markdown') {
+    content = chatsToMarkdown(entries);
+  } else {
+    content = await chatsToHtml(entries);
+  }
+  return { filename: `${name}-${date}.${extension}`, content, mimeType };
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,125 @@
+import type { Message } from 'ai/react';
+import { nanoid } from 'nanoid';
+import { getAttachmentsFromMessageData, getStoredAttachmentIds } from '../../ai/attachments';
+import { getMentionsFromMessageData } from '../../ai/mentions';
+import { parseMessageData } from '../../ai/message-data';
+import { normalizeModelSettings } from '../../ai/models';
+import { extractArtifactFiles, formatArtifactFiles } from '../artifacts';
+import type { ChatHistoryItem } from '../storage';
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  chatExportFileSchema,
+  type ChatExportFile,
+} from './schema';
+import type { ChatExportEntry } from './types';
+
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatImportError';
+  }
+}
+
+export function chatsToJson(entries: ChatExportEntry[]): string {
+  const file: ChatExportFile = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats: entries.map(({ chat, messages, attachmentTexts }) => ({
+      ...chat,
+      messages: messages as ChatExportFile['chats'][number]['messages'],
+      ...(attachmentTexts && Object.keys(attachmentTexts).length > 0 && { attachmentTexts }),
+      artifacts: messages.flatMap(message => {
+        const files = message.role === 'assistant' ? extractArtifactFiles(message.content) : [];
+        if (files.length === 0) return [];
+        return [{ messageId: message.id, code: formatArtifactFiles(files), ...(files.length > 1 && { files }) }];
+      }),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses and validates an exported JSON file.
+ * Throws ChatImportError with a user-facing message when the file is not a valid export.
+ */
+export function parseChatExport(text: string): ChatExportFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ChatImportError('The file is not valid JSON.');
+  }
+
+  const parsed = chatExportFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ChatImportError(`Not a valid chat export: ${issue.path.join('.') || 'file'} - ${issue.message}`);
+  }
+  if (parsed.data.version > CHAT_EXPORT_VERSION) {
+    throw new ChatImportError(`This export was created by a newer version (v${parsed.data.version}). Please update the app.`);
+  }
+  return parsed.data;
+}
+
+// Points attachments (and @file mentions of them) at their new ids; other data is kept as-is
+function replaceAttachmentIds(message: Message, newIds: Map<string, string>): Message {
+  const data = parseMessageData(message.data);
+  if (message.role !== 'user' || typeof data !== 'object' || data === null || Array.isArray(data)) return message;
+
+  const updated: Record<string, unknown> = { ...data };
+  if ('attachments' in data) {
+    updated.attachments = getAttachmentsFromMessageData(data).map(attachment => ({ ...attachment, id: newIds.get(attachment.id) ?? attachment.id }));
+  }
+  if ('mentions' in data) {
+    updated.mentions = getMentionsFromMessageData(data).map(mention =>
+      mention.kind === 'file' ? { ...mention, id: newIds.get(mention.id) ?? mention.id } : mention
+    );
+  }
+  // Keep the original encoding (older messages store data as a JSON string)
+  return { ...message, data: (typeof message.data === 'string' ? JSON.stringify(updated) : updated) as Message['data'] };
+}
+
+/**
+ * Turns an export into chats that can be added next to `existingChats`.
+ * Chats whose id is already taken (by an existing or an earlier imported chat) get a new id.
+ * Attached files always get new ids, so each imported copy has its own stored text (deleting
+ * one chat must not remove the text of another); their texts are returned for uploading.
+ */
+export function prepareImportedChats(file: ChatExportFile, existingChats: ChatHistoryItem[]): ChatExportEntry[] {
+  const takenIds = new Set(existingChats.map(chat => chat.id));
+
+  return file.chats.map(exported => {
+    const id = takenIds.has(exported.id) ? nanoid(8) : exported.id;
+    takenIds.add(id);
+
+    const chat: ChatHistoryItem = {
+      id,
+      title: exported.title,
+      lastUpdated: exported.lastUpdated,
+      isPinned: exported.isPinned,
+      isArchived: exported.isArchived,
+      modelSettings: normalizeModelSettings(exported.modelSettings),
+      ...(exported.titleSource && { titleSource: exported.titleSource }),
+      ...(exported.summary !== undefined && { summary: exported.summary }),
+      ...(exported.tags && { tags: exported.tags }),
+      ...(exported.systemPrompt && { systemPrompt: exported.systemPrompt }),
+      ...(exported.personaId && { personaId: exported.personaId }),
+      ...(exported.pinnedMessageIds?.length && { pinnedMessageIds: exported.pinnedMessageIds }),
+    };
+    const messages = exported.messages as unknown as Message[];
+    const newIds = new Map(getStoredAttachmentIds(messages).map(attachmentId => [attachmentId, nanoid()]));
+    const attachmentTexts: Record<string, string> = {};
+    newIds.forEach((newId, attachmentId) => {
+      if (exported.attachmentTexts && Object.hasOwn(exported.attachmentTexts, attachmentId)) {
+        attachmentTexts[newId] = exported.attachmentTexts[attachmentId];
+      }
+    });
+    return {
+      chat,
+      messages: newIds.size > 0 ? messages.map(message => replaceAttachmentIds(message, newIds)) : messages,
+      attachmentTexts,
+    };
+  });
+}
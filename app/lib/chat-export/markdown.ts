@@ -0,0 +1,70 @@
+import { parseArtifactFenceInfo } from '../artifacts';
+import type { ChatExportEntry } from './types';
+import {
+  describeModel,
+  formatExportDate,
+  getMessageExtras,
+  getRoleLabel,
+  getVisibleMessages,
+} from './utils';
+
+// `artifact` fences only mean something inside this app; export them as regular code blocks
+// (named files of multi-file artifacts get their path above the block)
+function toPortableFences(content: string): string {
+  return content.replace(/```artifact(?:[ \t]+([^\n`]*?))?[ \t]*\n/gi, (_, info?: string) => {
+    const { path } = parseArtifactFenceInfo(info);
+    if (!path) return '```tsx\n';
+    const extension = path.split('.').pop()?.toLowerCase();
+    return `\`${path}\`\n\n\`\`\`${extension && extension !== path.toLowerCase() ? extension : 'tsx'}\n`;
+  });
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+function chatToMarkdown({ chat, messages }: ChatExportEntry): string {
+  const lines: string[] = [
+    `# ${chat.title || 'Untitled chat'}`,
+    '',
+    `*Last updated ${formatExportDate(chat.lastUpdated)} · ${describeModel(chat)}*`,
+    '',
+  ];
+
+  for (const message of getVisibleMessages(messages)) {
+    const { reasoning, sources, toolCalls, attachments } = getMessageExtras(message);
+    const timestamp = formatExportDate(message.createdAt);
+
+    lines.push(`## ${getRoleLabel(message)}${timestamp ? ` · ${timestamp}` : ''}`, '');
+    if (reasoning) {
+      lines.push(quote(`**Reasoning**\n\n${reasoning}`), '');
+    }
+    if (message.content.trim()) {
+      lines.push(toPortableFences(message.content.trim()), '');
+    }
+    if (attachments.length > 0) {
+      lines.push(`*Attached: ${attachments.join(', ')}*`, '');
+    }
+    for (const toolCall of toolCalls) {
+      lines.push(
+        `**Tool: \`${toolCall.toolName}\`**`,
+        '',
+        '```json',
+        JSON.stringify({ args: toolCall.args, result: toolCall.result }, null, 2),
+        '```',
+        ''
+      );
+    }
+    if (sources.length > 0) {
+      lines.push('**Sources**', '');
+      sources.forEach((source, index) => lines.push(`${index + 1}. [${source.title || source.url}](${source.url})`));
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function chatsToMarkdown(entries: ChatExportEntry[]): string {
+  return entries.map(chatToMarkdown).join('\n---\n\n');
+}
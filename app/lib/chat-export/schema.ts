@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+// Versioned JSON format for exported chats. Bump CHAT_EXPORT_VERSION on breaking changes
+// and keep parseChatExport able to read older versions.
+
+export const CHAT_EXPORT_FORMAT = 'agent-narrative-framework/chats';
+export const CHAT_EXPORT_VERSION = 1;
+
+// Messages are kept as-is (passthrough) so parts, tool invocations, annotations and
+// attachments survive a round trip
+const exportedMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['system', 'user', 'assistant', 'data']),
+  content: z.string(),
+  createdAt: z.coerce.date().optional(),
+  parts: z.array(z.object({ type: z.string() }).passthrough()).optional(),
+  toolInvocations: z.array(z.object({
+    toolCallId: z.string(),
+    toolName: z.string(),
+    state: z.string(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const exportedArtifactSchema = z.object({
+  messageId: z.string(),
+  code: z.string(), // All files, with a '// File:' line before each one for multi-file artifacts
+  files: z.array(z.object({ path: z.string(), content: z.string() })).optional(),
+});
+
+const exportedChatSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  lastUpdated: z.number(),
+  isPinned: z.boolean().default(false),
+  isArchived: z.boolean().default(false),
+  // Normalized on import, so older or partial settings are accepted
+  modelSettings: z.unknown().optional(),
+  titleSource: z.enum(['generated', 'manual']).optional(),
+  summary: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  systemPrompt: z.string().optional(),
+  // Chats with a persona missing from the library fall back to the default one
+  personaId: z.string().optional(),
+  pinnedMessageIds: z.array(z.string()).optional(),
+  messages: z.array(exportedMessageSchema),
+  // Texts of the attached files by attachment id (they are kept on the server, not in the messages)
+  attachmentTexts: z.record(z.string()).optional(),
+  // Convenience copy of the artifact code found in the messages (not needed for import)
+  artifacts: z.array(exportedArtifactSchema).default([]),
+});
+
+export const chatExportFileSchema = z.object({
+  format: z.literal(CHAT_EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  chats: z.array(exportedChatSchema),
+});
+
+export type ExportedChat = z.infer<typeof exportedChatSchema>;
+export type ChatExportFile = z.infer<typeof chatExportFileSchema>;
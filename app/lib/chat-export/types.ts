@@ -0,0 +1,11 @@
+import type { Message } from 'ai/react';
+import type { ChatHistoryItem } from '../storage';
+
+export type ChatExportFormat = 'json' | 'markdown' | 'html';
+
+export interface ChatExportEntry {
+  chat: ChatHistoryItem;
+  messages: Message[];
+  // JSON exports only: stored texts of the attached files by attachment id
+  attachmentTexts?: Record<string, string>;
+}
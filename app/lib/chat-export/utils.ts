@@ -0,0 +1,59 @@
+import type { Message } from 'ai/react';
+import { isUserActionData } from '../../chat/types';
+import { getAttachmentsFromMessageData } from '../../ai/attachments';
+import { LLM_PROVIDERS } from '../../ai/models';
+import type { ChatHistoryItem } from '../storage';
+
+// Shared helpers for the readable (Markdown / HTML) export formats
+
+export interface ExportedToolCall {
+  toolName: string;
+  args: unknown;
+  result: unknown;
+}
+
+export interface ExportedSource {
+  url: string;
+  title?: string;
+}
+
+// Extra content carried in message parts besides the text
+export function getMessageExtras(message: Message) {
+  const parts = message.parts ?? [];
+  const reasoning = parts.map(part => (part.type === 'reasoning' ? part.reasoning : '')).join('').trim();
+  const sources: ExportedSource[] = parts.flatMap(part => (part.type === 'source' ? [part.source] : []));
+  const toolCalls: ExportedToolCall[] = parts.flatMap(part =>
+    part.type === 'tool-invocation' && part.toolInvocation.state === 'result'
+      ? [{ toolName: part.toolInvocation.toolName, args: part.toolInvocation.args, result: part.toolInvocation.result }]
+      : []
+  );
+  // Names only; the file contents are only in the JSON export
+  const attachments = message.role === 'user' ? getAttachmentsFromMessageData(message.data).map(attachment => attachment.name) : [];
+  return { reasoning, sources, toolCalls, attachments };
+}
+
+// Messages shown in the conversation (hidden workflow action messages are skipped)
+export function getVisibleMessages(messages: Message[]): Message[] {
+  return messages.filter(message =>
+    (message.role === 'user' || message.role === 'assistant') &&
+    !(message.role === 'user' && isUserActionData(message.data))
+  );
+}
+
+export function getRoleLabel(message: Message): string {
+  return message.role === 'user' ? 'You' : 'Assistant';
+}
+
+export function formatExportDate(value: Date | string | number | undefined): string {
+  if (value === undefined) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+export function describeModel(chat: ChatHistoryItem): string {
+  return `${LLM_PROVIDERS[chat.modelSettings.providerId].label} · ${chat.modelSettings.modelId}`;
+}
+
+export function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+}
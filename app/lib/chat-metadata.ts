@@ -0,0 +1,60 @@
+import type { Message } from 'ai/react';
+import { getAttachmentsFromMessageData } from '../ai/attachments';
+import { MAX_METADATA_MESSAGE_CHARS, chatMetadataSchema, type ChatMetadata } from '../ai/chat-metadata';
+import type { ModelSettings } from '../ai/models';
+import { isUserActionData } from '../chat/types';
+
+// Title of a chat before (or instead of) a generated one
+export const NEW_CHAT_TITLE = 'New Chat';
+const FALLBACK_TITLE_LENGTH = 40;
+
+// Typed text of a user message, or the names of its files when it only has attachments
+function getUserMessageText(message: Message): string {
+  const names = getAttachmentsFromMessageData(message.data).map(attachment => attachment.name);
+  const text = message.content.trim();
+  if (names.length === 0) return text;
+  return text ? `${text}\n[Attached: ${names.join(', ')}]` : `[Attached: ${names.join(', ')}]`;
+}
+
+// First user message and the first reply to it (hidden workflow action messages are skipped)
+export function getFirstExchange(messages: Message[]): { user?: Message; assistant?: Message } {
+  const user = messages.find(message => message.role === 'user' && !isUserActionData(message.data));
+  const assistant = messages.find(message => message.role === 'assistant' && message.content.trim());
+  return { user, assistant };
+}
+
+// Placeholder title from the first message, shown until the generated one arrives
+export function getFallbackTitle(messages: Message[]): string {
+  const { user } = getFirstExchange(messages);
+  if (!user) return NEW_CHAT_TITLE;
+  const names = getAttachmentsFromMessageData(user.data).map(attachment => attachment.name);
+  const text = user.content.trim().replace(/\s+/g, ' ') || names.join(', ');
+  if (!text) return NEW_CHAT_TITLE;
+  return text.length > FALLBACK_TITLE_LENGTH ? `${text.slice(0, FALLBACK_TITLE_LENGTH).trimEnd()}...` : text;
+}
+
+/**
+ * Asks /api/chat-metadata for a title, summary and tags based on the first exchange.
+ * Throws when the chat has no reply yet or the model could not produce them.
+ */
+export async function requestChatMetadata(messages: Message[], modelSettings: ModelSettings): Promise<ChatMetadata> {
+  const { user, assistant } = getFirstExchange(messages);
+  if (!user || !assistant) throw new Error('The chat has no reply yet.');
+
+  const response = await fetch('/api/chat-metadata', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      messages: [
+        { role: 'user', content: getUserMessageText(user).slice(0, MAX_METADATA_MESSAGE_CHARS) },
+        { role: 'assistant', content: assistant.content.slice(0, MAX_METADATA_MESSAGE_CHARS) },
+      ],
+      modelSettings,
+    }),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed (${response.status})`);
+  }
+  return chatMetadataSchema.parse(body);
+}
@@ -0,0 +1,150 @@
+import {
+  Brain, Cpu, Download, FilePlus, FileText, HelpCircle, ListCollapse, Pencil, Play, ScrollText, Trash2
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { AgentMode } from '../../ai/agent-modes';
+import { SERVER_COMMANDS, type ServerCommandName } from '../../ai/commands';
+import { LLM_PROVIDERS, LLM_PROVIDER_IDS, type LLMProviderId } from '../../ai/models';
+import type { ChatExportFormat } from '../chat-export';
+import { registerCommand } from './registry';
+import type { SlashCommand } from './types';
+
+// Commands available in every chat. Other modules can add their own with registerCommand.
+
+const EXPORT_FORMATS: Record<string, ChatExportFormat> = { json: 'json', md: 'markdown', html: 'html' };
+
+const MODEL_OPTIONS = [...new Set(LLM_PROVIDER_IDS.flatMap(id => LLM_PROVIDERS[id].suggestedModelIds))];
+
+// Python code blocks, for /run
+const PYTHON_BLOCK_PATTERN = /```python[^\n]*\n([\s\S]*?)```/g;
+
+registerCommand({
+  name: 'new',
+  label: 'New Chat',
+  description: 'Start a new conversation',
+  icon: FilePlus,
+  run: (_args, context) => context.newChat(),
+});
+
+registerCommand({
+  name: 'clear',
+  label: 'Clear Chat',
+  description: 'Delete the current chat',
+  icon: Trash2,
+  run: (_args, context) => context.clearChat(),
+});
+
+registerCommand({
+  name: 'help',
+  label: 'Help',
+  description: 'Show available commands and tips',
+  icon: HelpCircle,
+  run: (_args, context) => context.showHelp(),
+});
+
+registerCommand({
+  name: 'model',
+  label: 'Switch Model',
+  description: 'Use another model in this chat, e.g. /model gpt-4o or /model anthropic/claude-3-5-sonnet-latest',
+  icon: Cpu,
+  args: [{ name: 'model', description: 'Model id, optionally prefixed with the provider', type: 'string', options: MODEL_OPTIONS, required: true }],
+  run: (args, context) => {
+    const model = String(args.model);
+    const separatorIndex = model.indexOf('/');
+    const prefix = separatorIndex > -1 ? model.slice(0, separatorIndex) : null;
+    const explicitProvider = LLM_PROVIDER_IDS.find(id => id === prefix);
+    const modelId = explicitProvider ? model.slice(separatorIndex + 1) : model;
+    const providerId: LLMProviderId = explicitProvider
+      ?? LLM_PROVIDER_IDS.find(id => LLM_PROVIDERS[id].suggestedModelIds.includes(modelId))
+      ?? context.modelSettings.providerId;
+    if (!modelId) throw new Error('Model id is missing.');
+    context.setModelSettings({ ...context.modelSettings, providerId, modelId });
+    toast.success(`Model set to ${LLM_PROVIDERS[providerId].label} · ${modelId}`);
+  },
+});
+
+registerCommand({
+  name: 'mode',
+  label: 'Agent Mode',
+  description: 'Switch between normal, think and research mode',
+  icon: Brain,
+  args: [{ name: 'mode', description: 'Agent mode', type: 'enum', options: ['normal', 'think', 'research'], required: true }],
+  run: (args, context) => {
+    const mode = args.mode as AgentMode;
+    context.setAgentMode(mode);
+    toast.success(`Agent mode: ${mode}`);
+  },
+});
+
+registerCommand({
+  name: 'export',
+  label: 'Export Chat',
+  description: 'Download the current chat as JSON, Markdown or HTML',
+  icon: Download,
+  args: [{ name: 'format', description: 'File format', type: 'enum', options: Object.keys(EXPORT_FORMATS), required: true }],
+  run: (args, context) => context.exportChat(EXPORT_FORMATS[String(args.format)]),
+});
+
+registerCommand({
+  name: 'rename',
+  label: 'Rename Chat',
+  description: 'Change the title of the current chat',
+  icon: Pencil,
+  args: [{ name: 'title', description: 'New title', type: 'text', required: true }],
+  run: (args, context) => {
+    context.renameChat(String(args.title));
+    toast.success('Chat renamed.');
+  },
+});
+
+registerCommand({
+  name: 'system',
+  label: 'System Prompt',
+  description: 'Set custom instructions for this chat (no text clears them)',
+  icon: ScrollText,
+  args: [{ name: 'prompt', description: 'Instructions added to the system prompt', type: 'text' }],
+  run: (args, context) => {
+    const prompt = args.prompt === undefined ? undefined : String(args.prompt);
+    context.setSystemPrompt(prompt);
+    toast.success(prompt ? 'Custom instructions set for this chat.' : 'Custom instructions cleared.');
+  },
+});
+
+registerCommand({
+  name: 'run',
+  label: 'Run Python',
+  description: 'Run the last Python code block in this chat',
+  icon: Play,
+  run: (_args, context) => {
+    for (const message of [...context.messages].reverse()) {
+      const blocks = [...message.content.matchAll(PYTHON_BLOCK_PATTERN)];
+      const code = blocks[blocks.length - 1]?.[1].replace(/\n$/, '');
+      if (code) {
+        context.runPython(code, message.id);
+        return;
+      }
+    }
+    toast.warning('Nothing to Run', { description: 'There is no Python code block in this chat.' });
+  },
+});
+
+// --- Server commands (answered by /api/chat, see app/ai/commands.ts) ---
+
+const SERVER_COMMAND_UI: Record<ServerCommandName, Pick<SlashCommand, 'label' | 'icon'>> = {
+  summarize: { label: 'Summarize', icon: ListCollapse },
+  explain: { label: 'Explain Code', icon: FileText },
+};
+
+for (const name of Object.keys(SERVER_COMMANDS) as ServerCommandName[]) {
+  const { description, args } = SERVER_COMMANDS[name];
+  registerCommand({
+    name,
+    ...SERVER_COMMAND_UI[name],
+    description,
+    args,
+    run: (parsedArgs, context) => {
+      const argText = Object.values(parsedArgs).join(' ');
+      return context.runServerCommand(name, parsedArgs, `/${name}${argText ? ` ${argText}` : ''}`);
+    },
+  });
+}
@@ -0,0 +1,20 @@
+// Registers the built-in commands on first import
+import './builtin';
+
+export type {
+  CommandArgDef,
+  CommandArgType,
+  CommandArgValues,
+  CommandContext,
+  CommandSuggestion,
+  ServerCommandName,
+  SlashCommand,
+} from './types';
+export { registerCommand, getCommands, getCommand } from './registry';
+export {
+  applyCommandSuggestion,
+  getCommandSuggestions,
+  getCommandUsage,
+  parseCommandArgs,
+  splitCommandInput,
+} from './parse';
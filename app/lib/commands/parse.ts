@@ -0,0 +1,99 @@
+import { getCommand, getCommands } from './registry';
+import type { CommandArgValues, CommandSuggestion, SlashCommand } from './types';
+
+// "/rename Flight plans" -> { name: 'rename', argText: 'Flight plans' }; argText is null until a space is typed
+export function splitCommandInput(input: string): { name: string; argText: string | null } {
+  const body = input.startsWith('/') ? input.slice(1) : input;
+  const separatorIndex = body.search(/\s/);
+  if (separatorIndex === -1) return { name: body, argText: null };
+  return { name: body.slice(0, separatorIndex), argText: body.slice(separatorIndex).trimStart() };
+}
+
+// e.g. "/export <format>" or "/summarize [length]"
+export function getCommandUsage(command: SlashCommand): string {
+  const args = (command.args ?? []).map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+/**
+ * Parses the text after the command name into typed values.
+ * Enum values are matched case-insensitively and returned as declared.
+ */
+export function parseCommandArgs(command: SlashCommand, argText: string): { args: CommandArgValues } | { error: string } {
+  const args: CommandArgValues = {};
+  let rest = argText.trim();
+
+  for (const arg of command.args ?? []) {
+    let raw: string;
+    if (arg.type === 'text') {
+      raw = rest;
+      rest = '';
+    } else {
+      const word = rest.match(/^(\S+)\s*/);
+      raw = word?.[1] ?? '';
+      rest = rest.slice(word?.[0].length ?? 0);
+    }
+
+    if (!raw) {
+      if (arg.required) return { error: `Missing <${arg.name}>. Usage: ${getCommandUsage(command)}` };
+      continue;
+    }
+
+    if (arg.type === 'number') {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return { error: `<${arg.name}> must be a number, got "${raw}".` };
+      args[arg.name] = value;
+    } else if (arg.type === 'enum') {
+      const option = arg.options?.find(candidate => candidate.toLowerCase() === raw.toLowerCase());
+      if (!option) return { error: `<${arg.name}> must be one of: ${arg.options?.join(', ')}.` };
+      args[arg.name] = option;
+    } else {
+      args[arg.name] = raw;
+    }
+  }
+
+  if (rest) return { error: `Unexpected "${rest}". Usage: ${getCommandUsage(command)}` };
+  return { args };
+}
+
+/**
+ * Popover entries for the current input: matching commands while the name is typed,
+ * then the options of the argument under the cursor (the input's last word).
+ */
+export function getCommandSuggestions(input: string): CommandSuggestion[] {
+  const { name, argText } = splitCommandInput(input);
+
+  if (argText === null) {
+    const query = name.toLowerCase();
+    const matches = getCommands().filter(command =>
+      command.name.includes(query) || command.label.toLowerCase().includes(query)
+    );
+    // Exact and prefix matches first, so "/mode" picks /mode over /model and "/r" lists /rename before /clear
+    const rank = (command: SlashCommand) => (command.name === query ? 0 : command.name.startsWith(query) ? 1 : 2);
+    return matches
+      .sort((a, b) => rank(a) - rank(b))
+      .map(command => ({ type: 'command', command }));
+  }
+
+  const command = getCommand(name);
+  const args = command?.args ?? [];
+  const words = argText.split(/\s+/);
+  const argIndex = words.length - 1;
+  const arg = args[argIndex];
+  // Nothing to complete inside free text
+  if (!command || !arg?.options || args.slice(0, argIndex).some(previous => previous.type === 'text')) return [];
+
+  const partial = words[argIndex];
+  const query = partial.toLowerCase();
+  // A complete value is left alone, so Enter runs "/model gpt-4o" instead of picking "gpt-4o-mini"
+  if (arg.options.some(option => option.toLowerCase() === query)) return [];
+  return arg.options
+    .filter(option => option.toLowerCase().includes(query))
+    .map(value => ({ type: 'argument', command, arg, value, partial }));
+}
+
+// Input text after picking a suggestion
+export function applyCommandSuggestion(input: string, suggestion: CommandSuggestion): string {
+  if (suggestion.type === 'command') return `/${suggestion.command.name} `;
+  return `${input.slice(0, input.length - suggestion.partial.length)}${suggestion.value} `;
+}
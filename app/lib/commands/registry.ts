@@ -0,0 +1,35 @@
+import type { SlashCommand } from './types';
+
+const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const commands = new Map<string, SlashCommand>();
+
+/**
+ * Adds a command to the registry (replacing one with the same name).
+ * Returns a function that removes it again.
+ */
+export function registerCommand(command: SlashCommand): () => void {
+  if (!COMMAND_NAME_PATTERN.test(command.name)) {
+    throw new Error(`Invalid command name "${command.name}": use lowercase letters, digits and dashes.`);
+  }
+  const args = command.args ?? [];
+  if (args.some((arg, index) => arg.type === 'text' && index !== args.length - 1)) {
+    throw new Error(`Command "/${command.name}": only the last argument can be of type "text".`);
+  }
+  if (commands.has(command.name)) {
+    console.warn(`[Commands] Replacing existing command /${command.name}`);
+  }
+  commands.set(command.name, command);
+  return () => {
+    if (commands.get(command.name) === command) commands.delete(command.name);
+  };
+}
+
+// In registration order
+export function getCommands(): SlashCommand[] {
+  return [...commands.values()];
+}
+
+export function getCommand(name: string): SlashCommand | undefined {
+  return commands.get(name.toLowerCase());
+}
@@ -0,0 +1,42 @@
+import type React from 'react';
+import type { Message } from 'ai/react';
+import type { AgentMode } from '../../ai/agent-modes';
+import type { CommandArgDef, CommandArgValues, ServerCommandName } from '../../ai/commands';
+import type { ModelSettings } from '../../ai/models';
+import type { ChatExportFormat } from '../chat-export';
+
+export type { CommandArgDef, CommandArgType, CommandArgValues, ServerCommandName } from '../../ai/commands';
+
+// What a command can read and do. page.tsx provides it; ChatInput adds showHelp.
+export interface CommandContext {
+  chatId: string | null;
+  messages: Message[];
+  modelSettings: ModelSettings;
+  systemPrompt: string | undefined;
+  newChat(): void;
+  clearChat(): void;
+  showHelp(): void;
+  setModelSettings(settings: ModelSettings): void;
+  setAgentMode(mode: AgentMode): void;
+  renameChat(title: string): void;
+  setSystemPrompt(prompt: string | undefined): void;
+  exportChat(format: ChatExportFormat): void | Promise<void>;
+  runPython(code: string, messageId: string): void;
+  // Sends `text` as a user message that /api/chat answers by running the server command
+  runServerCommand(command: ServerCommandName, args: CommandArgValues, text: string): void | Promise<void>;
+}
+
+// A command typed as "/name arg1 arg2", registered with registerCommand
+export interface SlashCommand {
+  name: string; // Without the "/", lowercase
+  label: string;
+  description: string;
+  icon: React.ElementType; // Lucide icon component
+  args?: CommandArgDef[];
+  run(args: CommandArgValues, context: CommandContext): void | Promise<void>;
+}
+
+export type CommandSuggestion =
+  | { type: 'command'; command: SlashCommand }
+  // `partial` is the text typed so far for the argument, replaced when the suggestion is picked
+  | { type: 'argument'; command: SlashCommand; arg: CommandArgDef; value: string; partial: string };
@@ -0,0 +1,96 @@
+// Line diff for showing two versions of a text side by side (artifact sources)
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldNumber?: number; // 1-based line numbers, on the side(s) the line is on
+  newNumber?: number;
+}
+
+// One row of a side-by-side view; a changed line is paired with its replacement where possible
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Above this many cells (old lines x new lines) the changed middle is shown as replaced as a whole
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  // An empty text has no lines (so a new file is all additions)
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+
+  // Common start and end first, which is most of the file for small edits
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  const same = (oldIndex: number, newIndex: number) =>
+    result.push({ type: 'same', text: oldLines[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+  const removed = (oldIndex: number) => result.push({ type: 'removed', text: oldLines[oldIndex], oldNumber: oldIndex + 1 });
+  const added = (newIndex: number) => result.push({ type: 'added', text: newLines[newIndex], newNumber: newIndex + 1 });
+
+  for (let index = 0; index < start; index++) same(index, index);
+
+  const rows = oldEnd - start;
+  const columns = newEnd - start;
+  if (rows * columns > MAX_LCS_CELLS) {
+    for (let index = start; index < oldEnd; index++) removed(index);
+    for (let index = start; index < newEnd; index++) added(index);
+  } else {
+    // Longest common subsequence of the middle, lengths[i][j] for the suffixes from i and j
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldLines[start + i] === newLines[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && oldLines[start + i] === newLines[start + j]) {
+        same(start + i++, start + j++);
+      } else if (i < rows && (j === columns || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+
+  for (let offset = 0; offset < oldLines.length - oldEnd; offset++) same(oldEnd + offset, newEnd + offset);
+  return result;
+}
+
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    // A run of changes: removed lines on the left next to the added ones on the right
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      (lines[index].type === 'removed' ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row] ?? null, right: added[row] ?? null });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,56 @@
+import { MENTION_KINDS, truncateMentionContent, type MessageMention } from '../../ai/mentions';
+import type { MentionItem, MentionProvider } from './types';
+
+export type { MentionItem, MentionKind, MentionProvider, MessageMention } from './types';
+export {
+  createArtifactMentionProvider,
+  createChatMentionProvider,
+  createFileMentionProvider,
+  createPersonaMentionProvider,
+} from './providers';
+
+const MAX_RESULTS_PER_PROVIDER = 5;
+
+// Text inserted into the input for a mention, e.g. "@chat:Flight-booking"
+export function getMentionToken(item: MentionItem): string {
+  return `@${item.kind}:${item.label.trim().replace(/\s+/g, '-')}`;
+}
+
+/**
+ * Candidates for the text typed after "@". A "kind:" prefix ("chat:", "file:", ...)
+ * limits the results to that provider.
+ */
+export function searchMentions(providers: MentionProvider[], query: string): MentionItem[] {
+  const separatorIndex = query.indexOf(':');
+  const kindPrefix = separatorIndex > -1 ? query.slice(0, separatorIndex) : null;
+  const kind = MENTION_KINDS.find(candidate => candidate === kindPrefix);
+  const searchText = kind ? query.slice(separatorIndex + 1) : query;
+
+  return providers
+    .filter(provider => !kind || provider.kind === kind)
+    .flatMap(provider => provider.search(searchText).slice(0, MAX_RESULTS_PER_PROVIDER));
+}
+
+// Mentions whose token is still in the message, with the content the server should see
+export async function resolveMentions(
+  providers: MentionProvider[],
+  mentions: MentionItem[],
+  text: string
+): Promise<MessageMention[]> {
+  const used = mentions.filter(mention => text.includes(getMentionToken(mention)));
+  return Promise.all(used.map(async mention => {
+    const provider = providers.find(candidate => candidate.kind === mention.kind);
+    let content: string | undefined;
+    try {
+      content = await provider?.resolve(mention);
+    } catch (error) {
+      console.error(`[Mentions] Could not resolve ${mention.kind} "${mention.label}":`, error);
+    }
+    return {
+      kind: mention.kind,
+      id: mention.id,
+      label: mention.label,
+      ...(content !== undefined && { content: truncateMentionContent(content) }),
+    };
+  }));
+}
@@ -0,0 +1,110 @@
+import type { Message } from 'ai/react';
+import { getAttachmentsFromMessageData } from '../../ai/attachments';
+import { assembleMentionedPersonaPrompt, isBuiltInPromptItem } from '../../ai/prompt-library';
+import { extractArtifactFiles, formatArtifactFiles, getArtifactEntry, getArtifactName } from '../artifacts';
+import { findPersona, getAllPersonas, getAllPromptFragments, type PromptLibrary } from '../prompt-library';
+import { loadMessages, type ChatHistoryItem } from '../storage';
+import type { MentionItem, MentionProvider } from './types';
+
+// Older chats have text files inlined into the user message between these markers
+const FILE_BLOCK_PATTERN = /--- START FILE: (.+?) ---\n([\s\S]*?)\n--- END FILE: \1 ---/g;
+
+// Mention tokens can't contain spaces, so "flight-bo" matches "Flight booking"
+function matchesQuery(label: string, query: string): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, '-');
+  return normalize(label).includes(normalize(query));
+}
+
+// Other chats, sent as a plain transcript of their active branch
+export function createChatMentionProvider(chats: ChatHistoryItem[], currentChatId: string | null): MentionProvider {
+  return {
+    kind: 'chat',
+    heading: 'Chats',
+    search: (query) => chats
+      .filter(chat => chat.id !== currentChatId && matchesQuery(chat.title, query))
+      .map(chat => ({
+        kind: 'chat',
+        id: chat.id,
+        label: chat.title || `Chat ${chat.id.substring(0, 4)}`,
+        description: chat.isArchived ? 'Archived chat' : 'Chat',
+      })),
+    resolve: async (item) => {
+      const messages = await loadMessages(item.id);
+      return messages
+        .filter(message => message.role === 'user' || message.role === 'assistant')
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+        .join('\n\n');
+    },
+  };
+}
+
+// Files with text attached earlier in the current chat (the newest version of each file name).
+// Attachments are sent by id and read from the attachment store by the server; older messages
+// have the text itself.
+export function createFileMentionProvider(messages: Message[]): MentionProvider {
+  const files = new Map<string, { id: string; text?: string }>();
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+    for (const match of message.content.matchAll(FILE_BLOCK_PATTERN)) {
+      files.set(match[1], { id: match[1], text: match[2] });
+    }
+    for (const attachment of getAttachmentsFromMessageData(message.data)) {
+      if (attachment.kind !== 'image') files.set(attachment.name, { id: attachment.id, text: attachment.text });
+    }
+  }
+
+  return {
+    kind: 'file',
+    heading: 'Files',
+    search: (query) => [...files]
+      .filter(([name]) => matchesQuery(name, query))
+      .map(([name, { id }]) => ({ kind: 'file', id, label: name, description: 'Attached file' })),
+    resolve: async (item) => [...files.values()].find(file => file.id === item.id)?.text,
+  };
+}
+
+// Artifacts generated in the current chat
+export function createArtifactMentionProvider(messages: Message[]): MentionProvider {
+  const artifacts: { item: MentionItem; code: string }[] = [];
+  for (const message of messages) {
+    const files = message.role === 'assistant' ? extractArtifactFiles(message.content) : [];
+    if (files.length === 0) continue;
+    const entry = files.find(file => file.path === getArtifactEntry(files));
+    artifacts.push({
+      item: {
+        kind: 'artifact',
+        id: message.id,
+        label: (entry && getArtifactName(entry.content)) ?? `Artifact ${artifacts.length + 1}`,
+        description: files.length > 1 ? `Artifact (${files.length} files)` : 'Artifact',
+      },
+      code: formatArtifactFiles(files),
+    });
+  }
+
+  return {
+    kind: 'artifact',
+    heading: 'Artifacts',
+    search: (query) => artifacts.map(({ item }) => item).filter(item => matchesQuery(item.label, query)),
+    resolve: async (item) => artifacts.find(artifact => artifact.item.id === item.id)?.code,
+  };
+}
+
+// Prompt library personas other than the chat's own. The server adds the instructions of built-in
+// ones; the user's are resolved here, from the library only the browser has.
+export function createPersonaMentionProvider(library: PromptLibrary, chatPersonaId: string | undefined): MentionProvider {
+  const chatPersona = findPersona(library, chatPersonaId);
+  const personas = getAllPersonas(library).filter(persona => persona.id !== chatPersona.id);
+
+  return {
+    kind: 'persona',
+    heading: 'Personas',
+    search: (query) => personas
+      .filter(persona => matchesQuery(persona.name, query) || matchesQuery(persona.id, query))
+      .map(persona => ({ kind: 'persona', id: persona.id, label: persona.name, description: persona.description })),
+    resolve: async (item) => {
+      const persona = personas.find(persona => persona.id === item.id);
+      if (!persona || isBuiltInPromptItem(persona.id)) return undefined;
+      return assembleMentionedPersonaPrompt(persona, getAllPromptFragments(library), chatPersona);
+    },
+  };
+}
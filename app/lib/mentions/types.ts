@@ -0,0 +1,20 @@
+import type { MentionKind } from '../../ai/mentions';
+
+export type { MentionKind, MessageMention } from '../../ai/mentions';
+
+// Something that can be @mentioned in the chat input
+export interface MentionItem {
+  kind: MentionKind;
+  id: string;
+  label: string;
+  description?: string;
+}
+
+// Source of mention candidates of one kind, fed to MentionPopover
+export interface MentionProvider {
+  kind: MentionKind;
+  heading: string;
+  search(query: string): MentionItem[];
+  // Content sent along with the message (undefined when the server resolves it, e.g. built-in personas and stored attachments)
+  resolve(item: MentionItem): Promise<string | undefined>;
+}
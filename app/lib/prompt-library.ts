@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import {
+  BUILT_IN_PERSONAS,
+  BUILT_IN_PROMPT_FRAGMENTS,
+  promptFragmentSchema,
+  promptPersonaSchema,
+  type PromptFragment,
+  type PromptPersona,
+  type PromptSelection,
+} from '../ai/prompt-library';
+
+// The user's personas and fragments, edited in the prompt library dialog. Every save of an
+// existing item bumps its version and keeps the previous one, so older versions can be restored.
+
+// Earlier versions kept per persona / fragment
+export const MAX_PROMPT_VERSIONS = 10;
+
+const promptLibrarySchema = z.object({
+  personas: z.array(promptPersonaSchema).catch([]),
+  fragments: z.array(promptFragmentSchema).catch([]),
+  personaHistory: z.record(z.array(promptPersonaSchema)).catch({}),
+  fragmentHistory: z.record(z.array(promptFragmentSchema)).catch({}),
+});
+
+export interface PromptLibrary {
+  personas: PromptPersona[]; // Built-in personas and fragments are not stored
+  fragments: PromptFragment[];
+  // Earlier versions by id, newest first
+  personaHistory: Record<string, PromptPersona[]>;
+  fragmentHistory: Record<string, PromptFragment[]>;
+}
+
+export const EMPTY_PROMPT_LIBRARY: PromptLibrary = { personas: [], fragments: [], personaHistory: {}, fragmentHistory: {} };
+
+export function normalizePromptLibrary(stored: unknown): PromptLibrary {
+  return promptLibrarySchema.catch(EMPTY_PROMPT_LIBRARY).parse(stored ?? EMPTY_PROMPT_LIBRARY);
+}
+
+export type PersonaDraft = Pick<PromptPersona, 'name' | 'description' | 'fragmentIds'> & { id?: string };
+export type FragmentDraft = Pick<PromptFragment, 'name' | 'kind' | 'content'> & { id?: string };
+
+export function getAllPersonas(library: PromptLibrary): PromptPersona[] {
+  return [...BUILT_IN_PERSONAS, ...library.personas];
+}
+
+export function getAllPromptFragments(library: PromptLibrary): PromptFragment[] {
+  return [...BUILT_IN_PROMPT_FRAGMENTS, ...library.fragments];
+}
+
+// The chat's persona, or the default one when it was deleted (or never set)
+export function findPersona(library: PromptLibrary, personaId: string | undefined): PromptPersona {
+  return getAllPersonas(library).find(persona => persona.id === personaId) ?? BUILT_IN_PERSONAS[0];
+}
+
+// User personas that include the fragment (such fragments can't be deleted)
+export function getFragmentUsers(library: PromptLibrary, fragmentId: string): PromptPersona[] {
+  return library.personas.filter(persona => persona.fragmentIds.includes(fragmentId));
+}
+
+// Replaces (or adds) an item and moves the replaced version into the history
+function saveVersioned<T extends { id: string; version: number; updatedAt: number }>(
+  items: T[],
+  history: Record<string, T[]>,
+  draft: Omit<T, 'id' | 'version' | 'updatedAt'> & { id?: string }
+): { items: T[]; history: Record<string, T[]>; saved: T } {
+  const previous = draft.id ? items.find(item => item.id === draft.id) : undefined;
+  const saved = {
+    ...draft,
+    id: previous?.id ?? nanoid(8),
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: Date.now(),
+  } as T;
+  if (!previous) {
+    return { items: [...items, saved], history, saved };
+  }
+  return {
+    items: items.map(item => (item.id === saved.id ? saved : item)),
+    history: { ...history, [saved.id]: [previous, ...(history[saved.id] ?? [])].slice(0, MAX_PROMPT_VERSIONS) },
+    saved,
+  };
+}
+
+export function savePersona(library: PromptLibrary, draft: PersonaDraft): { library: PromptLibrary; persona: PromptPersona } {
+  const { items, history, saved } = saveVersioned(library.personas, library.personaHistory, draft);
+  return { library: { ...library, personas: items, personaHistory: history }, persona: saved };
+}
+
+export function saveFragment(library: PromptLibrary, draft: FragmentDraft): { library: PromptLibrary; fragment: PromptFragment } {
+  const { items, history, saved } = saveVersioned(library.fragments, library.fragmentHistory, draft);
+  return { library: { ...library, fragments: items, fragmentHistory: history }, fragment: saved };
+}
+
+export function deletePersona(library: PromptLibrary, personaId: string): PromptLibrary {
+  return {
+    ...library,
+    personas: library.personas.filter(persona => persona.id !== personaId),
+    personaHistory: Object.fromEntries(Object.entries(library.personaHistory).filter(([id]) => id !== personaId)),
+  };
+}
+
+export function deleteFragment(library: PromptLibrary, fragmentId: string): PromptLibrary {
+  return {
+    ...library,
+    fragments: library.fragments.filter(fragment => fragment.id !== fragmentId),
+    fragmentHistory: Object.fromEntries(Object.entries(library.fragmentHistory).filter(([id]) => id !== fragmentId)),
+  };
+}
+
+// Restoring saves the old content as a new version, so the current one stays in the history
+export function restorePersonaVersion(library: PromptLibrary, personaId: string, version: number): PromptLibrary {
+  const old = library.personaHistory[personaId]?.find(persona => persona.version === version);
+  if (!old) return library;
+  return savePersona(library, { id: personaId, name: old.name, description: old.description, fragmentIds: old.fragmentIds }).library;
+}
+
+export function restoreFragmentVersion(library: PromptLibrary, fragmentId: string, version: number): PromptLibrary {
+  const old = library.fragmentHistory[fragmentId]?.find(fragment => fragment.version === version);
+  if (!old) return library;
+  return saveFragment(library, { id: fragmentId, name: old.name, kind: old.kind, content: old.content }).library;
+}
+
+// What /api/chat needs to assemble the chat's system prompt
+export function buildPromptSelection(library: PromptLibrary, personaId: string | undefined): PromptSelection {
+  const persona = findPersona(library, personaId);
+  if (BUILT_IN_PERSONAS.some(builtIn => builtIn.id === persona.id)) {
+    return { personaId: persona.id };
+  }
+  return {
+    personaId: persona.id,
+    persona,
+    fragments: library.fragments.filter(fragment => persona.fragmentIds.includes(fragment.id)),
+  };
+}
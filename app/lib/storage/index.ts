@@ -0,0 +1,430 @@
+import type { Message } from 'ai/react';
+import { nanoid } from 'nanoid';
+import { toast } from 'sonner';
+import { isUserActionData } from '../../chat/types'; // Adjust path if necessary
+import { normalizeModelSettings } from '../../ai/models';
+import { getStoredAttachmentIds } from '../../ai/attachments';
+import { deleteAttachmentTexts } from '../attachments';
+import type { ChatHistoryItem, ChatOrganization, ChatStorageBackend, MessageTree, SettingKey, Settings, StorageUsage } from './types';
+import { normalizePromptLibrary, type PromptLibrary } from '../prompt-library';
+import { createIndexedDBBackend } from './indexeddb';
+import {
+  createLocalStorageBackend,
+  hasLocalStorageChats,
+  clearLocalStorageChats,
+} from './local-storage';
+import { createDefaultOrganization, normalizeOrganization } from './organization';
+import { createSearchIndex, parseSearchQuery, type ChatSearchResult } from './search-index';
+import {
+  createEmptyMessageTree,
+  createLinearMessageTree,
+  getActivePath,
+  removeTreeMessages,
+} from './message-tree';
+
+export type {
+  ChatHistoryItem,
+  ChatFolder,
+  ChatOrganization,
+  MessageTree,
+  MessageTreeNode,
+  StorageUsage,
+  StorageBackendName,
+  TagColor,
+  Workspace,
+} from './types';
+export type { ChatSearchResult, MessageSearchMatch, SnippetSegment } from './search-index';
+export { parseSearchQuery, getSearchQueryText, isEmptySearchQuery } from './search-index';
+export {
+  createEmptyMessageTree,
+  getActivePath,
+  getSiblingIds,
+  mergeActivePath,
+  selectBranch,
+} from './message-tree';
+export {
+  DEFAULT_WORKSPACE_ID,
+  TAG_COLORS,
+  canMoveFolder,
+  createDefaultOrganization,
+  getChatWorkspaceId,
+  getFolderSubtreeIds,
+  getTagColor,
+} from './organization';
+
+// The current chat id is tiny and read synchronously on mount, so it stays in localStorage
+const CURRENT_CHAT_ID_KEY = 'current-chat-id';
+// Ids of deleted chats whose messages are kept until their undo window ends
+const TRASH_STORAGE_KEY = 'chat-trash';
+
+const SETTING_KEYS: SettingKey[] = ['organization', 'promptLibrary'];
+
+// Settings are stored as-is and checked when read back
+const SETTING_NORMALIZERS: { [K in SettingKey]: (stored: unknown) => Settings[K] } = {
+  organization: normalizeOrganization,
+  promptLibrary: normalizePromptLibrary,
+};
+
+// How long deleted chats can be restored (matches the undo toast)
+export const TRASH_RETENTION_MS = 10000;
+
+// --- Backend selection ---
+
+let backendPromise: Promise<ChatStorageBackend> | null = null;
+
+async function migrateSetting<K extends SettingKey>(legacy: ChatStorageBackend, target: ChatStorageBackend, key: K): Promise<void> {
+  const legacyValue = await legacy.loadSetting(key);
+  if (legacyValue && !(await target.loadSetting(key))) {
+    await target.saveSetting(key, SETTING_NORMALIZERS[key](legacyValue));
+  }
+}
+
+// Copies chats saved by older versions (localStorage) into IndexedDB, then removes them
+async function migrateFromLocalStorage(target: ChatStorageBackend): Promise<void> {
+  if (!hasLocalStorageChats()) return;
+
+  const legacy = createLocalStorageBackend();
+  const legacyChats = await legacy.loadChats();
+  for (const chat of legacyChats) {
+    await target.saveMessageTree(chat.id, await legacy.loadMessageTree(chat.id));
+  }
+  // Keep chats already in IndexedDB (e.g. created while it was briefly unavailable)
+  const existingChats = await target.loadChats();
+  const legacyIds = new Set(legacyChats.map(chat => chat.id));
+  await target.saveChats([...legacyChats, ...existingChats.filter(chat => !legacyIds.has(chat.id))]);
+  for (const key of SETTING_KEYS) {
+    await migrateSetting(legacy, target, key);
+  }
+
+  clearLocalStorageChats();
+  console.log(`[Storage] Migrated ${legacyChats.length} chat(s) from localStorage to IndexedDB`);
+}
+
+async function initBackend(): Promise<ChatStorageBackend> {
+  let backend: ChatStorageBackend;
+  if (typeof indexedDB === 'undefined') {
+    backend = createLocalStorageBackend();
+  } else {
+    try {
+      backend = await createIndexedDBBackend();
+      await migrateFromLocalStorage(backend);
+    } catch (error) {
+      // Private browsing modes and some embedded browsers block IndexedDB
+      console.error('[Storage] IndexedDB unavailable, falling back to localStorage:', error);
+      backend = createLocalStorageBackend();
+    }
+  }
+  await purgeLeftoverTrash(backend);
+  return backend;
+}
+
+function getBackend(): Promise<ChatStorageBackend> {
+  if (!backendPromise) {
+    backendPromise = initBackend();
+  }
+  return backendPromise;
+}
+
+// --- Trash (undo for deleted chats) ---
+
+interface TrashEntry {
+  chats: ChatHistoryItem[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const trash = new Map<string, TrashEntry>();
+
+function readTrashedChatIds(): string[] {
+  try {
+    const stored = localStorage.getItem(TRASH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTrashedChatIds(chatIds: string[]): void {
+  try {
+    if (chatIds.length > 0) {
+      localStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(chatIds));
+    } else {
+      localStorage.removeItem(TRASH_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving trash state:", error);
+  }
+}
+
+// Texts of files attached anywhere in the chat (any branch), kept in the server's attachment store
+async function deleteChatAttachments(backend: ChatStorageBackend, chatId: string): Promise<void> {
+  const { nodes } = await backend.loadMessageTree(chatId);
+  const attachmentIds = getStoredAttachmentIds(nodes.map(node => node.message));
+  if (attachmentIds.length > 0) await deleteAttachmentTexts(attachmentIds);
+}
+
+// Messages of chats deleted right before the page was closed (their undo window is gone)
+async function purgeLeftoverTrash(backend: ChatStorageBackend): Promise<void> {
+  const chatIds = readTrashedChatIds();
+  if (chatIds.length === 0) return;
+  try {
+    for (const chatId of chatIds) {
+      await deleteChatAttachments(backend, chatId);
+      await backend.deleteChatMessages(chatId);
+    }
+    writeTrashedChatIds([]);
+  } catch (error) {
+    console.error('[Storage] Could not purge trashed chats:', error);
+  }
+}
+
+async function purgeTrash(trashId: string): Promise<void> {
+  const entry = trash.get(trashId);
+  if (!entry) return;
+  trash.delete(trashId);
+  for (const chat of entry.chats) {
+    await deleteChatMessages(chat.id);
+  }
+  const purgedIds = new Set(entry.chats.map(chat => chat.id));
+  writeTrashedChatIds(readTrashedChatIds().filter(chatId => !purgedIds.has(chatId)));
+}
+
+/**
+ * Keeps deleted chats restorable for TRASH_RETENTION_MS, then deletes their messages (and the
+ * stored texts of their attached files).
+ * The chats must already be removed from the saved chat list. Returns an id for restoreTrashedChats.
+ */
+export function trashChats(chats: ChatHistoryItem[]): string {
+  const trashId = nanoid(8);
+  writeTrashedChatIds([...readTrashedChatIds(), ...chats.map(chat => chat.id)]);
+  trash.set(trashId, {
+    chats,
+    timer: setTimeout(() => purgeTrash(trashId), TRASH_RETENTION_MS),
+  });
+  return trashId;
+}
+
+// Cancels the pending deletion; returns the chats to put back into the list (null if already purged)
+export function restoreTrashedChats(trashId: string): ChatHistoryItem[] | null {
+  const entry = trash.get(trashId);
+  if (!entry) return null;
+  clearTimeout(entry.timer);
+  trash.delete(trashId);
+  const restoredIds = new Set(entry.chats.map(chat => chat.id));
+  writeTrashedChatIds(readTrashedChatIds().filter(chatId => !restoredIds.has(chatId)));
+  return entry.chats;
+}
+
+// --- Message search ---
+
+const searchIndex = createSearchIndex();
+let searchIndexReady: Promise<void> | null = null;
+
+// Indexes the active branch of every stored chat once; saveMessageTree/deleteChatMessages keep it current afterwards
+async function buildSearchIndex(): Promise<void> {
+  const backend = await getBackend();
+  const chats = await backend.loadChats();
+  for (const chat of chats) {
+    searchIndex.setChatMessages(chat.id, getActivePath(await backend.loadMessageTree(chat.id)));
+  }
+  console.log(`[Storage] Built search index for ${chats.length} chat(s)`);
+}
+
+function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+}
+
+function toastSaveError(error: unknown, description: string): void {
+  if (isQuotaExceededError(error)) {
+    // Fixed id so repeated failures while a response streams in show a single toast
+    toast.error("Storage Full", {
+      id: 'storage-quota-exceeded',
+      description: "Browser storage is full, so recent changes were not saved. Delete old chats to free up space.",
+    });
+    return;
+  }
+  toast.error("Save Error", { description });
+}
+
+// --- Storage Helpers (Moved from page.tsx) ---
+
+export async function loadChats(): Promise<ChatHistoryItem[]> {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsedChats = await (await getBackend()).loadChats();
+    // --- Add default values for migration ---
+    return parsedChats.map((chat: Partial<ChatHistoryItem> & { id: string; title: string }) => ({
+      id: chat.id,
+      title: chat.title,
+      lastUpdated: chat.lastUpdated || Date.now(),
+      isPinned: chat.isPinned || false,
+      isArchived: chat.isArchived || false,
+      modelSettings: normalizeModelSettings(chat.modelSettings),
+      ...(typeof chat.systemPrompt === 'string' && chat.systemPrompt && { systemPrompt: chat.systemPrompt }),
+      ...((chat.titleSource === 'generated' || chat.titleSource === 'manual') && { titleSource: chat.titleSource }),
+      ...(typeof chat.summary === 'string' && { summary: chat.summary }),
+      ...(Array.isArray(chat.tags) && { tags: chat.tags }),
+      ...(Array.isArray(chat.pinnedMessageIds) && chat.pinnedMessageIds.length > 0 && { pinnedMessageIds: chat.pinnedMessageIds }),
+      ...(typeof chat.workspaceId === 'string' && { workspaceId: chat.workspaceId }),
+      ...(typeof chat.folderId === 'string' && { folderId: chat.folderId }),
+      ...(typeof chat.personaId === 'string' && { personaId: chat.personaId }),
+    }));
+  } catch (error) {
+    console.error("Error loading chat list:", error);
+    toast.error("Load Error", { description: "Could not load chat list from browser storage." });
+    return [];
+  }
+}
+
+export async function saveChats(chats: ChatHistoryItem[]): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await (await getBackend()).saveChats(chats);
+  } catch (error) {
+    console.error("Error saving chat list:", error);
+    toastSaveError(error, "Could not save chat list to browser storage.");
+  }
+}
+
+// Workspaces, folders and tag colors (the default organization when nothing was saved yet)
+export async function loadOrganization(): Promise<ChatOrganization> {
+  if (typeof window === 'undefined') return createDefaultOrganization();
+  try {
+    return normalizeOrganization(await (await getBackend()).loadSetting('organization'));
+  } catch (error) {
+    console.error("Error loading workspaces and folders:", error);
+    toast.error("Load Error", { description: "Could not load workspaces and folders from browser storage." });
+    return createDefaultOrganization();
+  }
+}
+
+export async function saveOrganization(organization: ChatOrganization): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await (await getBackend()).saveSetting('organization', organization);
+  } catch (error) {
+    console.error("Error saving workspaces and folders:", error);
+    toastSaveError(error, "Could not save workspaces and folders to browser storage.");
+  }
+}
+
+// Personas and prompt fragments created by the user (built-in ones are not stored)
+export async function loadPromptLibrary(): Promise<PromptLibrary> {
+  if (typeof window === 'undefined') return normalizePromptLibrary(null);
+  try {
+    return normalizePromptLibrary(await (await getBackend()).loadSetting('promptLibrary'));
+  } catch (error) {
+    console.error("Error loading prompt library:", error);
+    toast.error("Load Error", { description: "Could not load personas from browser storage." });
+    return normalizePromptLibrary(null);
+  }
+}
+
+export async function savePromptLibrary(library: PromptLibrary): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await (await getBackend()).saveSetting('promptLibrary', library);
+  } catch (error) {
+    console.error("Error saving prompt library:", error);
+    toastSaveError(error, "Could not save personas to browser storage.");
+  }
+}
+
+export async function loadMessageTree(chatId: string): Promise<MessageTree> {
+  if (typeof window === 'undefined' || !chatId) return createEmptyMessageTree(); // Add !chatId check
+  try {
+    return await (await getBackend()).loadMessageTree(chatId);
+  } catch (error) {
+    console.error(`Error loading messages for chat ${chatId}:`, error);
+    toast.error("Load Error", { description: `Could not load messages for chat ${chatId.substring(0, 4)}...` });
+    return createEmptyMessageTree();
+  }
+}
+
+export async function saveMessageTree(chatId: string, tree: MessageTree): Promise<void> {
+  if (typeof window === 'undefined' || !chatId) return;
+  try {
+    // Filter out user actions before saving
+    const treeToSave = removeTreeMessages(tree, m => m.role === 'user' && isUserActionData(m.data));
+    await (await getBackend()).saveMessageTree(chatId, treeToSave);
+    searchIndex.setChatMessages(chatId, getActivePath(treeToSave));
+  } catch (error) {
+    console.error(`Error saving messages for chat ${chatId}:`, error);
+    toastSaveError(error, `Could not save messages for chat ${chatId.substring(0, 4)}...`);
+  }
+}
+
+// Messages of the active branch only (export, search)
+export async function loadMessages(chatId: string): Promise<Message[]> {
+  return getActivePath(await loadMessageTree(chatId));
+}
+
+// Saves a plain message list as a chat with a single branch (import)
+export async function saveMessages(chatId: string, messages: Message[]): Promise<void> {
+  await saveMessageTree(chatId, createLinearMessageTree(messages));
+}
+
+export async function deleteChatMessages(chatId: string): Promise<void> {
+  if (typeof window === 'undefined' || !chatId) return;
+  try {
+    const backend = await getBackend();
+    await deleteChatAttachments(backend, chatId);
+    await backend.deleteChatMessages(chatId);
+    searchIndex.removeChat(chatId);
+  } catch (error) {
+    console.error(`Error deleting messages for chat ${chatId}:`, error);
+    toast.error("Deletion Error", { description: `Could not delete messages for chat ${chatId.substring(0, 4)}...` });
+  }
+}
+
+// Full-text search over all stored messages, grouped by chat
+export async function searchChats(query: string): Promise<ChatSearchResult[]> {
+  if (typeof window === 'undefined') return [];
+  try {
+    if (!searchIndexReady) {
+      searchIndexReady = buildSearchIndex();
+    }
+    await searchIndexReady;
+    return searchIndex.search(parseSearchQuery(query));
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    searchIndexReady = null; // Rebuild on the next search
+    toast.error("Search Error", { description: "Could not search chat messages." });
+    return [];
+  }
+}
+
+// Bytes used by this origin's storage and the browser quota, for the usage indicator
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    return await (await getBackend()).getUsage();
+  } catch (error) {
+    console.error("Error reading storage usage:", error);
+    return null;
+  }
+}
+
+export function saveCurrentChatId(chatId: string | null): void {
+  if (typeof window === 'undefined') return;
+  try {
+    if (chatId) {
+      localStorage.setItem(CURRENT_CHAT_ID_KEY, chatId);
+    } else {
+      localStorage.removeItem(CURRENT_CHAT_ID_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving current chat ID:", error);
+    toast.error("Error", { description: "Could not save current chat session state." });
+  }
+}
+
+export function loadCurrentChatId(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(CURRENT_CHAT_ID_KEY);
+  } catch (error) {
+    console.error("Error loading current chat ID:", error);
+    toast.error("Load Error", { description: "Could not load current chat session state." });
+    return null;
+  }
+}
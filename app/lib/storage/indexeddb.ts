@@ -0,0 +1,252 @@
+import type { Message } from 'ai/react';
+import type { ChatHistoryItem, ChatStorageBackend, MessageTreeNode, SettingKey } from './types';
+
+// IndexedDB storage: one record per chat and one record per message, so saving a chat while
+// a response streams in only rewrites the messages that actually changed. Each chat's active
+// branch (see MessageTree) is a separate small record.
+
+const DB_NAME = 'agent-narrative-framework';
+const DB_VERSION = 3; // v2: message parent ids and the activeBranches store, v3: settings store
+const CHATS_STORE = 'chats';
+const MESSAGES_STORE = 'messages';
+const ACTIVE_BRANCHES_STORE = 'activeBranches';
+const SETTINGS_STORE = 'settings'; // Small key/value records that aren't per chat
+
+interface StoredMessage {
+  chatId: string;
+  id: string;
+  position: number; // Index in the chat's message tree (creation order)
+  parentId?: string | null; // Missing in v1 records, where each message follows the previous one
+  message: Message;
+}
+
+interface StoredActiveBranch {
+  chatId: string;
+  activeLeafId: string | null;
+}
+
+interface StoredSetting {
+  key: SettingKey;
+  value: unknown;
+}
+
+// What was last written for a message, to skip unchanged ones on the next save
+interface WrittenMessage {
+  message: Message | null; // null when only known from the database
+  json: string | null;
+  position: number;
+  parentId: string | null;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHATS_STORE)) {
+        const chatsStore = db.createObjectStore(CHATS_STORE, { keyPath: 'id' });
+        chatsStore.createIndex('lastUpdated', 'lastUpdated');
+      }
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        const messagesStore = db.createObjectStore(MESSAGES_STORE, { keyPath: ['chatId', 'id'] });
+        messagesStore.createIndex('chatId', 'chatId');
+      }
+      if (!db.objectStoreNames.contains(ACTIVE_BRANCHES_STORE)) {
+        db.createObjectStore(ACTIVE_BRANCHES_STORE, { keyPath: 'chatId' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+}
+
+export async function createIndexedDBBackend(): Promise<ChatStorageBackend> {
+  const db = await openDatabase();
+
+  const writtenChats = new Map<string, string>(); // chat id -> JSON last written
+  let chatsCacheReady = false;
+  const writtenMessages = new Map<string, Map<string, WrittenMessage>>(); // chat id -> message id -> entry
+  const writtenActiveLeaves = new Map<string, string | null>(); // chat id -> active leaf id last written
+
+  // Reads and writes run one at a time so caches always match what is in the database
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const readChats = async (): Promise<ChatHistoryItem[]> => {
+    const store = db.transaction(CHATS_STORE, 'readonly').objectStore(CHATS_STORE);
+    // Newest first, matching the order the chat list was kept in before
+    const chats = (await requestToPromise(store.index('lastUpdated').getAll())) as ChatHistoryItem[];
+    writtenChats.clear();
+    chats.forEach(chat => writtenChats.set(chat.id, JSON.stringify(chat)));
+    chatsCacheReady = true;
+    return chats.reverse();
+  };
+
+  const readMessages = async (chatId: string): Promise<StoredMessage[]> => {
+    const store = db.transaction(MESSAGES_STORE, 'readonly').objectStore(MESSAGES_STORE);
+    const records = (await requestToPromise(store.index('chatId').getAll(chatId))) as StoredMessage[];
+    return records
+      .sort((a, b) => a.position - b.position)
+      .map((record, index, sorted) => ({
+        ...record,
+        parentId: record.parentId !== undefined ? record.parentId : (sorted[index - 1]?.id ?? null),
+      }));
+  };
+
+  const readActiveLeafId = async (chatId: string): Promise<string | null | undefined> => {
+    const store = db.transaction(ACTIVE_BRANCHES_STORE, 'readonly').objectStore(ACTIVE_BRANCHES_STORE);
+    const record = (await requestToPromise(store.get(chatId))) as StoredActiveBranch | undefined;
+    return record?.activeLeafId;
+  };
+
+  return {
+    name: 'indexedDB',
+
+    loadChats: () => enqueue(readChats),
+
+    saveChats: (chats) => enqueue(async () => {
+      if (!chatsCacheReady) await readChats();
+
+      const transaction = db.transaction(CHATS_STORE, 'readwrite');
+      const store = transaction.objectStore(CHATS_STORE);
+      const nextWritten = new Map<string, string>();
+      for (const chat of chats) {
+        const json = JSON.stringify(chat);
+        if (writtenChats.get(chat.id) !== json) store.put(chat);
+        nextWritten.set(chat.id, json);
+      }
+      for (const chatId of writtenChats.keys()) {
+        if (!nextWritten.has(chatId)) store.delete(chatId);
+      }
+
+      try {
+        await transactionDone(transaction);
+      } catch (error) {
+        chatsCacheReady = false; // Re-read before the next write
+        throw error;
+      }
+      writtenChats.clear();
+      nextWritten.forEach((json, id) => writtenChats.set(id, json));
+    }),
+
+    loadMessageTree: (chatId) => enqueue(async () => {
+      const records = await readMessages(chatId);
+      const storedLeafId = await readActiveLeafId(chatId);
+      writtenMessages.set(chatId, new Map(records.map(record => [
+        record.id,
+        { message: record.message, json: null, position: record.position, parentId: record.parentId ?? null },
+      ])));
+      // Chats saved before branching have no active branch record: show the last message
+      const activeLeafId = storedLeafId !== undefined ? storedLeafId : (records[records.length - 1]?.id ?? null);
+      writtenActiveLeaves.set(chatId, activeLeafId);
+      return {
+        nodes: records.map((record): MessageTreeNode => ({ message: record.message, parentId: record.parentId ?? null })),
+        activeLeafId,
+      };
+    }),
+
+    saveMessageTree: (chatId, tree) => enqueue(async () => {
+      let previous = writtenMessages.get(chatId);
+      if (!previous) {
+        const records = await readMessages(chatId);
+        previous = new Map(records.map(record => [
+          record.id,
+          { message: null, json: null, position: record.position, parentId: record.parentId ?? null },
+        ]));
+      }
+
+      const transaction = db.transaction([MESSAGES_STORE, ACTIVE_BRANCHES_STORE], 'readwrite');
+      const store = transaction.objectStore(MESSAGES_STORE);
+      const next = new Map<string, WrittenMessage>();
+
+      tree.nodes.forEach(({ message, parentId }, position) => {
+        const written = previous.get(message.id);
+        // Unchanged messages keep their object identity while useChat streams, so most are skipped here
+        if (written && written.position === position && written.parentId === parentId && written.message === message) {
+          next.set(message.id, written);
+          return;
+        }
+        const json = JSON.stringify(message);
+        const writtenJson = written?.json ?? (written?.message ? JSON.stringify(written.message) : null);
+        if (!written || written.position !== position || written.parentId !== parentId || writtenJson !== json) {
+          const record: StoredMessage = { chatId, id: message.id, position, parentId, message };
+          store.put(record);
+        }
+        next.set(message.id, { message, json, position, parentId });
+      });
+      for (const messageId of previous.keys()) {
+        if (!next.has(messageId)) store.delete([chatId, messageId]);
+      }
+      if (writtenActiveLeaves.get(chatId) !== tree.activeLeafId) {
+        const record: StoredActiveBranch = { chatId, activeLeafId: tree.activeLeafId };
+        transaction.objectStore(ACTIVE_BRANCHES_STORE).put(record);
+      }
+
+      try {
+        await transactionDone(transaction);
+      } catch (error) {
+        writtenMessages.delete(chatId); // Re-read before the next write
+        writtenActiveLeaves.delete(chatId);
+        throw error;
+      }
+      writtenMessages.set(chatId, next);
+      writtenActiveLeaves.set(chatId, tree.activeLeafId);
+    }),
+
+    deleteChatMessages: (chatId) => enqueue(async () => {
+      const transaction = db.transaction([MESSAGES_STORE, ACTIVE_BRANCHES_STORE], 'readwrite');
+      const store = transaction.objectStore(MESSAGES_STORE);
+      // Compound keys sort by chat id first; arrays sort after every string message id
+      store.delete(IDBKeyRange.bound([chatId], [chatId, []]));
+      transaction.objectStore(ACTIVE_BRANCHES_STORE).delete(chatId);
+      await transactionDone(transaction);
+      writtenMessages.delete(chatId);
+      writtenActiveLeaves.delete(chatId);
+    }),
+
+    loadSetting: (key) => enqueue(async () => {
+      const store = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+      const record = (await requestToPromise(store.get(key))) as StoredSetting | undefined;
+      return record?.value ?? null;
+    }),
+
+    saveSetting: (key, value) => enqueue(async () => {
+      const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+      const record: StoredSetting = { key, value };
+      transaction.objectStore(SETTINGS_STORE).put(record);
+      await transactionDone(transaction);
+    }),
+
+    getUsage: async () => {
+      const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+      return {
+        backend: 'indexedDB',
+        usedBytes: estimate.usage ?? 0,
+        quotaBytes: estimate.quota ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { Message } from 'ai/react';
+import type { ChatHistoryItem, ChatStorageBackend, MessageTree, SettingKey } from './types';
+import { createLinearMessageTree } from './message-tree';
+
+// Original storage format: the chat list and each chat's messages as JSON strings (a message
+// array before branching, a MessageTree since). Still used when IndexedDB is unavailable,
+// and as the source of the one-time migration.
+
+export const CHATS_STORAGE_KEY = 'chat-list';
+export const MESSAGES_STORAGE_PREFIX = 'chat-messages-';
+export const SETTING_STORAGE_KEYS: Record<SettingKey, string> = {
+  organization: 'chat-organization',
+  promptLibrary: 'prompt-library',
+};
+
+// Browsers typically allow ~5 MB per origin for localStorage and do not expose the real limit
+const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+export function hasLocalStorageChats(): boolean {
+  return localStorage.getItem(CHATS_STORAGE_KEY) !== null;
+}
+
+export function createLocalStorageBackend(): ChatStorageBackend {
+  return {
+    name: 'localStorage',
+
+    async loadChats() {
+      const storedChats = localStorage.getItem(CHATS_STORAGE_KEY);
+      return storedChats ? (JSON.parse(storedChats) as ChatHistoryItem[]) : [];
+    },
+
+    async saveChats(chats) {
+      localStorage.setItem(CHATS_STORAGE_KEY, JSON.stringify(chats));
+    },
+
+    async loadMessageTree(chatId) {
+      const storedMessages = localStorage.getItem(`${MESSAGES_STORAGE_PREFIX}${chatId}`);
+      const parsed = storedMessages ? (JSON.parse(storedMessages) as Message[] | MessageTree) : [];
+      return Array.isArray(parsed) ? createLinearMessageTree(parsed) : parsed;
+    },
+
+    async saveMessageTree(chatId, tree) {
+      localStorage.setItem(`${MESSAGES_STORAGE_PREFIX}${chatId}`, JSON.stringify(tree));
+    },
+
+    async deleteChatMessages(chatId) {
+      localStorage.removeItem(`${MESSAGES_STORAGE_PREFIX}${chatId}`);
+    },
+
+    async loadSetting(key) {
+      const stored = localStorage.getItem(SETTING_STORAGE_KEYS[key]);
+      return stored ? JSON.parse(stored) : null;
+    },
+
+    async saveSetting(key, value) {
+      localStorage.setItem(SETTING_STORAGE_KEYS[key], JSON.stringify(value));
+    },
+
+    async getUsage() {
+      let usedBytes = 0;
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key === null) continue;
+        // localStorage stores UTF-16, two bytes per character
+        usedBytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+      }
+      return { backend: 'localStorage', usedBytes, quotaBytes: LOCAL_STORAGE_QUOTA_BYTES };
+    },
+  };
+}
+
+// Removes the chat list, the settings and all message keys (after they were migrated)
+export function clearLocalStorageChats(): void {
+  const messageKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(MESSAGES_STORAGE_PREFIX)) messageKeys.push(key);
+  }
+  messageKeys.forEach(key => localStorage.removeItem(key));
+  localStorage.removeItem(CHATS_STORAGE_KEY);
+  Object.values(SETTING_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+}
@@ -0,0 +1,116 @@
+import type { Message } from 'ai/react';
+import type { MessageTree, MessageTreeNode } from './types';
+
+// Helpers for per-chat message trees. useChat only knows the active branch as a flat list,
+// so the page merges that list back into the tree after every change.
+
+export function createEmptyMessageTree(): MessageTree {
+  return { nodes: [], activeLeafId: null };
+}
+
+// Tree with a single branch (chats saved before branching, imports)
+export function createLinearMessageTree(messages: Message[]): MessageTree {
+  return {
+    nodes: messages.map((message, index) => ({ message, parentId: index > 0 ? messages[index - 1].id : null })),
+    activeLeafId: messages.length > 0 ? messages[messages.length - 1].id : null,
+  };
+}
+
+function getChildIdsByParent(tree: MessageTree): Map<string | null, string[]> {
+  const childIds = new Map<string | null, string[]>();
+  for (const { message, parentId } of tree.nodes) {
+    const siblings = childIds.get(parentId);
+    if (siblings) {
+      siblings.push(message.id);
+    } else {
+      childIds.set(parentId, [message.id]);
+    }
+  }
+  return childIds;
+}
+
+// Messages from the root down to the active leaf
+export function getActivePath(tree: MessageTree): Message[] {
+  const nodesById = new Map(tree.nodes.map(node => [node.message.id, node]));
+  const path: Message[] = [];
+  let node = tree.activeLeafId ? nodesById.get(tree.activeLeafId) : undefined;
+  while (node && path.length < tree.nodes.length) {
+    path.push(node.message);
+    node = node.parentId ? nodesById.get(node.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Records `path` (the messages currently shown) as the active branch. Messages not in the tree
+ * yet become children of the message before them; other branches are kept.
+ * Returns `tree` itself when nothing changed.
+ */
+export function mergeActivePath(tree: MessageTree, path: Message[]): MessageTree {
+  if (path.length === 0) return tree;
+
+  const indexById = new Map(tree.nodes.map((node, index) => [node.message.id, index]));
+  let nodes = tree.nodes;
+  const setNode = (index: number, node: MessageTreeNode) => {
+    if (nodes === tree.nodes) nodes = [...tree.nodes];
+    nodes[index] = node;
+  };
+
+  path.forEach((message, position) => {
+    const parentId = position > 0 ? path[position - 1].id : null;
+    const index = indexById.get(message.id);
+    if (index === undefined) {
+      indexById.set(message.id, nodes.length);
+      setNode(nodes.length, { message, parentId });
+    } else if (nodes[index].message !== message || nodes[index].parentId !== parentId) {
+      setNode(index, { message, parentId });
+    }
+  });
+
+  const activeLeafId = path[path.length - 1].id;
+  if (nodes === tree.nodes && activeLeafId === tree.activeLeafId) return tree;
+  return { nodes, activeLeafId };
+}
+
+// For every message, the ids of all messages sharing its parent (itself included), oldest first
+export function getSiblingIds(tree: MessageTree): Map<string, string[]> {
+  const siblingIds = new Map<string, string[]>();
+  for (const ids of getChildIdsByParent(tree).values()) {
+    ids.forEach(id => siblingIds.set(id, ids));
+  }
+  return siblingIds;
+}
+
+// Tree showing the branch through `messageId`, continuing with the newest reply at each level
+export function selectBranch(tree: MessageTree, messageId: string): MessageTree {
+  const childIds = getChildIdsByParent(tree);
+  let leafId = messageId;
+  for (let children = childIds.get(leafId); children?.length; children = childIds.get(leafId)) {
+    leafId = children[children.length - 1];
+  }
+  return leafId === tree.activeLeafId ? tree : { ...tree, activeLeafId: leafId };
+}
+
+// Drops matching messages; their children move up to the nearest kept ancestor
+export function removeTreeMessages(tree: MessageTree, shouldRemove: (message: Message) => boolean): MessageTree {
+  const removedParents = new Map<string, string | null>();
+  for (const { message, parentId } of tree.nodes) {
+    if (shouldRemove(message)) removedParents.set(message.id, parentId);
+  }
+  if (removedParents.size === 0) return tree;
+
+  const keptAncestor = (id: string | null): string | null => {
+    let ancestorId = id;
+    while (ancestorId !== null && removedParents.has(ancestorId)) {
+      ancestorId = removedParents.get(ancestorId) ?? null;
+    }
+    return ancestorId;
+  };
+
+  return {
+    nodes: tree.nodes
+      .filter(node => !removedParents.has(node.message.id))
+      .map(node => (removedParents.has(node.parentId ?? '') ? { ...node, parentId: keptAncestor(node.parentId) } : node)),
+    activeLeafId: keptAncestor(tree.activeLeafId),
+  };
+}
@@ -0,0 +1,107 @@
+import { AGENT_MODES } from '../../ai/agent-modes';
+import type { ChatFolder, ChatHistoryItem, ChatOrganization, TagColor, Workspace } from './types';
+
+// Workspaces, folders and tag colors. Chats point at their workspace and folder; everything
+// else (names, nesting, defaults) lives in the ChatOrganization record.
+
+// Chats without a workspaceId belong here; it can be renamed but not deleted
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export const TAG_COLORS: TagColor[] = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+export function createDefaultOrganization(): ChatOrganization {
+  return {
+    workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Personal' }],
+    folders: [],
+    tagColors: {},
+    activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+  };
+}
+
+/**
+ * Fills in missing parts of a stored organization: the default workspace always exists,
+ * folders of deleted workspaces are dropped and folders whose parent is gone (or that are
+ * their own ancestor) move to the top.
+ */
+export function normalizeOrganization(value: unknown): ChatOrganization {
+  const fallback = createDefaultOrganization();
+  if (!value || typeof value !== 'object') return fallback;
+  // Fields are checked one by one below
+  const stored = value as Partial<ChatOrganization>;
+
+  const workspaces: Workspace[] = (Array.isArray(stored.workspaces) ? stored.workspaces : [])
+    .filter(workspace => typeof workspace?.id === 'string' && typeof workspace.name === 'string')
+    .map(workspace => ({
+      id: workspace.id,
+      name: workspace.name,
+      ...(typeof workspace.systemPrompt === 'string' && workspace.systemPrompt && { systemPrompt: workspace.systemPrompt }),
+      ...(workspace.agentMode && AGENT_MODES.includes(workspace.agentMode) && { agentMode: workspace.agentMode }),
+    }));
+  if (!workspaces.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID)) {
+    workspaces.unshift(fallback.workspaces[0]);
+  }
+  const workspaceIds = new Set(workspaces.map(workspace => workspace.id));
+
+  const storedFolders = (Array.isArray(stored.folders) ? stored.folders : [])
+    .filter(folder => typeof folder?.id === 'string' && typeof folder.name === 'string' && workspaceIds.has(folder.workspaceId));
+  const folderIds = new Set(storedFolders.map(folder => folder.id));
+  const folders: ChatFolder[] = storedFolders.map(folder => ({
+    id: folder.id,
+    name: folder.name,
+    parentId: folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : null,
+    workspaceId: folder.workspaceId,
+  }));
+  // Break parent cycles (A -> B -> A) by moving the first folder of each loop to the top
+  for (const folder of folders) {
+    if (!canMoveFolder(folders, folder.id, folder.parentId)) folder.parentId = null;
+  }
+
+  const tagColors: Record<string, TagColor> = {};
+  Object.entries(stored.tagColors ?? {}).forEach(([tag, color]) => {
+    if (TAG_COLORS.includes(color)) tagColors[tag] = color;
+  });
+
+  return {
+    workspaces,
+    folders,
+    tagColors,
+    activeWorkspaceId: stored.activeWorkspaceId && workspaceIds.has(stored.activeWorkspaceId)
+      ? stored.activeWorkspaceId
+      : DEFAULT_WORKSPACE_ID,
+  };
+}
+
+export function getChatWorkspaceId(chat: ChatHistoryItem): string {
+  return chat.workspaceId ?? DEFAULT_WORKSPACE_ID;
+}
+
+// Saved color, or one picked from the tag's name so a tag keeps its color everywhere
+export function getTagColor(tag: string, tagColors: Record<string, TagColor>): TagColor {
+  if (tagColors[tag]) return tagColors[tag];
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+}
+
+// The folder itself and every folder nested in it
+export function getFolderSubtreeIds(folders: ChatFolder[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// A folder can't be moved into itself or one of its subfolders
+export function canMoveFolder(folders: ChatFolder[], folderId: string, parentId: string | null): boolean {
+  return parentId === null || !getFolderSubtreeIds(folders, folderId).has(parentId);
+}
@@ -0,0 +1,219 @@
+import type { Message } from 'ai/react';
+
+// In-memory inverted index over stored chat messages, used by the sidebar search.
+// Query syntax: plain words (prefix match, all required), "quoted phrases",
+// `role:user` / `role:assistant`, and `has:code` / `has:artifact`.
+
+export type SearchRole = 'user' | 'assistant';
+export type SearchHasFilter = 'code' | 'artifact';
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  role: SearchRole | null;
+  has: SearchHasFilter[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface MessageSearchMatch {
+  messageId: string;
+  role: SearchRole;
+  snippet: SnippetSegment[];
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  matches: MessageSearchMatch[];
+}
+
+interface IndexedMessage {
+  chatId: string;
+  messageId: string;
+  role: SearchRole;
+  content: string; // As indexed, to skip unchanged messages on re-index
+  text: string; // Whitespace-collapsed content, used for snippets
+  normalizedText: string; // Lowercased `text`, same offsets
+  terms: Set<string>;
+  hasCode: boolean;
+  hasArtifact: boolean;
+}
+
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+const MAX_MATCHES_PER_CHAT = 3;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], role: null, has: [] };
+  for (const [, phrase, token] of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      const normalizedPhrase = phrase.trim().replace(/\s+/g, ' ').toLowerCase();
+      if (normalizedPhrase) parsed.phrases.push(normalizedPhrase);
+      continue;
+    }
+    const roleMatch = token.match(/^role:(user|assistant)$/i);
+    const hasMatch = token.match(/^has:(code|artifact)$/i);
+    if (roleMatch) {
+      parsed.role = roleMatch[1].toLowerCase() as SearchRole;
+    } else if (hasMatch) {
+      parsed.has.push(hasMatch[1].toLowerCase() as SearchHasFilter);
+    } else {
+      parsed.terms.push(...tokenize(token));
+    }
+  }
+  return parsed;
+}
+
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && query.role === null && query.has.length === 0;
+}
+
+// Free-text part of a query (no filters), used to match chat titles
+export function getSearchQueryText(query: ParsedSearchQuery): string {
+  return [...query.phrases, ...query.terms].join(' ');
+}
+
+function buildSnippet(entry: IndexedMessage, query: ParsedSearchQuery): SnippetSegment[] {
+  const patterns = [
+    ...query.phrases.map(phrase => phrase.split(' ').map(escapeRegExp).join('\\s+')),
+    ...query.terms.map(term => `${escapeRegExp(term)}[\\p{L}\\p{N}_]*`),
+  ];
+  const highlightRegex = patterns.length > 0 ? new RegExp(patterns.join('|'), 'giu') : null;
+  const firstMatch = highlightRegex ? highlightRegex.exec(entry.text) : null;
+
+  const start = firstMatch ? Math.max(0, firstMatch.index - SNIPPET_CONTEXT_BEFORE) : 0;
+  const end = Math.min(entry.text.length, start + SNIPPET_LENGTH);
+  const window = entry.text.slice(start, end);
+
+  const segments: SnippetSegment[] = [];
+  if (start > 0) segments.push({ text: '…', highlight: false });
+  if (highlightRegex) {
+    let lastIndex = 0;
+    for (const match of window.matchAll(highlightRegex)) {
+      if (!match[0]) continue;
+      if (match.index > lastIndex) segments.push({ text: window.slice(lastIndex, match.index), highlight: false });
+      segments.push({ text: match[0], highlight: true });
+      lastIndex = match.index + match[0].length;
+    }
+    if (lastIndex < window.length) segments.push({ text: window.slice(lastIndex), highlight: false });
+  } else {
+    segments.push({ text: window, highlight: false });
+  }
+  if (end < entry.text.length) segments.push({ text: '…', highlight: false });
+  return segments;
+}
+
+export function createSearchIndex() {
+  const documents = new Map<string, IndexedMessage>(); // `${chatId}/${messageId}` -> entry
+  const postings = new Map<string, Set<string>>(); // term -> document keys
+  const chatDocuments = new Map<string, Set<string>>(); // chat id -> document keys
+
+  const removeDocument = (key: string) => {
+    const entry = documents.get(key);
+    if (!entry) return;
+    entry.terms.forEach(term => {
+      const keys = postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(term);
+    });
+    documents.delete(key);
+    chatDocuments.get(entry.chatId)?.delete(key);
+  };
+
+  const addDocument = (key: string, entry: IndexedMessage) => {
+    documents.set(key, entry);
+    entry.terms.forEach(term => {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(key);
+    });
+    if (!chatDocuments.has(entry.chatId)) chatDocuments.set(entry.chatId, new Set());
+    chatDocuments.get(entry.chatId)!.add(key);
+  };
+
+  // Documents containing a term starting with `prefix`
+  const lookupPrefix = (prefix: string): Set<string> => {
+    const keys = new Set<string>();
+    for (const [term, termKeys] of postings) {
+      if (term.startsWith(prefix)) termKeys.forEach(key => keys.add(key));
+    }
+    return keys;
+  };
+
+  const intersect = (current: Set<string> | null, next: Set<string>): Set<string> =>
+    current === null ? next : new Set([...current].filter(key => next.has(key)));
+
+  return {
+    // Replaces the indexed messages of a chat; unchanged messages are not re-tokenized
+    setChatMessages(chatId: string, messages: Message[]) {
+      const previousKeys = new Set(chatDocuments.get(chatId) ?? []);
+      for (const message of messages) {
+        if (message.role !== 'user' && message.role !== 'assistant') continue;
+        const key = `${chatId}/${message.id}`;
+        previousKeys.delete(key);
+        if (documents.get(key)?.content === message.content) continue;
+
+        removeDocument(key);
+        const text = message.content.replace(/\s+/g, ' ').trim();
+        addDocument(key, {
+          chatId,
+          messageId: message.id,
+          role: message.role,
+          content: message.content,
+          text,
+          normalizedText: text.toLowerCase(),
+          terms: new Set(tokenize(text)),
+          hasCode: message.content.includes('```'),
+          hasArtifact: /```artifact\b/i.test(message.content),
+        });
+      }
+      previousKeys.forEach(removeDocument);
+    },
+
+    removeChat(chatId: string) {
+      [...(chatDocuments.get(chatId) ?? [])].forEach(removeDocument);
+      chatDocuments.delete(chatId);
+    },
+
+    search(query: ParsedSearchQuery): ChatSearchResult[] {
+      if (isEmptySearchQuery(query)) return [];
+
+      let candidates: Set<string> | null = null;
+      for (const term of query.terms) {
+        candidates = intersect(candidates, lookupPrefix(term));
+      }
+      for (const phrase of query.phrases) {
+        for (const term of tokenize(phrase)) {
+          candidates = intersect(candidates, postings.get(term) ?? new Set());
+        }
+      }
+
+      const results = new Map<string, MessageSearchMatch[]>();
+      for (const key of candidates ?? documents.keys()) {
+        const entry = documents.get(key);
+        if (!entry) continue;
+        if (query.role && entry.role !== query.role) continue;
+        if (query.has.includes('code') && !entry.hasCode) continue;
+        if (query.has.includes('artifact') && !entry.hasArtifact) continue;
+        if (!query.phrases.every(phrase => entry.normalizedText.includes(phrase))) continue;
+
+        const matches = results.get(entry.chatId) ?? [];
+        if (matches.length < MAX_MATCHES_PER_CHAT) {
+          matches.push({ messageId: entry.messageId, role: entry.role, snippet: buildSnippet(entry, query) });
+        }
+        results.set(entry.chatId, matches);
+      }
+      return [...results].map(([chatId, matches]) => ({ chatId, matches }));
+    },
+  };
+}
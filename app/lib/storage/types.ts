@@ -0,0 +1,93 @@
+import type { Message } from 'ai/react';
+import type { AgentMode } from '../../ai/agent-modes';
+import type { ModelSettings } from '../../ai/models';
+import type { PromptLibrary } from '../prompt-library';
+
+// --- Chat History Item Type (Moved from page.tsx) ---
+export interface ChatHistoryItem {
+  id: string;
+  title: string;
+  // 'generated' once the model named the chat, 'manual' after a rename (never overwritten); unset for the placeholder
+  titleSource?: 'generated' | 'manual';
+  summary?: string; // One paragraph, generated with the title after the first reply
+  tags?: string[]; // Free-form tags; generated ones are added after the first reply
+  lastUpdated: number; // Timestamp (e.g., Date.now())
+  isPinned: boolean;
+  isArchived: boolean;
+  modelSettings: ModelSettings; // Provider, model id, temperature and max tokens for this chat
+  systemPrompt?: string; // Custom instructions for this chat, set with /system
+  pinnedMessageIds?: string[]; // Always sent, even when older messages don't fit the context window
+  workspaceId?: string; // Unset for chats saved before workspaces, which belong to the default one
+  folderId?: string; // Unset for chats at the top level of their workspace
+  personaId?: string; // Prompt library persona; unset for the default one
+}
+
+// Top-level scope for chats; new chats in a workspace start with its defaults
+export interface Workspace {
+  id: string;
+  name: string;
+  systemPrompt?: string; // Custom instructions for new chats
+  agentMode?: AgentMode; // Agent mode selected when switching to the workspace or starting a chat
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  parentId: string | null; // null for top-level folders
+  workspaceId: string;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+// Workspaces, folders and tag colors; saved separately from the chat list
+export interface ChatOrganization {
+  workspaces: Workspace[]; // Always contains the default workspace
+  folders: ChatFolder[];
+  tagColors: Record<string, TagColor>; // Tags without an entry get a color from their name
+  activeWorkspaceId: string;
+}
+
+// One message of a chat. Editing a user message or regenerating a reply adds a sibling
+// (same parent) instead of overwriting, so every chat is a tree of branches.
+export interface MessageTreeNode {
+  message: Message;
+  parentId: string | null; // null for first messages
+}
+
+export interface MessageTree {
+  nodes: MessageTreeNode[]; // In creation order
+  activeLeafId: string | null; // Last message of the branch that is shown
+}
+
+export type StorageBackendName = 'indexedDB' | 'localStorage';
+
+export interface StorageUsage {
+  backend: StorageBackendName;
+  usedBytes: number;
+  // null when the browser does not report a quota
+  quotaBytes: number | null;
+}
+
+// Everything stored with loadSetting / saveSetting
+export interface Settings {
+  organization: ChatOrganization;
+  promptLibrary: PromptLibrary;
+}
+
+export type SettingKey = keyof Settings;
+
+// Persistence for the chat list and per-chat messages. Implementations throw on failure;
+// the wrappers in ./index.ts log and toast.
+export interface ChatStorageBackend {
+  name: StorageBackendName;
+  loadChats(): Promise<ChatHistoryItem[]>;
+  saveChats(chats: ChatHistoryItem[]): Promise<void>;
+  loadMessageTree(chatId: string): Promise<MessageTree>;
+  saveMessageTree(chatId: string, tree: MessageTree): Promise<void>;
+  deleteChatMessages(chatId: string): Promise<void>;
+  // Small records that aren't per chat (organization, prompt library); null when nothing was saved yet.
+  // Returned as stored, callers validate it (normalizeOrganization, normalizePromptLibrary)
+  loadSetting(key: SettingKey): Promise<unknown>;
+  saveSetting<K extends SettingKey>(key: K, value: Settings[K]): Promise<void>;
+  getUsage(): Promise<StorageUsage>;
+}
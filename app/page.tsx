@@ -1,7 +1,7 @@
 'use client'; // Make this a Client Component
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { useChat, type Message } from 'ai/react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useChat } from 'ai/react';
 import { nanoid } from 'nanoid'; // For generating unique chat IDs
 import { MessageSquare } from 'lucide-react'; // Import the icon
 import { toast } from "sonner"; // Import toast from sonner
@@ -16,18 +16,73 @@ import {
   saveChats,
   loadMessages,
   saveMessages,
+  loadMessageTree,
+  saveMessageTree,
+  getActivePath,
+  getSiblingIds,
+  mergeActivePath,
+  selectBranch,
   loadCurrentChatId,
   saveCurrentChatId,
-  deleteChatMessages,
-  type ChatHistoryItem
+  loadOrganization,
+  saveOrganization,
+  loadPromptLibrary,
+  savePromptLibrary,
+  createDefaultOrganization,
+  getChatWorkspaceId,
+  canMoveFolder,
+  DEFAULT_WORKSPACE_ID,
+  getStorageUsage,
+  searchChats,
+  trashChats,
+  restoreTrashedChats,
+  TRASH_RETENTION_MS,
+  type ChatHistoryItem,
+  type ChatOrganization,
+  type MessageTree,
+  type StorageUsage,
+  type TagColor,
+  type Workspace,
 } from '@/lib/storage'; // Corrected path using alias
-
-// --- Interface for attached file state (Lifted Up) ---
-interface AttachedFileState {
-  file: File;
-  previewUrl: string | null;
-  error: string | null;
-}
+import { DEFAULT_MODEL_SETTINGS, type ModelSettings } from '@/ai/models';
+import { DEFAULT_PERSONA_ID } from '@/ai/prompt-library';
+import { EMPTY_PROMPT_LIBRARY, buildPromptSelection, type PromptLibrary } from '@/lib/prompt-library';
+import {
+  createArtifactMentionProvider,
+  createChatMentionProvider,
+  createFileMentionProvider,
+  createPersonaMentionProvider,
+  resolveMentions,
+  type MentionItem,
+} from '@/lib/mentions';
+import {
+  exportChats,
+  downloadFile,
+  parseChatExport,
+  prepareImportedChats,
+  ChatImportError,
+  type ChatExportFormat,
+} from '@/lib/chat-export';
+import {
+  formatArtifactFences,
+  formatArtifactFixRequest,
+  formatArtifactScreenshotQuestion,
+  type ArtifactFile,
+  type ArtifactHistory,
+  type ArtifactScreenshot,
+  type ArtifactVersion,
+} from '@/lib/artifacts';
+import { NEW_CHAT_TITLE, getFallbackTitle, getFirstExchange, requestChatMetadata } from '@/lib/chat-metadata';
+import type { CommandArgValues, CommandContext, ServerCommandName } from '@/lib/commands';
+import {
+  processAttachment,
+  toMessageAttachment,
+  uploadAttachmentText,
+  deleteAttachmentTexts,
+  AttachmentError,
+  MAX_TOTAL_ATTACHMENT_TOKENS,
+  type AttachedFileState,
+} from '@/lib/attachments';
 
 // --- NEW: Interface for Python execution results state ---
 interface PyExecutionResult {
@@ -36,17 +91,8 @@ interface PyExecutionResult {
   error: string | null;
 }
 
-// Allowed text MIME types for content injection
-const ALLOWED_TEXT_MIME_TYPES = [
-  'text/plain',
-  'text/markdown',
-  'text/csv',
-  'text/html',
-  'text/css',
-  'application/javascript',
-  'application/json',
-  // Add more as needed
-];
+// Stable default, so the token meter isn't recomputed on every render
+const NO_PINNED_MESSAGES: string[] = [];
 
 // --- Fallback Component --- (remains the same)
 function ChatInterfaceFallback() {
@@ -64,7 +110,16 @@ function ChatInterfaceFallback() {
 export default function Home() {
   const [isClient, setIsClient] = useState(false);
   const [chats, setChats] = useState<ChatHistoryItem[]>([]);
+  // Workspaces, folders and tag colors; the sidebar only lists chats of the active workspace
+  const [organization, setOrganization] = useState<ChatOrganization>(createDefaultOrganization);
+  // User personas and prompt fragments (the built-in ones aren't stored)
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(EMPTY_PROMPT_LIBRARY);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Message to scroll to and highlight after picking a sidebar search result
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+  // Every branch of the current chat; useChat only holds the active one
+  const [messageTree, setMessageTree] = useState<{ chatId: string; tree: MessageTree } | null>(null);
   const [attachedFiles, setAttachedFiles] = useState<AttachedFileState[]>([]);
   // --- Add state for sidebar collapse ---
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -77,44 +132,72 @@ export default function Home() {
   const [pyExecutionResults, setPyExecutionResults] = useState<Record<string, PyExecutionResult>>({});
   const isCreatingChatRef = useRef(false);
 
-  // Load initial state from localStorage on mount
+  // Load initial state from browser storage on mount
   useEffect(() => {
-    const loadedChats = loadChats();
-    console.log("[Mount] Loaded chats:", loadedChats);
-    setChats(loadedChats);
-    const savedChatId = loadCurrentChatId();
-    console.log("[Mount] Loaded currentChatId:", savedChatId);
-    setCurrentChatId(savedChatId ?? loadedChats[0]?.id ?? null);
-    setIsClient(true); // Indicate client-side rendering is ready
+    let cancelled = false;
+    Promise.all([loadChats(), loadOrganization(), loadPromptLibrary()]).then(([loadedChats, loadedOrganization, loadedLibrary]) => {
+      if (cancelled) return;
+      console.log("[Mount] Loaded chats:", loadedChats);
+      setChats(loadedChats);
+      setOrganization(loadedOrganization);
+      setPromptLibrary(loadedLibrary);
+      const { activeWorkspaceId } = loadedOrganization;
+      const workspaceChats = loadedChats.filter(chat => getChatWorkspaceId(chat) === activeWorkspaceId);
+      const savedChatId = loadCurrentChatId();
+      console.log("[Mount] Loaded currentChatId:", savedChatId);
+      setCurrentChatId(workspaceChats.find(chat => chat.id === savedChatId)?.id ?? workspaceChats[0]?.id ?? null);
+      const defaultAgentMode = loadedOrganization.workspaces.find(workspace => workspace.id === activeWorkspaceId)?.agentMode;
+      if (defaultAgentMode) setAgentMode(defaultAgentMode);
+      setIsClient(true); // Indicate client-side rendering is ready
+    });
+    return () => { cancelled = true; };
   }, []);
 
-  // --- Add useEffect for attached file cleanup ---
+  // Revoke image previews still staged on unmount (removed and sent files are revoked right away;
+  // revoking on every attachedFiles change would break previews while files are processed)
+  const attachedFilesRef = useRef(attachedFiles);
+  attachedFilesRef.current = attachedFiles;
   useEffect(() => {
-    // Return cleanup function
     return () => {
-      attachedFiles.forEach(item => {
+      attachedFilesRef.current.forEach(item => {
         if (item.previewUrl) {
           URL.revokeObjectURL(item.previewUrl);
         }
       });
     };
-  }, [attachedFiles]); // Run cleanup when attachedFiles state changes
+  }, []);
 
-  // Load messages for the current chat
-  const initialMessages = isClient && currentChatId ? loadMessages(currentChatId) : [];
+  // Model settings and custom instructions of the current chat, sent with every request
+  const currentChat = chats.find(chat => chat.id === currentChatId);
+  const currentModelSettings = currentChat?.modelSettings ?? DEFAULT_MODEL_SETTINGS;
+  const activeWorkspace = organization.workspaces.find(workspace => workspace.id === organization.activeWorkspaceId);
+  const workspaceChats = useMemo(
+    () => chats.filter(chat => getChatWorkspaceId(chat) === organization.activeWorkspaceId),
+    [chats, organization.activeWorkspaceId]
+  );
 
   const {
     messages,
     input,
+    setInput,
     handleInputChange,
     isLoading,
     append,
     setMessages,
+    reload,
     stop
   } = useChat({
-    // Key changes when currentChatId changes, re-initializing useChat for the selected chat
-    key: currentChatId ?? 'no-chat',
-    initialMessages: initialMessages,
+    // Each chat gets its own useChat state; messages are loaded from storage below
+    id: currentChatId ?? undefined,
+    body: {
+      modelSettings: currentModelSettings,
+      // The server assembles the system prompt from the persona; custom ones are sent along
+      prompt: buildPromptSelection(promptLibrary, currentChat?.personaId),
+      systemPrompt: currentChat?.systemPrompt,
+      pinnedMessageIds: currentChat?.pinnedMessageIds,
+    },
+    // Message ids are needed on the server for pinned messages and the running context summary
+    sendExtraMessageFields: true,
     // Add other useChat options if needed (e.g., api endpoint)
     // api: '/api/chat'
     // Add onError callback
@@ -126,17 +209,35 @@ export default function Home() {
     },
   });
 
+  // Load messages for the current chat (storage is async, so they are set once read)
+  useEffect(() => {
+    if (!isClient || !currentChatId) return;
+    let cancelled = false;
+    loadMessageTree(currentChatId).then(tree => {
+      if (cancelled) return;
+      setMessageTree({ chatId: currentChatId, tree });
+      setMessages(getActivePath(tree));
+    });
+    return () => { cancelled = true; };
+  }, [isClient, currentChatId, setMessages]);
+
   // Save messages whenever they change for the current chat
   useEffect(() => {
     if (isClient && currentChatId && messages.length > 0) {
-      saveMessages(currentChatId, messages);
+      // Merge the shown branch into the chat's tree (skipped until the tree of a newly selected chat is loaded)
+      setMessageTree(prev => {
+        if (prev?.chatId !== currentChatId) return prev;
+        const tree = mergeActivePath(prev.tree, messages);
+        if (tree === prev.tree) return prev;
+        saveMessageTree(currentChatId, tree);
+        return { chatId: currentChatId, tree };
+      });
 
       // Update title and lastUpdated timestamp
       setChats(prevChats => {
-        const firstUserMessage = messages.find(m => m.role === 'user');
-        const newTitle = firstUserMessage
-          ? firstUserMessage.content.substring(0, 15) + (firstUserMessage.content.length > 15 ? '...' : '')
-          : prevChats.find(c => c.id === currentChatId)?.title; // Keep existing title if no user message yet
+        // Placeholder from the first message until the model names the chat; generated and renamed titles are kept
+        const existingChat = prevChats.find(c => c.id === currentChatId);
+        const newTitle = existingChat && !existingChat.titleSource ? getFallbackTitle(messages) : existingChat?.title;
 
         const now = Date.now();
         let chatUpdated = false;
@@ -163,6 +264,118 @@ export default function Home() {
     }
   }, [messages, currentChatId, isClient]);
 
+  // Title, summary and tags from the model once the first reply has finished (in the background,
+  // at most one attempt per chat and session; the placeholder title stays if it fails)
+  const metadataRequestedRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (!isClient || !currentChatId || isLoading || metadataRequestedRef.current.has(currentChatId)) return;
+    const chat = chats.find(c => c.id === currentChatId);
+    if (!chat || chat.summary !== undefined || !getFirstExchange(messages).assistant) return;
+
+    metadataRequestedRef.current.add(currentChatId);
+    const chatId = currentChatId;
+    requestChatMetadata(messages, chat.modelSettings)
+      .then(({ title, summary, tags }) => {
+        setChats(prevChats => {
+          const updatedChats = prevChats.map(c => c.id === chatId
+            ? {
+                ...c,
+                // A rename while the request was running wins
+                ...(c.titleSource !== 'manual' && title && { title, titleSource: 'generated' as const }),
+                summary,
+                // Tags added by hand before the reply finished are kept
+                tags: [...new Set([...(c.tags ?? []), ...tags])],
+              }
+            : c
+          );
+          saveChats(updatedChats);
+          return updatedChats;
+        });
+      })
+      .catch(error => console.warn(`[Metadata] Could not generate a title for chat ${chatId}:`, error));
+  }, [isClient, currentChatId, isLoading, chats, messages]);
+
+  // Sibling ids (alternative edits / regenerations) per message, for the branch switcher
+  const branchSiblingIds = useMemo(
+    () => (messageTree && messageTree.chatId === currentChatId ? getSiblingIds(messageTree.tree) : new Map<string, string[]>()),
+    [messageTree, currentChatId]
+  );
+
+  // Sources for @mentions in the chat input
+  const mentionProviders = useMemo(() => [
+    createChatMentionProvider(chats, currentChatId),
+    createFileMentionProvider(messages),
+    createArtifactMentionProvider(messages),
+    createPersonaMentionProvider(promptLibrary, currentChat?.personaId),
+  ], [chats, currentChatId, messages, promptLibrary, currentChat?.personaId]);
+
+  // Latest chat state for the branch handlers below, which stay stable so memoized messages
+  // don't re-render on every streamed token
+  const branchStateRef = useRef({ currentChatId, messageTree, messages, isLoading });
+  branchStateRef.current = { currentChatId, messageTree, messages, isLoading };
+
+  // Show another branch: the sibling message and the newest replies below it
+  const handleSwitchBranch = useCallback((messageId: string) => {
+    const { currentChatId, messageTree, isLoading } = branchStateRef.current;
+    if (!currentChatId || !messageTree || messageTree.chatId !== currentChatId || isLoading) return;
+    const tree = selectBranch(messageTree.tree, messageId);
+    setMessageTree({ chatId: currentChatId, tree });
+    saveMessageTree(currentChatId, tree);
+    setMessages(getActivePath(tree));
+  }, [setMessages]);
+
+  // Edit a user message: the new text is sent as a sibling branch, the original stays reachable
+  const handleEditMessage = useCallback((messageId: string, content: string) => {
+    const { messages, isLoading } = branchStateRef.current;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1 || isLoading) return;
+    const original = messages[index];
+    setMessages(messages.slice(0, index));
+    append(
+      { role: 'user', content, data: original.data },
+      { experimental_attachments: original.experimental_attachments }
+    );
+  }, [setMessages, append]);
+
+  // Regenerate an assistant reply as a new sibling branch
+  const handleRegenerateMessage = useCallback((messageId: string) => {
+    const { messages, isLoading } = branchStateRef.current;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index <= 0 || isLoading) return;
+    setMessages(messages.slice(0, index));
+    reload();
+  }, [setMessages, reload]);
+
+  // Restored and edited artifact versions are posted as the latest reply, so the model sees them as current
+  const appendArtifactVersion = useCallback((note: string, id: string, files: ArtifactFile[]) => {
+    const { messages, isLoading } = branchStateRef.current;
+    if (isLoading) return;
+    setMessages([
+      ...messages,
+      { id: nanoid(), role: 'assistant', createdAt: new Date(), content: `${note}\n\n${formatArtifactFences(files, id)}` },
+    ]);
+  }, [setMessages]);
+
+  const handleRestoreArtifactVersion = useCallback((history: ArtifactHistory, version: ArtifactVersion) => {
+    appendArtifactVersion(`Restored **${history.id}** to version ${version.number}.`, history.id, version.files);
+  }, [appendArtifactVersion]);
+
+  const handleSaveArtifactEdits = useCallback((history: ArtifactHistory, files: ArtifactFile[]) => {
+    appendArtifactVersion(`Updated **${history.id}** with the user's edits to the source.`, history.id, files);
+  }, [appendArtifactVersion]);
+
+  // "Fix with AI": the files and their errors go to the model as a new user turn
+  const handleRequestArtifactFix = useCallback((history: ArtifactHistory, files: ArtifactFile[], errors: string[]) => {
+    if (branchStateRef.current.isLoading) return;
+    append({ role: 'user', content: formatArtifactFixRequest(history.id, files, errors) });
+  }, [append]);
+
+  // Refresh the storage usage indicator whenever chats are saved (saves bump lastUpdated)
+  useEffect(() => {
+    if (!isClient) return;
+    getStorageUsage().then(setStorageUsage);
+  }, [chats, isClient]);
+
   // --- NEW: Handler to toggle sidebar ---
   const handleToggleSidebar = () => {
     setIsSidebarCollapsed(prev => !prev);
@@ -176,6 +389,14 @@ export default function Home() {
     // useChat will re-initialize due to key change
   }, []);
 
+  // Open the chat of a search result and jump to the matched message
+  const handleSelectSearchResult = useCallback((chatId: string, messageId: string) => {
+    handleSelectChat(chatId);
+    setHighlightedMessageId(messageId);
+  }, [handleSelectChat]);
+
+  const handleHighlightHandled = useCallback(() => setHighlightedMessageId(null), []);
+
   // --- Modified handleNewChat with lock ---
   const handleNewChat = useCallback(() => {
     // Check the lock
@@ -192,20 +413,25 @@ export default function Home() {
       const newChatId = nanoid(8);
       const newChat: ChatHistoryItem = {
         id: newChatId,
-        title: "New Chat", // Consider limiting initial title here too if desired
+        title: NEW_CHAT_TITLE, // Replaced by a placeholder from the first message, then the generated title
         lastUpdated: Date.now(),
         isPinned: false,
         isArchived: false,
+        // New chats inherit the model configuration and persona of the chat the user is coming from
+        modelSettings: chats.find(chat => chat.id === currentChatId)?.modelSettings ?? DEFAULT_MODEL_SETTINGS,
+        personaId: chats.find(chat => chat.id === currentChatId)?.personaId,
+        workspaceId: organization.activeWorkspaceId,
+        ...(activeWorkspace?.systemPrompt && { systemPrompt: activeWorkspace.systemPrompt }),
       };
       const updatedChats = [newChat, ...chats];
       console.log("[handleNewChat] Intending to set chats to:", updatedChats);
       setChats(updatedChats);
       saveChats(updatedChats);
-      console.log("[handleNewChat] Saved chats to localStorage.");
+      console.log("[handleNewChat] Saved chats to storage.");
       setCurrentChatId(newChatId);
       saveCurrentChatId(newChatId);
-      setMessages([]); // Clear messages for the new chat
-      console.log("[handleNewChat] Finished. Set currentId and cleared messages.");
+      if (activeWorkspace?.agentMode) setAgentMode(activeWorkspace.agentMode);
+      console.log("[handleNewChat] Finished. Set currentId.");
 
     } catch (error) {
         console.error("[handleNewChat] Error during chat creation:", error);
@@ -215,41 +441,160 @@ export default function Home() {
       // Release the lock
       isCreatingChatRef.current = false;
     }
-  }, [chats, setMessages]);
-
-  // Delete a chat
-  const handleDeleteChat = useCallback((chatIdToDelete: string) => {
-    if (!chatIdToDelete) return;
+  }, [chats, currentChatId, organization.activeWorkspaceId, activeWorkspace]);
 
-    // Remove messages from local storage using the new utility function
-    deleteChatMessages(chatIdToDelete);
+  // Delete chats. Their messages stay in the storage trash for a few seconds so the toast can undo it.
+  const handleDeleteChats = useCallback((chatIdsToDelete: string[]) => {
+    const deletedChats = chats.filter(chat => chatIdsToDelete.includes(chat.id));
+    if (deletedChats.length === 0) return;
 
-    // Remove chat from the list
-    const updatedChats = chats.filter(chat => chat.id !== chatIdToDelete);
+    // Remove chats from the list
+    const updatedChats = chats.filter(chat => !chatIdsToDelete.includes(chat.id));
     setChats(updatedChats);
     saveChats(updatedChats);
+    const trashId = trashChats(deletedChats);
 
-    // If the deleted chat was the current one, select the next available or null
-    if (currentChatId === chatIdToDelete) {
-        const nextChatId = updatedChats[0]?.id ?? null;
+    // If the current chat was deleted, select the next available non-archived one or null
+    if (currentChatId && chatIdsToDelete.includes(currentChatId)) {
+        const nextChatId = updatedChats.find(chat => !chat.isArchived && getChatWorkspaceId(chat) === organization.activeWorkspaceId)?.id ?? null;
         setCurrentChatId(nextChatId);
         saveCurrentChatId(nextChatId);
-        setMessages(nextChatId ? loadMessages(nextChatId) : []); // Load messages for next chat or clear
+        // Messages for the next chat are loaded by the currentChatId effect
     }
 
-  }, [currentChatId, chats, setMessages]);
+    toast(deletedChats.length === 1 ? `Deleted "${deletedChats[0].title}"` : `Deleted ${deletedChats.length} chats`, {
+      duration: TRASH_RETENTION_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          const restoredChats = restoreTrashedChats(trashId);
+          if (!restoredChats) return;
+          setChats(prevChats => {
+            const restoredIds = new Set(restoredChats.map(chat => chat.id));
+            const updated = [...restoredChats, ...prevChats.filter(chat => !restoredIds.has(chat.id))];
+            saveChats(updated);
+            return updated;
+          });
+        },
+      },
+    });
+  }, [currentChatId, chats, organization.activeWorkspaceId]);
 
   // Rename a chat
   const handleRenameChat = useCallback((chatIdToRename: string, newTitle: string) => {
       setChats(prevChats => {
           const updatedChats = prevChats.map(chat =>
-              chat.id === chatIdToRename ? { ...chat, title: newTitle, lastUpdated: Date.now() } : chat
+              chat.id === chatIdToRename ? { ...chat, title: newTitle, titleSource: 'manual' as const, lastUpdated: Date.now() } : chat
           );
           saveChats(updatedChats); // Pass toast
           return updatedChats;
       });
   }, []); // No dependencies needed as it only uses setter
 
+  // Update the model settings of the current chat
+  const handleModelSettingsChange = useCallback((modelSettings: ModelSettings) => {
+    if (!currentChatId) return;
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(chat =>
+        chat.id === currentChatId ? { ...chat, modelSettings } : chat
+      );
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, [currentChatId]);
+
+  // Set or clear (undefined) the custom instructions of the current chat
+  const handleSystemPromptChange = useCallback((systemPrompt: string | undefined) => {
+    if (!currentChatId) return;
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(chat =>
+        chat.id === currentChatId ? { ...chat, systemPrompt } : chat
+      );
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, [currentChatId]);
+
+  // Persona of the current chat; the default one is stored as unset
+  const handlePersonaChange = useCallback((personaId: string) => {
+    if (!currentChatId) return;
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(chat =>
+        chat.id === currentChatId ? { ...chat, personaId: personaId === DEFAULT_PERSONA_ID ? undefined : personaId } : chat
+      );
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, [currentChatId]);
+
+  const handlePromptLibraryChange = useCallback((library: PromptLibrary) => {
+    setPromptLibrary(library);
+    savePromptLibrary(library);
+  }, []);
+
+  // Pinned messages are always sent, even when older messages no longer fit the context window
+  const handleTogglePinMessage = useCallback((messageId: string) => {
+    if (!currentChatId) return;
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(chat => {
+        if (chat.id !== currentChatId) return chat;
+        const pinned = chat.pinnedMessageIds ?? [];
+        return {
+          ...chat,
+          pinnedMessageIds: pinned.includes(messageId) ? pinned.filter(id => id !== messageId) : [...pinned, messageId],
+        };
+      });
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, [currentChatId]);
+
+  // Export chats (messages are read from storage so non-open chats are included)
+  const handleExportChats = useCallback(async (chatIds: string[], format: ChatExportFormat) => {
+    try {
+      const entries = await Promise.all(
+        chats
+          .filter(chat => chatIds.includes(chat.id))
+          .map(async chat => ({ chat, messages: await loadMessages(chat.id) }))
+      );
+      const { filename, content, mimeType } = await exportChats(entries, format);
+      downloadFile(filename, content, mimeType);
+      toast.success(`Exported ${entries.length} chat${entries.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error("[Export] Failed to export chats:", error);
+      toast.error("Export Error", { description: error instanceof Error ? error.message : "Could not export chats." });
+    }
+  }, [chats]);
+
+  // Import chats from a JSON export; colliding chat ids are replaced so nothing is overwritten
+  const handleImportChats = useCallback(async (file: File) => {
+    try {
+      const entries = prepareImportedChats(parseChatExport(await file.text()), chats);
+      if (entries.length === 0) {
+        toast.warning("Nothing to Import", { description: "The file does not contain any chats." });
+        return;
+      }
+      for (const { chat, messages, attachmentTexts } of entries) {
+        for (const [attachmentId, text] of Object.entries(attachmentTexts ?? {})) {
+          await uploadAttachmentText(attachmentId, text).catch(() => {
+            throw new ChatImportError(`Could not upload the attached files of "${chat.title}". Check your connection and try again.`);
+          });
+        }
+        await saveMessages(chat.id, messages);
+      }
+      // Imported chats go to the top level of the active workspace
+      const updatedChats = [...entries.map(entry => ({ ...entry.chat, workspaceId: organization.activeWorkspaceId })), ...chats];
+      setChats(updatedChats);
+      await saveChats(updatedChats);
+      toast.success(`Imported ${entries.length} chat${entries.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error("[Import] Failed to import chats:", error);
+      toast.error("Import Error", {
+        description: error instanceof ChatImportError ? error.message : "Could not import chats from this file.",
+      });
+    }
+  }, [chats, organization.activeWorkspaceId]);
+
   // --- NEW: Handler to toggle pin state ---
   const handleTogglePinChat = useCallback((chatIdToToggle: string) => {
     setChats(prevChats => {
@@ -261,26 +606,148 @@ export default function Home() {
     });
   }, []);
 
-  // --- NEW: Handler to toggle archive state ---
-  const handleToggleArchiveChat = useCallback((chatIdToToggle: string) => {
+  // Pin / unpin several chats at once
+  const handleSetChatsPinned = useCallback((chatIds: string[], isPinned: boolean) => {
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(chat =>
+        chatIds.includes(chat.id) ? { ...chat, isPinned } : chat
+      );
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, []);
+
+  // --- NEW: Handler to archive / restore chats ---
+  const handleSetChatsArchived = useCallback((chatIds: string[], isArchived: boolean) => {
     setChats(prevChats => {
       // If archiving the current chat, select the next available non-archived chat
-      if (currentChatId === chatIdToToggle) {
-          const nonArchivedChats = prevChats.filter(c => c.id !== chatIdToToggle && !c.isArchived);
+      if (isArchived && currentChatId && chatIds.includes(currentChatId)) {
+          const nonArchivedChats = prevChats.filter(c =>
+            !chatIds.includes(c.id) && !c.isArchived && getChatWorkspaceId(c) === organization.activeWorkspaceId
+          );
           const nextChatId = nonArchivedChats[0]?.id ?? null;
           setCurrentChatId(nextChatId);
           saveCurrentChatId(nextChatId);
-          setMessages(nextChatId ? loadMessages(nextChatId) : []);
       }
 
       // Update the archive status and save
       const updatedChats = prevChats.map(chat =>
-        chat.id === chatIdToToggle ? { ...chat, isArchived: !chat.isArchived, lastUpdated: Date.now() } : chat // Also update timestamp on archive/unarchive
+        chatIds.includes(chat.id) ? { ...chat, isArchived, lastUpdated: Date.now() } : chat // Also update timestamp on archive/unarchive
       );
       saveChats(updatedChats);
       return updatedChats;
     });
-  }, [currentChatId, setMessages]); // Added currentChatId and setMessages dependency
+  }, [currentChatId, organization.activeWorkspaceId]);
+
+  // --- Workspaces, folders and tags ---
+
+  const updateOrganization = useCallback((update: (prev: ChatOrganization) => ChatOrganization) => {
+    setOrganization(prev => {
+      const next = update(prev);
+      saveOrganization(next);
+      return next;
+    });
+  }, []);
+
+  const updateChats = useCallback((update: (chat: ChatHistoryItem) => ChatHistoryItem) => {
+    setChats(prevChats => {
+      const updatedChats = prevChats.map(update);
+      saveChats(updatedChats);
+      return updatedChats;
+    });
+  }, []);
+
+  // Open a workspace with its most recent chat and its default agent mode
+  const switchToWorkspace = useCallback((workspace: Workspace) => {
+    updateOrganization(prev => ({ ...prev, activeWorkspaceId: workspace.id }));
+    const nextChat = chats
+      .filter(chat => !chat.isArchived && getChatWorkspaceId(chat) === workspace.id)
+      .sort((a, b) => b.lastUpdated - a.lastUpdated)[0];
+    setCurrentChatId(nextChat?.id ?? null);
+    saveCurrentChatId(nextChat?.id ?? null);
+    if (workspace.agentMode) setAgentMode(workspace.agentMode);
+  }, [chats, updateOrganization]);
+
+  const handleSelectWorkspace = useCallback((workspaceId: string) => {
+    const workspace = organization.workspaces.find(w => w.id === workspaceId);
+    if (workspace && workspaceId !== organization.activeWorkspaceId) switchToWorkspace(workspace);
+  }, [organization, switchToWorkspace]);
+
+  const handleCreateWorkspace = useCallback((settings: Omit<Workspace, 'id'>) => {
+    const workspace: Workspace = { id: nanoid(8), ...settings };
+    updateOrganization(prev => ({ ...prev, workspaces: [...prev.workspaces, workspace] }));
+    switchToWorkspace(workspace);
+  }, [updateOrganization, switchToWorkspace]);
+
+  const handleUpdateWorkspace = useCallback((workspace: Workspace) => {
+    updateOrganization(prev => ({
+      ...prev,
+      workspaces: prev.workspaces.map(w => (w.id === workspace.id ? workspace : w)),
+    }));
+  }, [updateOrganization]);
+
+  // Chats of a deleted workspace move to the top level of the default workspace
+  const handleDeleteWorkspace = useCallback((workspaceId: string) => {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) return;
+    updateChats(chat => (getChatWorkspaceId(chat) === workspaceId
+      ? { ...chat, workspaceId: DEFAULT_WORKSPACE_ID, folderId: undefined }
+      : chat
+    ));
+    updateOrganization(prev => ({
+      ...prev,
+      workspaces: prev.workspaces.filter(w => w.id !== workspaceId),
+      folders: prev.folders.filter(folder => folder.workspaceId !== workspaceId),
+    }));
+    const defaultWorkspace = organization.workspaces.find(w => w.id === DEFAULT_WORKSPACE_ID);
+    if (organization.activeWorkspaceId === workspaceId && defaultWorkspace) switchToWorkspace(defaultWorkspace);
+  }, [organization, updateChats, updateOrganization, switchToWorkspace]);
+
+  const handleCreateFolder = useCallback((name: string, parentId: string | null) => {
+    updateOrganization(prev => ({
+      ...prev,
+      folders: [...prev.folders, { id: nanoid(8), name, parentId, workspaceId: prev.activeWorkspaceId }],
+    }));
+  }, [updateOrganization]);
+
+  const handleRenameFolder = useCallback((folderId: string, name: string) => {
+    updateOrganization(prev => ({
+      ...prev,
+      folders: prev.folders.map(folder => (folder.id === folderId ? { ...folder, name } : folder)),
+    }));
+  }, [updateOrganization]);
+
+  // Subfolders and chats of a deleted folder move up one level
+  const handleDeleteFolder = useCallback((folderId: string) => {
+    const folder = organization.folders.find(f => f.id === folderId);
+    if (!folder) return;
+    updateChats(chat => (chat.folderId === folderId ? { ...chat, folderId: folder.parentId ?? undefined } : chat));
+    updateOrganization(prev => ({
+      ...prev,
+      folders: prev.folders
+        .filter(f => f.id !== folderId)
+        .map(f => (f.parentId === folderId ? { ...f, parentId: folder.parentId } : f)),
+    }));
+  }, [organization.folders, updateChats, updateOrganization]);
+
+  const handleMoveFolder = useCallback((folderId: string, parentId: string | null) => {
+    updateOrganization(prev => (canMoveFolder(prev.folders, folderId, parentId)
+      ? { ...prev, folders: prev.folders.map(folder => (folder.id === folderId ? { ...folder, parentId } : folder)) }
+      : prev
+    ));
+  }, [updateOrganization]);
+
+  // Move chats into a folder, or to the top level (null)
+  const handleMoveChats = useCallback((chatIds: string[], folderId: string | null) => {
+    updateChats(chat => (chatIds.includes(chat.id) ? { ...chat, folderId: folderId ?? undefined } : chat));
+  }, [updateChats]);
+
+  const handleSetChatTags = useCallback((chatId: string, tags: string[]) => {
+    updateChats(chat => (chat.id === chatId ? { ...chat, tags } : chat));
+  }, [updateChats]);
+
+  const handleSetTagColor = useCallback((tag: string, color: TagColor) => {
+    updateOrganization(prev => ({ ...prev, tagColors: { ...prev.tagColors, [tag]: color } }));
+  }, [updateOrganization]);
 
   // --- NEW: Handler to run Python code via worker ---
   const handleRunPython = useCallback((code: string, messageId: string) => {
@@ -308,10 +775,35 @@ export default function Home() {
 
   }, [pyodideStatus]); // Dependency on pyodideStatus
 
+  // Server-side slash commands (/summarize, ...) are sent like workflow actions: a user message
+  // whose data tells /api/chat which command to run; the answer streams in as a normal reply
+  const handleRunServerCommand = useCallback(async (command: ServerCommandName, args: CommandArgValues, text: string) => {
+    if (isLoading) return;
+    await append({ role: 'user', content: text, data: { action: 'runCommand', command, args } });
+  }, [append, isLoading]);
+
+  // What slash commands typed in the chat input can read and do
+  const commandContext: Omit<CommandContext, 'showHelp'> = {
+    chatId: currentChatId,
+    messages,
+    modelSettings: currentModelSettings,
+    systemPrompt: currentChat?.systemPrompt,
+    newChat: handleNewChat,
+    clearChat: () => currentChatId && handleDeleteChats([currentChatId]),
+    setModelSettings: handleModelSettingsChange,
+    setAgentMode,
+    renameChat: (title) => currentChatId && handleRenameChat(currentChatId, title),
+    setSystemPrompt: handleSystemPromptChange,
+    exportChat: (format) => (currentChatId ? handleExportChats([currentChatId], format) : undefined),
+    runPython: handleRunPython,
+    runServerCommand: handleRunServerCommand,
+  };
+
   // --- Modified handleSend to use attachedFiles state ---
   const handleSend = async (
-    event?: React.FormEvent<HTMLFormElement> | { preventDefault?: () => void }
+    event?: React.FormEvent<HTMLFormElement> | { preventDefault?: () => void },
     // Files are no longer passed directly, accessed from state
+    mentions: MentionItem[] = []
   ) => {
     if (event && typeof event === 'object' && 'preventDefault' in event) {
         event.preventDefault?.();
@@ -322,73 +814,59 @@ export default function Home() {
     // Sanitize input to prevent potential injection issues
     const textInput = input.trim();
 
-    // --- Process Attached Files ---
-    const filesToProcess = attachedFiles; // Get files from state
-    const fileContentPromises: Promise<string>[] = [];
-    const fileMetadata: { name: string; type: string; size: number }[] = [];
-    let fileContentForPrompt = '';
-
-    if (filesToProcess && filesToProcess.length > 0) {
-      console.log("Processing files in page.tsx (lifted state):", filesToProcess);
-      filesToProcess.forEach(({ file }) => { // Destructure to get the file
-        fileMetadata.push({ name: file.name, type: file.type, size: file.size });
-        // If it's a text file, create a promise to read its content
-        if (ALLOWED_TEXT_MIME_TYPES.includes(file.type)) {
-          fileContentPromises.push(
-            new Promise((resolve) => {
-              const reader = new FileReader();
-              reader.onload = (e) => {
-                const text = e.target?.result as string;
-                // Format content for prompt clarity
-                resolve(`\n\n--- START FILE: ${file.name} ---\n${text}\n--- END FILE: ${file.name} ---`);
-              };
-              reader.onerror = (e) => {
-                console.error("Error reading file:", file.name, e);
-                toast.error("File Read Error", { description: `Could not read file: ${file.name}` });
-                resolve(`\n\n[Error reading file: ${file.name}]`);
-              };
-              reader.readAsText(file); // Read as text
-            })
-          );
-        } else {
-          // For non-text files, just add a marker
-          fileContentForPrompt += `\n\n[Attached non-text file: ${file.name}]`;
-        }
+    // --- Attached Files (read once when attached, see handleAttachFiles) ---
+    const filesToSend = attachedFiles;
+    if (filesToSend.some(item => item.status === 'processing')) {
+      toast.warning("Attachments Not Ready", { description: "Wait until all attached files have been read." });
+      return;
+    }
+    if (filesToSend.some(item => item.status === 'error')) {
+      toast.error("Attachment Error", { description: "Remove the files that could not be attached before sending." });
+      return;
+    }
+    const attachmentTokens = filesToSend.reduce((total, item) => total + (item.processed?.estimatedTokens ?? 0), 0);
+    if (attachmentTokens > MAX_TOTAL_ATTACHMENT_TOKENS) {
+      toast.error("Attachments Too Large", {
+        description: `The attached files use about ${attachmentTokens.toLocaleString()} tokens; the limit per message is ${MAX_TOTAL_ATTACHMENT_TOKENS.toLocaleString()}. Remove some files.`,
       });
-
-      // Wait for all text file reads to complete
-      try {
-        const allFileContents = await Promise.all(fileContentPromises);
-        fileContentForPrompt += allFileContents.join('');
-      } catch (error) {
-        console.error("Error processing file contents:", error);
-        fileContentForPrompt += "\n\n[Error processing some file contents]";
-        toast.error("File Processing Error", { description: "An unexpected error occurred while processing files." });
-      }
+      return;
     }
 
-    // Construct the final message content
-    const finalContent = textInput + fileContentForPrompt;
+    // The message data only references the files by id (their text was uploaded when they were
+    // attached and is expanded into the prompt by /api/chat); images are sent as image parts
+    const attachments = filesToSend.flatMap(item => item.processed ? [toMessageAttachment({ ...item, processed: item.processed })] : []);
+    const imageAttachments = filesToSend.flatMap(({ file, processed }) =>
+      processed?.dataUrl ? [{ name: file.name, contentType: file.type, url: processed.dataUrl }] : []
+    );
 
-    // Don't send if there's no text and no files processed
-    if (!finalContent.trim() && fileMetadata.length === 0) {
+    // Image-only messages get a placeholder (empty text is rejected by some providers)
+    const finalContent = textInput || imageAttachments.map(image => `[Image: ${image.name}]`).join(' ');
+
+    // Don't send if there's no text and no files
+    if (!finalContent.trim() && attachments.length === 0) {
         return;
     }
 
-    // Stringify metadata for the data field
-    const jsonData = fileMetadata.length > 0 ? JSON.stringify({ attachedFileMetadata: fileMetadata }) : undefined;
+    // Content of the chats / files / artifacts referenced with @mentions, injected into the prompt by /api/chat
+    const resolvedMentions = await resolveMentions(mentionProviders, mentions, textInput);
 
     // Clear attached files *before* sending (as append is async)
     setAttachedFiles([]);
+    filesToSend.forEach(item => {
+      if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    });
 
     // Use append to send the message
     await append({
       role: 'user',
-      content: finalContent, // Send combined text and file contents
+      content: finalContent, // Only the typed text, the files are in data.attachments
       data: JSON.stringify({
-        ...(jsonData ? JSON.parse(jsonData) : {}), // Keep existing file metadata if present
-        agentMode: agentMode // Add the current agent mode
+        ...(attachments.length > 0 && { attachments }),
+        agentMode: agentMode, // Add the current agent mode
+        ...(resolvedMentions.length > 0 && { mentions: resolvedMentions })
       })
+    }, {
+      experimental_attachments: imageAttachments.length > 0 ? imageAttachments : undefined,
     });
 
     // Input should clear automatically via useChat hook now
@@ -396,57 +874,50 @@ export default function Home() {
   };
 
   // --- Attach Files ---
-  const handleAttachFiles = (files: FileList | File[]) => {
+  // Files are staged here and their text is uploaded to the attachment store; no message is sent until handleSend
+  const handleAttachFiles = useCallback((files: FileList | File[]) => {
     if (!files || files.length === 0) return;
 
-    const newFiles: AttachedFileState[] = [];
-    // Use const for fileContentPromises as it's not reassigned
-    const fileContentPromises: Promise<void>[] = [];
-
-    Array.from(files).forEach(file => {
-      let previewUrl: string | null = null;
-      if (file.type.startsWith('image/')) {
-        previewUrl = URL.createObjectURL(file);
-      }
-      const newState: AttachedFileState = { file, previewUrl, error: null };
-      newFiles.push(newState);
-
-      // If it's a text file, read its content and append a message
-      if (ALLOWED_TEXT_MIME_TYPES.includes(file.type)) {
-        fileContentPromises.push(
-          file.text()
-            .then(text => {
-              const userMessage: Message = {
-                id: nanoid(),
-                role: 'user',
-                content: `Attached file: ${file.name}\n\n\`\`\`\n${text}\n\`\`\``,
-                // Add data marker to distinguish from regular messages
-                data: { type: 'userAction', action: 'fileAttach', filename: file.name }
-              };
-              // Directly append here, message saving handled by effect
-              append(userMessage, { data: { agentMode } });
-            })
-            .catch(err => {
-              console.error(`Error reading file ${file.name}:`, err);
-              toast.error("File Read Error", { description: `Could not read file: ${file.name}` });
-            })
-        );
-      }
-    });
-
-    // Update state after creating previews
+    const newFiles: AttachedFileState[] = Array.from(files).map(file => ({
+      id: nanoid(),
+      file,
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+      status: 'processing',
+      error: null,
+    }));
     setAttachedFiles(prev => [...prev, ...newFiles]);
 
-    // Wait for all text files to be read and appended before potentially clearing input
-    // (You might adjust UI based on this completion)
-    Promise.all(fileContentPromises).then(() => {
-        console.log("Finished processing attached text files.");
-        // Optionally clear input or perform other actions here
+    // Read / extract / parse each file once and upload its text; the preview shows the result or the error
+    newFiles.forEach(({ id, file }) => {
+      processAttachment(file)
+        .then(async processed => {
+          if (processed.text !== undefined) await uploadAttachmentText(id, processed.text);
+          setAttachedFiles(prev => prev.map(item => item.id === id ? { ...item, status: 'ready', processed } : item));
+        })
+        .catch(error => {
+          if (!(error instanceof AttachmentError)) console.error(`[Attachments] Failed to process ${file.name}:`, error);
+          const message = error instanceof AttachmentError ? error.message : 'Could not read this file.';
+          setAttachedFiles(prev => prev.map(item => item.id === id ? { ...item, status: 'error', error: message } : item));
+        });
     });
-  };
+  }, []);
+
+  // Artifact screenshots are attached like any image; asking about one prefills an empty input
+  const handleArtifactScreenshot = useCallback((screenshot: ArtifactScreenshot) => {
+    handleAttachFiles([screenshot.file]);
+    if (screenshot.ask) {
+      setInput(current => current.trim() ? current : formatArtifactScreenshotQuestion(screenshot));
+    }
+    toast.success("Screenshot attached", { description: "It will be sent with your next message." });
+  }, [handleAttachFiles, setInput]);
 
   // --- Handler for removing an attached file ---
   const handleRemoveAttachedFile = useCallback((indexToRemove: number) => {
+    // Its text was already uploaded but is never sent now
+    const removedFile = attachedFilesRef.current[indexToRemove];
+    if (removedFile?.status === 'ready' && removedFile.processed?.text !== undefined) {
+      void deleteAttachmentTexts([removedFile.id]);
+    }
     setAttachedFiles(prevFiles => {
       const fileToRemove = prevFiles[indexToRemove];
       // Revoke URL if it exists
@@ -560,15 +1031,34 @@ export default function Home() {
     <div className="flex flex-1 h-full overflow-hidden"> {/* Use h-full to fill parent <main> */}
       {/* Chat History Sidebar */}
       <ChatHistorySidebar
-        chats={chats}
+        chats={workspaceChats}
         currentChatId={currentChatId}
         onSelectChat={handleSelectChat}
         onNewChat={handleNewChat}
-        onDeleteChat={handleDeleteChat}
+        onDeleteChats={handleDeleteChats}
+        onSetChatsArchived={handleSetChatsArchived}
+        onSetChatsPinned={handleSetChatsPinned}
         onRenameChat={handleRenameChat}
         onTogglePinChat={handleTogglePinChat}
         isCollapsed={isSidebarCollapsed}
         onToggleCollapse={handleToggleSidebar}
+        storageUsage={storageUsage}
+        onSearchMessages={searchChats}
+        onSelectSearchResult={handleSelectSearchResult}
+        onExportChats={handleExportChats}
+        onImportChats={handleImportChats}
+        organization={organization}
+        onSelectWorkspace={handleSelectWorkspace}
+        onCreateWorkspace={handleCreateWorkspace}
+        onUpdateWorkspace={handleUpdateWorkspace}
+        onDeleteWorkspace={handleDeleteWorkspace}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onMoveFolder={handleMoveFolder}
+        onMoveChats={handleMoveChats}
+        onSetChatTags={handleSetChatTags}
+        onSetTagColor={handleSetTagColor}
       />
 
       {/* --- Main Chat Area Wrapper --- */}
@@ -578,20 +1068,38 @@ export default function Home() {
             currentChatId={currentChatId}
             agentMode={agentMode}
             setAgentMode={setAgentMode}
+            modelSettings={currentModelSettings}
+            onModelSettingsChange={handleModelSettingsChange}
+            personaId={currentChat?.personaId}
+            onPersonaChange={handlePersonaChange}
+            promptLibrary={promptLibrary}
+            onPromptLibraryChange={handlePromptLibraryChange}
             messages={messages}
             input={input}
             handleInputChange={handleInputChange}
             handleSubmit={handleSend}
+            mentionProviders={mentionProviders}
             isLoading={isLoading}
             stop={stop}
             append={append}
-            onClear={() => handleDeleteChat(currentChatId)}
-            onNewChat={handleNewChat}
+            branchSiblingIds={branchSiblingIds}
+            onSwitchBranch={handleSwitchBranch}
+            onEditMessage={handleEditMessage}
+            onRegenerateMessage={handleRegenerateMessage}
+            pinnedMessageIds={currentChat?.pinnedMessageIds ?? NO_PINNED_MESSAGES}
+            onTogglePinMessage={handleTogglePinMessage}
+            commandContext={commandContext}
             attachedFiles={attachedFiles}
             onAttachFiles={handleAttachFiles}
             onRemoveFile={handleRemoveAttachedFile}
             onRunPython={handleRunPython}
             pyExecutionResults={pyExecutionResults}
+            highlightedMessageId={highlightedMessageId}
+            onHighlightHandled={handleHighlightHandled}
+            onRestoreArtifactVersion={handleRestoreArtifactVersion}
+            onSaveArtifactEdits={handleSaveArtifactEdits}
+            onRequestArtifactFix={handleRequestArtifactFix}
+            onArtifactScreenshot={handleArtifactScreenshot}
           />
         ) : (
           // --- Centered Placeholder for No Chat Selected ---
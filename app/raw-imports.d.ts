@@ -0,0 +1,5 @@
+// File contents imported as text (see the `?raw` rule in next.config.mjs)
+declare module '*?raw' {
+  const content: string;
+  export default content;
+}
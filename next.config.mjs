@@ -1,7 +1,49 @@
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const isDev = process.env.NODE_ENV !== 'production';
+
+// CSP of the artifact renderer page (app/artifact-renderer). Artifact code may load the app's own
+// scripts and styles but not reach the network; ARTIFACT_CONNECT_SRC (e.g. "https://api.example.com")
+// allows requests to the listed sources. In development, Next needs eval and its HMR connection.
+const artifactRendererCsp = [
+  "default-src 'self'",
+  `script-src 'self' 'unsafe-inline' blob:${isDev ? " 'unsafe-eval'" : ''}`,
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data: blob:",
+  "font-src 'self' data:",
+  `connect-src ${[isDev && "'self' ws:", process.env.ARTIFACT_CONNECT_SRC].filter(Boolean).join(' ') || "'none'"}`,
+  "media-src 'self' data: blob:",
+  "worker-src 'none'",
+  "frame-src 'none'",
+  "object-src 'none'",
+  "base-uri 'none'",
+  "form-action 'none'",
+  "frame-ancestors 'self'",
+].join('; ');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Add any existing configurations here
   // Removed the unused custom webpack configuration previously added for Pyodide
+  webpack(config) {
+    // `import text from './file?raw'` gives the file's contents as a string (e.g. the stylesheets for
+    // the artifact Tailwind compiler). Added in front of Next's own rules so CSS files aren't processed.
+    const nextRules = config.module.rules.find((rule) => Array.isArray(rule?.oneOf));
+    nextRules.oneOf.unshift({ resourceQuery: /raw/, type: 'asset/source' });
+    // Package stylesheets by file path: webpack checks package exports with the query included
+    config.resolve.alias['@artifact-stylesheets/tailwindcss$'] = require.resolve('tailwindcss/index.css');
+    config.resolve.alias['@artifact-stylesheets/tw-animate-css$'] = require.resolve('tw-animate-css');
+    return config;
+  },
+  async headers() {
+    return [
+      {
+        source: '/artifact-renderer',
+        headers: [{ key: 'Content-Security-Policy', value: artifactRendererCsp }],
+      },
+    ];
+  },
 };
 
 export default nextConfig; 
\ No newline at end of file